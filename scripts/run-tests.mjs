@@ -0,0 +1,59 @@
+#!/usr/bin/env node
+import { build } from 'esbuild';
+import { readdir, rm } from 'fs/promises';
+import { spawn } from 'child_process';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const rootDir = path.resolve(__dirname, '..');
+const testDir = path.join(rootDir, 'test');
+const outDir = path.join(rootDir, 'out', 'test');
+
+// Tests run in plain Node, so `vscode` resolves to the stub in test/harness
+const vscodeStubPlugin = {
+  name: 'vscode-stub',
+  setup(build) {
+    build.onResolve({ filter: /^vscode$/ }, () => ({ path: path.join(testDir, 'harness', 'vscodeStub.ts') }));
+  }
+};
+
+async function runTests() {
+  const filter = process.argv[2];
+  const entryPoints = (await readdir(testDir, { recursive: true }))
+    .filter((file) => file.endsWith('.test.ts') && (!filter || file.includes(filter)))
+    .map((file) => path.join(testDir, file));
+  if (entryPoints.length === 0) {
+    console.error(`No tests found${filter ? ` matching "${filter}"` : ''}.`);
+    process.exitCode = 1;
+    return;
+  }
+
+  await rm(outDir, { recursive: true, force: true });
+  await build({
+    entryPoints,
+    outdir: outDir,
+    outbase: testDir,
+    bundle: true,
+    format: 'cjs',
+    platform: 'node',
+    target: 'node18',
+    // Dependencies load from node_modules at runtime; only the sources under test are bundled
+    packages: 'external',
+    plugins: [vscodeStubPlugin],
+    sourcemap: 'inline',
+    logLevel: 'warning'
+  });
+
+  const outputs = entryPoints.map((file) =>
+    path.join(outDir, path.relative(testDir, file)).replace(/\.ts$/, '.js')
+  );
+  const child = spawn(process.execPath, ['--enable-source-maps', '--test', ...outputs], { stdio: 'inherit' });
+  process.exitCode = await new Promise((resolve) => child.on('exit', (code) => resolve(code ?? 1)));
+}
+
+runTests().catch((err) => {
+  console.error(err);
+  process.exitCode = 1;
+});
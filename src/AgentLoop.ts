@@ -1,44 +1,108 @@
 import * as vscode from 'vscode';
-import { ChatOpenAI, ChatOpenAIFields } from '@langchain/openai';
-import { HumanMessage, SystemMessage, AIMessage, ToolMessage } from '@langchain/core/messages';
+import { HumanMessage, SystemMessage, AIMessage, AIMessageChunk, ToolMessage } from '@langchain/core/messages';
 import type { ToolCall } from '@langchain/core/messages/tool';
-import { MessageQueue } from './MessageQueue';
+import type { BaseLanguageModelInput } from '@langchain/core/language_models/base';
+import type { Runnable } from '@langchain/core/runnables';
+import { MessageQueue, QueuedMessage } from './MessageQueue';
 import { PluginManager } from './plugins/PluginManager';
-import { PluginContext, EnqueueMessageOptions } from './plugins/IPlugin';
+import { IPlugin, PluginContext, EnqueueMessageOptions, PromptTemplate } from './plugins/IPlugin';
 import { loadCharacterCard } from './CharacterLoader';
 import { TelemetryService } from './TelemetryService';
 import motionsMap from './motions_map.json';
 import { TtsService, TtsConfig } from './TtsService';
+import { TtsPipeline, TtsPipelineResult } from './TtsPipeline';
+import { cleanLlmText, StreamingTextCleaner } from './LlmTextCleaner';
+import { ConversationThreads, GLOBAL_THREAD_KEY, ThreadMessage } from './ConversationThreads';
+import { UsageLedger } from './UsageLedger';
+import { estimateTokens, replaceAgedImages, selectEvictedMessages, summarizeEvictedMessages } from './HistoryBudget';
+import { MemoryStore, currentWorkspaceKey } from './memory/MemoryStore';
+import { MemorySummarizer } from './memory/MemorySummarizer';
+import { formatMemoryBlock, selectRelevantMemories } from './memory/memoryRecall';
+import { LlmProviderRegistry, ResolvedLlmProvider } from './providers/LlmProviderRegistry';
+import { computeBackoffMs, getRetryAfterMs, sleep } from './providers/LlmRetry';
+import { LlmError } from './providers/LlmError';
+import { describeLlmError, LlmSetupError } from './LlmRecovery';
+import {
+  buildReplyInstructions,
+  buildReplySchema,
+  isStructuredOutputRejected,
+  parseStructuredReply,
+  STRUCTURED_REPLY_NAME,
+} from './StructuredReply';
+import type { LlmCapabilities } from './providers/ILlmProvider';
+import { ToolRegistry } from './tools/ToolRegistry';
+import { Redactor, RedactionSettings, readRedactionSettings, StreamingRestorer } from './privacy/Redactor';
+import { PrivacyFilter } from './privacy/PrivacyFilter';
+import { PromptTemplateStore } from './prompts/PromptTemplates';
+import { Cassette } from './Cassette';
+import { Transcript, TranscriptAudio, TranscriptEntry } from './Transcript';
+import type { ITool } from './tools/ITool';
+import { ReadFileTool } from './tools/workspace/ReadFileTool';
+import { SearchWorkspaceTool } from './tools/workspace/SearchWorkspaceTool';
+import { GetDiagnosticsTool } from './tools/workspace/GetDiagnosticsTool';
+import { ListSymbolsTool } from './tools/workspace/ListSymbolsTool';
+import { ProposeEditTool } from './tools/edits/ProposeEditTool';
+import { EditProposals } from './edits/EditProposals';
+import type { CommentAnchor, InlineComments } from './decorations/InlineComments';
+
+type LlmRunner = Runnable<BaseLanguageModelInput, AIMessageChunk>;
 
-const QUICK_REPLY_TOOL = {
-  type: 'function',
-  function: {
-    name: 'show_quick_replies',
-    description:
-      'Think and imagine about how the user would reply to your message, then suggest up to three concise quick-reply options for the user. The user can use these options to reply to you. Do not just repeat what you said.',
-    parameters: {
-      type: 'object',
-      properties: {
-        reasoning: {
+/**
+ * Events that can cancel an in-flight turn (see `ani-vscode.llm.cancelOn`)
+ */
+export type TurnCancelReason = 'fileSwitch' | 'userMessage' | 'dismissSpeech';
+
+/**
+ * What the agent loop is doing, as shown in the status bar
+ */
+export type AgentStatus =
+  | { state: 'idle' }
+  | { state: 'thinking' }
+  /** `until` is when the next turn may start (epoch ms), per `ani-vscode.llm.minIntervalSeconds` */
+  | { state: 'cooldown'; until: number }
+  | { state: 'offline'; message: string }
+  | { state: 'error'; message: string };
+
+const DEFAULT_CANCEL_POLICY: TurnCancelReason[] = ['fileSwitch', 'userMessage', 'dismissSpeech'];
+
+// Upper bound for the automatic history budget, so large-context models don't resend huge histories
+const DEFAULT_HISTORY_TOKEN_CAP = 8000;
+
+const QUICK_REPLY_TOOL: Pick<ITool, 'name' | 'description' | 'parameters'> = {
+  name: 'show_quick_replies',
+  description:
+    'Think and imagine about how the user would reply to your message, then suggest up to three concise quick-reply options for the user. The user can use these options to reply to you. Do not just repeat what you said.',
+  parameters: {
+    type: 'object',
+    properties: {
+      reasoning: {
+        type: 'string',
+        description: 'The reasoning behind the suggested quick replies.',
+      },
+      replies: {
+        type: 'array',
+        description: 'Between one and three short replies for the user to choose from.',
+        minItems: 1,
+        maxItems: 3,
+        items: {
           type: 'string',
-          description: 'The reasoning behind the suggested quick replies.',
-        },
-        replies: {
-          type: 'array',
-          description: 'Between one and three short replies for the user to choose from.',
-          minItems: 1,
-          maxItems: 3,
-          items: {
-            type: 'string',
-            minLength: 1,
-            description: 'Replies that the user can choose from.',
-          },
+          minLength: 1,
+          description: 'Replies that the user can choose from.',
         },
       },
-      required: ['replies'],
     },
+    required: ['replies'],
   },
-} as const;
+};
+
+/**
+ * A turn that failed with a recoverable error, kept so it can be retried
+ */
+interface FailedTurn {
+  threadKey: string;
+  pluginId?: string;
+  userMessage?: QueuedMessage;
+}
 
 /**
  * Main agent loop that processes messages from the queue or plugins
@@ -47,23 +111,74 @@ export class AgentLoop {
   private messageQueue: MessageQueue;
   private pluginManager: PluginManager;
   private telemetry: TelemetryService | null = null;
+  private memoryStore: MemoryStore | null = null;
+  private usageLedger: UsageLedger | null = null;
+  private inlineComments: InlineComments | null = null;
+  private turnsSinceMemorySummary = 0;
+  private memorySummaryInFlight = false;
   private llmInFlight = false;
+  private currentTurn: { controller: AbortController; filePath: string | null } | null = null;
+  private lastFailedTurn: FailedTurn | null = null;
+  private structuredOutputRejected = new Set<string>();
+  private redactor: Redactor;
+  private privacyFilter: PrivacyFilter;
+  private promptTemplates: PromptTemplateStore;
   private roastDebounceTimer: NodeJS.Timeout | undefined;
   private cooldownTimer: NodeJS.Timeout | undefined;
   private lastLlmEndedAt: number | null = null;
-  private chatHistory: Array<SystemMessage | HumanMessage | AIMessage | ToolMessage> = [];
-  private lastFilePath: string | null = null;
+  private status: AgentStatus = { state: 'idle' };
+  private readonly statusEmitter = new vscode.EventEmitter<AgentStatus>();
+  /** Fires when the status changes, and when the loop is muted or unmuted */
+  readonly onDidChangeStatus = this.statusEmitter.event;
+  private muted = false;
+  private threads = new ConversationThreads();
+  private lastThreadKey: string | null = null;
+  private transcript = new Transcript();
+  private compactingThreads = new Set<string>();
   private currentCharacter: string = 'Mao';
   private extensionPath: string = '';
-  private ttsService = new TtsService();
+  private cassette: Cassette;
+  private ttsService: TtsService;
+  private llmProviders: LlmProviderRegistry;
+  private toolRegistry = new ToolRegistry();
   private logger?: vscode.OutputChannel;
   private hasAudioCapability = false;
   private pendingQuickReplies: string[] = [];
+  private editProposals: EditProposals;
 
   constructor(messageQueue: MessageQueue, pluginManager: PluginManager, logger?: vscode.OutputChannel) {
     this.messageQueue = messageQueue;
     this.pluginManager = pluginManager;
     this.logger = logger;
+    this.redactor = new Redactor(logger);
+    this.privacyFilter = new PrivacyFilter(logger);
+    // Record/replay covers every chat model and TTS request
+    this.cassette = new Cassette(logger);
+    this.llmProviders = new LlmProviderRegistry(() => this.cassette.getFetch());
+    this.ttsService = new TtsService(() => this.cassette.getFetch());
+    this.promptTemplates = new PromptTemplateStore(logger);
+    this.editProposals = new EditProposals(logger);
+
+    this.toolRegistry.register({
+      ...QUICK_REPLY_TOOL,
+      isEnabled: (config) => config.get<boolean>('quickReplies.enabled', false),
+      execute: async (args) => this.handleQuickRepliesTool(args),
+    });
+    this.toolRegistry.register(new ReadFileTool());
+    this.toolRegistry.register(new SearchWorkspaceTool());
+    this.toolRegistry.register(new GetDiagnosticsTool());
+    this.toolRegistry.register(new ListSymbolsTool());
+    this.toolRegistry.register(new ProposeEditTool(this.editProposals));
+    for (const plugin of pluginManager.getAllPlugins()) {
+      this.toolRegistry.registerPluginTools(plugin);
+    }
+  }
+
+  /**
+   * Get the registry of tools offered to the LLM
+   */
+  getToolRegistry(): ToolRegistry {
+    return this.toolRegistry;
   }
 
   /**
@@ -73,6 +188,27 @@ export class AgentLoop {
     this.telemetry = telemetry;
   }
 
+  /**
+   * Set the long-term memory store
+   */
+  setMemoryStore(memoryStore: MemoryStore): void {
+    this.memoryStore = memoryStore;
+  }
+
+  /**
+   * Set the ledger that records token and TTS usage
+   */
+  setUsageLedger(usageLedger: UsageLedger): void {
+    this.usageLedger = usageLedger;
+  }
+
+  /**
+   * Set where replies about a specific line are shown in the editor
+   */
+  setInlineComments(inlineComments: InlineComments): void {
+    this.inlineComments = inlineComments;
+  }
+
   /**
    * Set the extension path for loading character cards
    */
@@ -127,10 +263,20 @@ export class AgentLoop {
   /**
    * Run the agent loop immediately
    */
-  private async run(pluginId?: string, options?: { skipReschedule?: boolean }): Promise<void> {
+  private async run(pluginId?: string, options?: { skipReschedule?: boolean; manual?: boolean }): Promise<void> {
     if (this.llmInFlight) {
       return;
     }
+    // Plugins queue their messages with a source; a plugin the user picked counts as theirs
+    const next = this.messageQueue.peek();
+    const fromUser = Boolean(options?.manual) || (next !== null && next.source === undefined);
+    // While muted, or once the monthly budget is spent, only the user is answered
+    if (this.muted && !fromUser) {
+      return;
+    }
+    if (!fromUser && this.usageLedger?.isOverBudget(vscode.workspace.getConfiguration('ani-vscode'))) {
+      return;
+    }
 
     // Try to get active editor, or fall back to first visible editor
     let editor = vscode.window.activeTextEditor;
@@ -143,14 +289,14 @@ export class AgentLoop {
 
     // Ensure we have LLM settings
     const cfg = vscode.workspace.getConfiguration('ani-vscode');
-    const baseUrl = cfg.get<string>('llm.baseUrl', 'https://api.openai.com/v1');
-    const apiKey = cfg.get<string>('llm.apiKey', 'dummy');
+    const llmProvider = this.llmProviders.resolve(cfg);
+    const { baseUrl, apiKey } = llmProvider.settings;
     const fallbackPrompt = 'You are a helpful AI assistant. Reply in a friendly and concise manner.';
     const characterCard = loadCharacterCard(this.currentCharacter, this.extensionPath);
     const systemPrompt = characterCard?.systemPrompt || fallbackPrompt;
     const voiceInstructions = characterCard?.voiceInstructions?.trim();
     const minIntervalSec = Math.max(10, cfg.get<number>('llm.minIntervalSeconds', 10));
-    const maxHistory = Math.max(1, cfg.get<number>('llm.maxHistory', 5));
+    const historyTokenBudget = this.getHistoryTokenBudget(cfg, llmProvider.contextWindow);
 
     // Check cooldown
     const now = Date.now();
@@ -163,6 +309,7 @@ export class AgentLoop {
           return;
         }
         const delay = Math.max(0, minMs - elapsedMs);
+        this.setStatus({ state: 'cooldown', until: now + delay });
         if (this.cooldownTimer) clearTimeout(this.cooldownTimer);
         this.cooldownTimer = setTimeout(() => {
           this.cooldownTimer = undefined;
@@ -172,8 +319,16 @@ export class AgentLoop {
       }
     }
 
+    const turn = { controller: new AbortController(), filePath: editor?.document.uri.fsPath ?? null };
+    const signal = turn.controller.signal;
+    // What this turn answers, so a failed turn can be retried from the setup guide
+    let retryTarget: FailedTurn | null = null;
+    // Speaks the reply while it streams; stopped if the turn fails halfway
+    let ttsPipeline: TtsPipeline | undefined;
     try {
       this.llmInFlight = true;
+      this.currentTurn = turn;
+      this.setStatus({ state: 'thinking' });
       
       // Get the webview panel from context (will be set via method parameter in actual usage)
       const panel = (this as any).panel as vscode.WebviewPanel;
@@ -181,25 +336,18 @@ export class AgentLoop {
         panel.webview.postMessage({ type: 'thinking', on: true });
       }
 
-      // Reset chat history when switching to a different file
-      if (editor) {
-        const doc = editor.document;
-        const absPath = doc.uri.fsPath;
-        if (this.lastFilePath !== absPath) {
-          this.chatHistory = [];
-          this.lastFilePath = absPath;
-        }
-      }
-
-      // Ensure system prompt is present at the start of history
-      if (this.chatHistory.length === 0 || !(this.chatHistory[0] instanceof SystemMessage)) {
-        this.chatHistory.unshift(new SystemMessage(systemPrompt));
-      }
+      this.threads.setMaxThreads(cfg.get<number>('llm.maxThreads', 10));
+      const fileThreadKey = editor ? editor.document.uri.toString() : GLOBAL_THREAD_KEY;
+      let threadKey: string;
 
       let userPrompt: string;
       let appendText: string | undefined;
+      let anchor: CommentAnchor | undefined;
+      let onReply: QueuedMessage['onReply'];
+      let requestedTools: string[] = [];
       let imageData: { image: string; mimeType: string } | undefined;
       let triggeringPlugin: any = null; // Track which plugin generated this message
+      let queuedSource: string | undefined; // Plugin that queued the message, if it wasn't typed by the user
       
       // Check if there are user messages in the queue
       if (!this.messageQueue.isEmpty()) {
@@ -208,10 +356,16 @@ export class AgentLoop {
         if (!message) {
           return;
         }
-        userPrompt = message;
+        userPrompt = message.text;
+        queuedSource = message.source;
+        onReply = message.onReply;
+        requestedTools = message.tools ?? [];
+        // Messages about a file go to its thread; others answer whatever was said last
+        threadKey = message.threadKey ?? this.lastThreadKey ?? fileThreadKey;
+        retryTarget = { threadKey, userMessage: message };
       } else {
         // Get message from specific plugin or randomly selected plugin
-        const context = this.createPluginContext(editor, panel);
+        const context = this.createPluginContext(editor, panel, llmProvider.capabilities);
         
         // Get the plugin instance
         if (pluginId) {
@@ -233,14 +387,27 @@ export class AgentLoop {
         
         userPrompt = pluginMessage.userPrompt;
         appendText = pluginMessage.text;
+        anchor = pluginMessage.anchor;
+        if (anchor) {
+          // The user keeps typing while the reply is generated, so follow the line from now on
+          this.inlineComments?.track(anchor);
+        }
+        threadKey = triggeringPlugin.threadScope === 'global' ? GLOBAL_THREAD_KEY : fileThreadKey;
+        retryTarget = { threadKey, pluginId: triggeringPlugin.id };
         
         // Check if plugin message includes image data
         if (appendText) {
           try {
             const parsed = JSON.parse(appendText);
             if (parsed.image && parsed.mimeType) {
-              imageData = parsed;
               appendText = undefined; // Don't append to display text
+              if (llmProvider.capabilities.vision) {
+                imageData = parsed;
+              } else {
+                this.logger?.appendLine(
+                  `[LLM] Dropping image from ${triggeringPlugin.id}: model ${llmProvider.settings.model} does not support vision`
+                );
+              }
             }
           } catch {
             // Not JSON, treat as regular append text
@@ -249,19 +416,160 @@ export class AgentLoop {
       }
 
       // Send to LLM
-      const model = cfg.get<string>('llm.model', 'gpt-4o-mini');
-      const quickRepliesEnabled = cfg.get<boolean>('quickReplies.enabled', false);
-      const llmFields: ChatOpenAIFields = {
-        model,
-        configuration: { baseURL: baseUrl },
-      };
-      if (apiKey) {
-        llmFields.apiKey = apiKey;
-      }
       this.pendingQuickReplies = [];
+      this.editProposals.discardPending();
+
+      const usageSource: string = triggeringPlugin?.id ?? queuedSource ?? 'user';
+
+      // Structured output returns the text, emotion and quick replies from a single call,
+      // replacing the fast-model expression request and the quick-reply tool
+      const emotionNames = Object.keys(motionsMap[this.currentCharacter as keyof typeof motionsMap] ?? {});
+      const structuredOutput =
+        cfg.get<boolean>('llm.structuredOutput', false) &&
+        llmProvider.capabilities.structuredOutput &&
+        emotionNames.length > 0;
+      const replySchema = structuredOutput ? buildReplySchema(emotionNames) : undefined;
+
+      const tools = llmProvider.capabilities.tools
+        ? this.toolRegistry
+            .getEnabledTools(cfg, requestedTools)
+            .filter((tool) => !structuredOutput || tool.name !== QUICK_REPLY_TOOL.name)
+        : [];
+      const toolsEnabled = tools.length > 0;
+      const quickRepliesEnabled = structuredOutput
+        ? cfg.get<boolean>('quickReplies.enabled', false)
+        : tools.some((tool) => tool.name === QUICK_REPLY_TOOL.name);
+      const maxToolIterations = Math.max(1, cfg.get<number>('tools.maxIterations', 5));
+
+      // The primary model is followed by the `llm.fallbacks` chain; once a model answers, the turn sticks with it
+      const llmChain = this.llmProviders.resolveChain(cfg);
+      const llmRunners = new Map<number, LlmRunner>();
+      let answeringIndex = 0;
+      const getRunner = (index: number): LlmRunner => {
+        let runner = llmRunners.get(index);
+        if (!runner) {
+          runner = this.createTurnRunner(cfg, llmChain[index], tools, usageSource);
+          llmRunners.set(index, runner);
+        }
+        return runner;
+      };
 
-      const llm = new ChatOpenAI(llmFields);
-      const llmRunner = quickRepliesEnabled ? llm.bindTools([QUICK_REPLY_TOOL]) : llm;
+      // Stream partial replies into the speech bubble when a panel is listening
+      // Structured replies are JSON until parsed, so they are never streamed into the bubble
+      const streamingEnabled =
+        !structuredOutput && cfg.get<boolean>('llm.streaming', true) && llmProvider.capabilities.streaming;
+      const utteranceId = this.createId('utterance');
+      const ttsOptions = this.getTtsOptions(cfg, baseUrl, apiKey);
+      const chunkedTts = cfg.get<boolean>('tts.chunked', true);
+      const ttsMaxConcurrency = Math.max(1, cfg.get<number>('tts.maxConcurrentRequests', 2));
+
+      // Without tool iterations the streamed text is the final reply, so speech can start early
+      const speakWhileStreaming =
+        Boolean(panel) &&
+        streamingEnabled &&
+        !toolsEnabled &&
+        chunkedTts &&
+        ttsOptions.config.enabled &&
+        this.hasAudioCapability;
+      ttsPipeline = speakWhileStreaming
+        ? this.createTtsPipeline(panel, utteranceId, usageSource, ttsOptions, ttsMaxConcurrency, voiceInstructions, signal)
+        : undefined;
+
+      let streamId: string | undefined;
+      const invokeOnce = async (
+        candidate: ResolvedLlmProvider,
+        runner: LlmRunner,
+        messages: BaseLanguageModelInput,
+        onStreamed: () => void
+      ) => {
+        if (!streamingEnabled || !panel) {
+          const candidateKey = `${candidate.provider.id}|${candidate.settings.baseUrl}|${candidate.settings.model}`;
+          const structuredOptions =
+            replySchema && !this.structuredOutputRejected.has(candidateKey)
+              ? candidate.provider.getStructuredOutputOptions?.(STRUCTURED_REPLY_NAME, replySchema)
+              : undefined;
+          if (!structuredOptions) {
+            return runner.invoke(messages, { signal });
+          }
+          try {
+            return await runner.invoke(messages, { signal, ...structuredOptions });
+          } catch (error) {
+            if (!isStructuredOutputRejected(error)) {
+              throw error;
+            }
+            // The server doesn't support JSON schemas; the prompt still asks for JSON, so parsing usually works
+            this.structuredOutputRejected.add(candidateKey);
+            this.logger?.appendLine(
+              `[LLM] ${candidate.provider.id}/${candidate.settings.model} rejected structured output; continuing without a schema`
+            );
+            return runner.invoke(messages, { signal });
+          }
+        }
+        const currentStreamId = this.createId('stream');
+        streamId = currentStreamId;
+        // Like the final reply, the bubble shows the original values while TTS keeps the placeholders
+        const restorer = new StreamingRestorer(this.redactor);
+        const postDelta = (text: string) => {
+          if (text) {
+            panel.webview.postMessage({ type: 'speechDelta', streamId: currentStreamId, utteranceId, text });
+          }
+        };
+        const reply = await this.streamLlmResponse(runner, messages, signal, (delta) => {
+          onStreamed();
+          postDelta(restorer.push(delta));
+          ttsPipeline?.push(delta);
+        });
+        postDelta(restorer.flush());
+        return reply;
+      };
+      const invokeLlm = async (messages: BaseLanguageModelInput): Promise<AIMessageChunk> => {
+        const maxRetries = Math.max(0, cfg.get<number>('llm.retry.maxRetries', 2));
+        const baseDelayMs = Math.max(100, cfg.get<number>('llm.retry.baseDelayMs', 1000));
+        const maxDelayMs = Math.max(baseDelayMs, cfg.get<number>('llm.retry.maxDelayMs', 30000));
+        let lastError: unknown;
+        for (let index = answeringIndex; index < llmChain.length; index++) {
+          const label = `${llmChain[index].provider.id}/${llmChain[index].settings.model}`;
+          for (let attempt = 0; ; attempt++) {
+            let streamed = false;
+            try {
+              const reply = await invokeOnce(llmChain[index], getRunner(index), messages, () => {
+                streamed = true;
+              });
+              answeringIndex = index;
+              return reply;
+            } catch (error) {
+              signal.throwIfAborted();
+              const llmError = this.llmProviders.toLlmError(llmChain[index], error);
+              // Text already shown in the bubble can't be taken back, and non-transient errors won't go away
+              if (streamed || !llmError.retryable) {
+                throw llmError;
+              }
+              lastError = llmError;
+              const delay = computeBackoffMs(attempt, baseDelayMs, getRetryAfterMs(error));
+              if (attempt >= maxRetries || delay > maxDelayMs) {
+                this.logger?.appendLine(`[LLM] ${label} unavailable after ${attempt + 1} attempt(s): ${llmError.message}`);
+                break;
+              }
+              this.logger?.appendLine(`[LLM] ${label} failed (${llmError.kind}: ${llmError.message}); retrying in ${Math.round(delay)}ms`);
+              await sleep(delay, signal);
+            }
+          }
+          if (index + 1 < llmChain.length) {
+            const next = llmChain[index + 1];
+            this.logger?.appendLine(`[LLM] Falling back to ${next.provider.id}/${next.settings.model}`);
+          }
+        }
+        throw lastError;
+      };
+      const describeAnsweringModel = () => ({
+        provider: llmChain[answeringIndex].provider.id,
+        model: llmChain[answeringIndex].settings.model,
+        fallback: answeringIndex > 0,
+      });
+
+      // Secrets and personal data never leave the machine; replies can still refer to their placeholders
+      const redactionSettings = readRedactionSettings(cfg);
+      const outgoingPrompt = this.redactOutgoing(userPrompt, redactionSettings);
 
       // Create human message with optional image content
       let humanMessage: HumanMessage;
@@ -269,7 +577,7 @@ export class AgentLoop {
         // Multi-modal message with text and image
         humanMessage = new HumanMessage({
           content: [
-            { type: 'text', text: userPrompt },
+            { type: 'text', text: outgoingPrompt },
             {
               type: 'image_url',
               image_url: {
@@ -280,15 +588,37 @@ export class AgentLoop {
         });
       } else {
         // Text-only message
-        humanMessage = new HumanMessage(userPrompt);
+        humanMessage = new HumanMessage(outgoingPrompt);
+      }
+
+      // Ensure system prompt is present at the start of the thread
+      const thread = this.threads.get(threadKey);
+      if (thread.length === 0 || !(thread[0] instanceof SystemMessage)) {
+        thread.unshift(new SystemMessage(systemPrompt));
       }
 
-      const historyToSend: Array<SystemMessage | HumanMessage | AIMessage | ToolMessage> = [...this.chatHistory, humanMessage];
+      const historyToSend: ThreadMessage[] = [...thread, humanMessage];
+
+      // Append relevant long-term memories and the summary of pruned turns to the character prompt
+      // for this request only (a single system message keeps every provider happy)
+      const memoryBlock = await this.buildMemoryBlock(cfg, userPrompt, editor);
+      const threadSummary = this.threads.getSummary(threadKey);
+      const systemParts = [
+        this.extractText(thread[0].content),
+        memoryBlock,
+        threadSummary ? `Summary of the earlier conversation:\n${threadSummary}` : null,
+        structuredOutput ? buildReplyInstructions(emotionNames, quickRepliesEnabled) : null,
+      ].filter((part): part is string => Boolean(part));
+      if (systemParts.length > 1) {
+        historyToSend[0] = new SystemMessage(systemParts.join('\n\n'));
+      }
       const newMessages: Array<HumanMessage | AIMessage | ToolMessage> = [humanMessage];
 
-      let aiMsg = await llmRunner.invoke(historyToSend);
+      let aiMsg = await invokeLlm(historyToSend);
 
-      if (quickRepliesEnabled) {
+      if (toolsEnabled) {
+        const toolContext = this.createPluginContext(editor, panel, llmProvider.capabilities);
+        let iterations = 0;
         while (true) {
           historyToSend.push(aiMsg);
           newMessages.push(aiMsg);
@@ -298,76 +628,150 @@ export class AgentLoop {
             break;
           }
 
+          iterations++;
+          const limitReached = iterations >= maxToolIterations;
           for (const call of toolCalls) {
-            const toolMessage = await this.executeToolCall(call);
+            const toolMessage = limitReached
+              ? this.createToolLimitMessage(call)
+              : await this.executeToolCall(call, toolContext, redactionSettings);
             historyToSend.push(toolMessage);
             newMessages.push(toolMessage);
           }
 
-          aiMsg = await llmRunner.invoke(historyToSend);
+          aiMsg = await invokeLlm(historyToSend);
+          if (limitReached) {
+            this.logger?.appendLine(`[Tools] Stopped after ${maxToolIterations} tool iterations`);
+            historyToSend.push(aiMsg);
+            newMessages.push(aiMsg);
+            break;
+          }
         }
       } else {
         historyToSend.push(aiMsg);
         newMessages.push(aiMsg);
       }
 
-      let text = typeof aiMsg.content === 'string'
-        ? aiMsg.content
-        : Array.isArray(aiMsg.content)
-          ? aiMsg.content.map((c: any) => (typeof c?.text === 'string' ? c.text : '')).join('')
-          : String(aiMsg.content ?? '');
-      text = this.stripCodeBlockTags(text);
-      text = this.stripThinkTags(text);
-      text = this.stripTrailingLlmArtifacts(text);
+      signal.throwIfAborted();
+      const rawText = this.extractText(aiMsg.content);
+      const structuredReply = structuredOutput ? parseStructuredReply(rawText, emotionNames) : null;
+      if (structuredOutput && !structuredReply) {
+        this.logger?.appendLine('[LLM] Reply was not valid structured output; using it as plain text');
+      }
+      const text = cleanLlmText(structuredReply?.text ?? rawText);
+      if (structuredReply && quickRepliesEnabled) {
+        this.pendingQuickReplies = this.normalizeQuickReplies(structuredReply.quickReplies);
+      }
+      // Without a valid emotion the fast model picks one, as in unstructured mode
+      const replyEmotion = structuredReply?.emotion ?? undefined;
 
       const finalAiMessageForHistory = new AIMessage(text);
       if (historyToSend.length > 0) {
         historyToSend[historyToSend.length - 1] = finalAiMessageForHistory;
       }
-      for (let i = newMessages.length - 1; i >= 0; i--) {
-        if (newMessages[i] instanceof AIMessage) {
-          newMessages[i] = finalAiMessageForHistory;
-          break;
-        }
+      // The final reply is always the last message (streamed replies are AIMessageChunks, not AIMessages)
+      if (newMessages.length > 0) {
+        newMessages[newMessages.length - 1] = finalAiMessageForHistory;
       }
 
-      // Notify the plugin of the AI response if it has an onResponse method
-      if (triggeringPlugin && typeof triggeringPlugin.onResponse === 'function') {
-        triggeringPlugin.onResponse(text);
-      }
+      // Only record the turn once it has fully played out, so cancelled turns never reach the history
+      const commitTurn = () => {
+        signal.throwIfAborted();
 
-      // Update chat history and prune if needed
-      this.chatHistory.push(...newMessages);
-      if (this.chatHistory.length > maxHistory) {
-        const system = this.chatHistory[0] instanceof SystemMessage ? [this.chatHistory[0]] : [];
-        const tail = this.chatHistory.slice(-1 * (maxHistory - system.length));
-        this.chatHistory = [...system, ...tail];
-      }
+        // Notify the plugin of the AI response if it has an onResponse method
+        if (triggeringPlugin && typeof triggeringPlugin.onResponse === 'function') {
+          triggeringPlugin.onResponse(text);
+        }
+
+        // Update the thread's history; turns over the token budget are folded into its summary
+        const history = replaceAgedImages([...thread, ...newMessages]);
+        this.threads.set(threadKey, history);
+        this.lastThreadKey = threadKey;
+        this.maybeSummarizeMemory(cfg, history);
+        void this.compactThread(cfg, threadKey, historyTokenBudget);
+      };
 
       if (panel) {
-        const { config: ttsConfig, playbackRate, pitchRatio } = this.getTtsOptions(cfg, baseUrl, apiKey);
+        const { config: ttsConfig, playbackRate, pitchRatio } = ttsOptions;
+        // Only the bubble shows the original values behind placeholders; history and TTS keep them redacted
+        const replyText = this.redactor.restore(text);
+        const displayText = appendText ? `${replyText}\n\n${appendText}` : replyText;
+        const quickReplies = quickRepliesEnabled ? this.consumePendingQuickReplies() : [];
+        const edits = this.editProposals.takePending();
         let audioPayload: { mimeType: string; data: string; playbackRate: number; pitchRatio: number } | undefined;
         let ttsErrorMessage: string | undefined;
+        let canSynthesize = false;
 
         if (!ttsConfig.enabled) {
           this.logInfo('TTS disabled via settings; skipping synthesis.');
         } else if (!this.hasAudioCapability) {
           this.logInfo('Skipping speech synthesis because audio is locked in the webview.');
         } else {
+          canSynthesize = true;
           this.logInfo(
             `Synthesizing speech with model "${ttsConfig.model}" (voice "${ttsConfig.voice}") via ${ttsConfig.baseUrl}`
           );
-          const playbackRateLabel = Number.isFinite(playbackRate)
-            ? playbackRate.toFixed(2)
-            : String(playbackRate);
           if (voiceInstructions) {
             this.logInfo('Applying character voice instructions to TTS request.');
           }
+        }
+
+        const onReplyShown = () => {
+          if (anchor) {
+            this.inlineComments?.show(anchor, replyText);
+          }
+          onReply?.(replyText);
+        };
+
+        const replySourcePlugin = triggeringPlugin ?? (queuedSource ? this.pluginManager.getPlugin(queuedSource) : undefined);
+        const replySource = replySourcePlugin ? { id: replySourcePlugin.id, name: replySourcePlugin.name } : undefined;
+
+        if (canSynthesize && chunkedTts) {
+          // Show the reply right away and let sentence audio follow as it is synthesized
+          panel.webview.postMessage({
+            type: 'speech',
+            text: displayText,
+            utteranceId,
+            ...(streamId ? { streamId } : {}),
+            ...(quickReplies.length > 0 ? { quickReplies } : {}),
+            ...(edits.length > 0 ? { edits } : {}),
+            llm: describeAnsweringModel(),
+          });
+          panel.webview.postMessage({ type: 'connectionSuccess' });
+          this.recordReply(displayText, text, replySource);
+          onReplyShown();
+
+          const pipeline =
+            ttsPipeline ??
+            this.createTtsPipeline(panel, utteranceId, usageSource, ttsOptions, ttsMaxConcurrency, voiceInstructions, signal);
+          if (!ttsPipeline) {
+            pipeline.push(text);
+          }
+
+          const [ttsResult] = await Promise.all([
+            pipeline.end(),
+            // Trigger expression animation if fastModel is configured
+            this.triggerExpression(text, panel, cfg, signal, replyEmotion),
+          ]);
+          signal.throwIfAborted();
+          ttsErrorMessage = this.describeTtsPipelineResult(ttsResult);
+          panel.webview.postMessage(
+            ttsErrorMessage ? { type: 'ttsError', message: ttsErrorMessage } : { type: 'ttsError', clear: true }
+          );
+          commitTurn();
+          return;
+        }
+
+        if (canSynthesize) {
+          const playbackRateLabel = Number.isFinite(playbackRate)
+            ? playbackRate.toFixed(2)
+            : String(playbackRate);
           try {
             const ttsResult = await this.ttsService.synthesize(text, ttsConfig, {
               voiceInstructions,
+              signal,
             });
             if (ttsResult) {
+              this.usageLedger?.recordTts(usageSource, ttsConfig.model, text.trim().length);
               audioPayload = {
                 mimeType: ttsResult.mimeType,
                 data: ttsResult.base64Audio,
@@ -382,61 +786,66 @@ export class AgentLoop {
               this.logInfo('TTS returned no audio payload (possibly empty text).');
             }
           } catch (ttsError: unknown) {
+            signal.throwIfAborted();
             this.logError('Failed to synthesize speech', ttsError);
             ttsErrorMessage = this.formatError(ttsError) || 'Unknown TTS error';
           }
         }
 
-        if (panel) {
-          if (ttsErrorMessage) {
-            panel.webview.postMessage({ type: 'ttsError', message: ttsErrorMessage });
-          } else {
-            panel.webview.postMessage({ type: 'ttsError', clear: true });
-          }
+        if (ttsErrorMessage) {
+          panel.webview.postMessage({ type: 'ttsError', message: ttsErrorMessage });
+        } else {
+          panel.webview.postMessage({ type: 'ttsError', clear: true });
         }
 
-        const displayText = appendText ? `${text}\n\n${appendText}` : text;
-        const quickReplies = quickRepliesEnabled ? this.consumePendingQuickReplies() : [];
         panel.webview.postMessage({
           type: 'speech',
           text: displayText,
           audio: audioPayload,
+          utteranceId,
+          ...(streamId ? { streamId } : {}),
           ...(quickReplies.length > 0 ? { quickReplies } : {}),
+          ...(edits.length > 0 ? { edits } : {}),
+          llm: describeAnsweringModel(),
         });
         
         // Send connection success message to hide setup guide if it's showing
         panel.webview.postMessage({ type: 'connectionSuccess' });
+        this.recordReply(displayText, text, replySource, audioPayload);
+        onReplyShown();
         
         // Trigger expression animation if fastModel is configured
-        await this.triggerExpression(text, panel, cfg);
+        await this.triggerExpression(text, panel, cfg, signal, replyEmotion);
+        commitTurn();
       } else {
         this.consumePendingQuickReplies();
+        this.editProposals.discardPending();
+        commitTurn();
       }
     } catch (err: any) {
       const msg = err?.message || String(err);
       const panel = (this as any).panel as vscode.WebviewPanel;
       this.consumePendingQuickReplies();
-      
-      // Check if this is a connection error or model not found error
-      const isConnectionError = 
-        msg.toLowerCase().includes('econnrefused') ||
-        msg.toLowerCase().includes('fetch failed') ||
-        msg.toLowerCase().includes('network') ||
-        msg.toLowerCase().includes('connection') ||
-        msg.toLowerCase().includes('getaddrinfo') ||
-        msg.toLowerCase().includes('etimedout');
-      
-      const isModelError = 
-        msg.toLowerCase().includes('model') && 
-        (msg.toLowerCase().includes('not found') || 
-         msg.toLowerCase().includes('does not exist') ||
-         msg.toLowerCase().includes('not available'));
-      
-      if (panel && (isConnectionError || isModelError)) {
-        // Send structured error to show setup guide
-        panel.webview.postMessage({ 
-          type: 'setupError', 
-          message: msg 
+      this.editProposals.discardPending();
+      ttsPipeline?.cancel();
+
+      if (signal.aborted) {
+        this.logger?.appendLine(`[LLM] Turn cancelled (${String(signal.reason)})`);
+        return;
+      }
+
+      if (err instanceof LlmError) {
+        this.logger?.appendLine(`[LLM][error] ${err.kind} from ${err.providerId}/${err.model}: ${msg}`);
+      }
+      this.setStatus(this.describeFailure(err, msg));
+      if (panel && err instanceof LlmError && err.kind !== 'unknown') {
+        // Show the setup guide with recovery actions for this kind of failure
+        this.lastFailedTurn = retryTarget;
+        const modelKey = err.model === llmProvider.settings.model ? 'llm.model' : 'llm.fallbacks';
+        panel.webview.postMessage({
+          type: 'setupError',
+          message: msg,
+          error: describeLlmError(err, modelKey),
         });
       } else if (panel) {
         // For other errors, just show in speech bubble
@@ -444,14 +853,160 @@ export class AgentLoop {
       }
     } finally {
       this.llmInFlight = false;
-      this.lastLlmEndedAt = Date.now();
+      if (this.currentTurn === turn) {
+        this.currentTurn = null;
+      }
       const panel = (this as any).panel as vscode.WebviewPanel;
       if (panel) {
         panel.webview.postMessage({ type: 'thinking', on: false });
       }
+      if (signal.aborted) {
+        // A cancelled turn doesn't count towards the cooldown; answer whatever replaced it right away
+        if (this.status.state === 'thinking') {
+          this.setStatus({ state: 'idle' });
+        }
+        if (!this.messageQueue.isEmpty()) {
+          this.trigger();
+        }
+      } else {
+        this.lastLlmEndedAt = Date.now();
+        if (this.status.state === 'thinking') {
+          this.setStatus({ state: 'cooldown', until: this.lastLlmEndedAt + minIntervalSec * 1000 });
+        }
+      }
     }
   }
 
+  /**
+   * Fold the oldest turns of a thread into its rolling summary until it fits the token budget
+   * Runs in the background; if summarization fails the turns are dropped without a summary
+   */
+  private async compactThread(cfg: vscode.WorkspaceConfiguration, threadKey: string, maxTokens: number): Promise<void> {
+    const messages = this.threads.peek(threadKey);
+    if (!messages || this.compactingThreads.has(threadKey)) {
+      return;
+    }
+    const evicted = selectEvictedMessages(messages, maxTokens);
+    if (evicted.length === 0) {
+      return;
+    }
+
+    this.compactingThreads.add(threadKey);
+    try {
+      let summary = this.threads.getSummary(threadKey);
+      try {
+        const fastModel = cfg.get<string>('llm.fastModel', '');
+        const { model } = this.llmProviders.createChatModel(cfg, {
+          model: fastModel || undefined,
+          temperature: 0.2,
+          callbacks: this.createUsageCallbacks(cfg, 'history'),
+        });
+        summary = await summarizeEvictedMessages(model, summary, evicted);
+      } catch (error) {
+        this.logger?.appendLine(`[History][error] Failed to summarize pruned messages: ${String(error)}`);
+      }
+
+      // The thread may have grown while summarizing, so remove exactly the evicted messages
+      const current = this.threads.peek(threadKey);
+      if (!current) {
+        return;
+      }
+      const evictedSet = new Set<ThreadMessage>(evicted);
+      this.threads.set(threadKey, current.filter((message) => !evictedSet.has(message)));
+      if (summary) {
+        this.threads.setSummary(threadKey, summary);
+      }
+      this.logger?.appendLine(
+        `[History] Folded ${evicted.length} messages (~${estimateTokens(evicted)} tokens) into the thread summary`
+      );
+    } finally {
+      this.compactingThreads.delete(threadKey);
+    }
+  }
+
+  private async buildMemoryBlock(
+    cfg: vscode.WorkspaceConfiguration,
+    userPrompt: string,
+    editor: vscode.TextEditor | undefined
+  ): Promise<string | null> {
+    if (!this.memoryStore || !cfg.get<boolean>('memory.enabled', true)) {
+      return null;
+    }
+    const maxInjected = Math.max(0, cfg.get<number>('memory.maxInjected', 8));
+    const memories = await this.memoryStore.listForWorkspace(currentWorkspaceKey());
+    const query = editor ? `${userPrompt}\n${editor.document.fileName} ${editor.document.languageId}` : userPrompt;
+    const relevant = selectRelevantMemories(memories, query, maxInjected);
+    return relevant.length > 0 ? formatMemoryBlock(relevant) : null;
+  }
+
+  /**
+   * Every few committed turns, distill the thread into long-term memories with the fast model
+   * Runs in the background and never blocks or fails the turn
+   */
+  private maybeSummarizeMemory(cfg: vscode.WorkspaceConfiguration, history: ThreadMessage[]): void {
+    if (!this.memoryStore || !cfg.get<boolean>('memory.enabled', true)) {
+      return;
+    }
+    this.turnsSinceMemorySummary++;
+    const every = Math.max(1, cfg.get<number>('memory.summarizeEveryTurns', 5));
+    if (this.turnsSinceMemorySummary < every || this.memorySummaryInFlight) {
+      return;
+    }
+    this.turnsSinceMemorySummary = 0;
+
+    const transcript = history
+      .filter((msg) => msg instanceof HumanMessage || msg instanceof AIMessage)
+      .map((msg) => `${msg instanceof HumanMessage ? 'User' : 'Assistant'}: ${this.extractText(msg.content)}`)
+      .join('\n\n');
+    const fastModel = cfg.get<string>('llm.fastModel', '');
+    const maxItems = Math.max(1, cfg.get<number>('memory.maxItems', 100));
+    const { model } = this.llmProviders.createChatModel(cfg, {
+      model: fastModel || undefined,
+      temperature: 0.2,
+      callbacks: this.createUsageCallbacks(cfg, 'memory'),
+    });
+    const summarizer = new MemorySummarizer(this.memoryStore, this.logger);
+
+    this.memorySummaryInFlight = true;
+    summarizer
+      .summarize(model, transcript, currentWorkspaceKey(), maxItems)
+      .catch((error) => this.logger?.appendLine(`[Memory][error] Summarization failed: ${String(error)}`))
+      .finally(() => {
+        this.memorySummaryInFlight = false;
+      });
+  }
+
+  /**
+   * Abort the in-flight LLM/TTS/expression requests if the cancellation policy allows it
+   * For file switches, pass the newly active file so switching back to the same file is ignored
+   * Returns true if a turn was cancelled
+   */
+  cancelCurrentTurn(reason: TurnCancelReason, filePath?: string): boolean {
+    const turn = this.currentTurn;
+    if (!turn || turn.controller.signal.aborted) {
+      return false;
+    }
+
+    const cfg = vscode.workspace.getConfiguration('ani-vscode');
+    const policy = cfg.get<TurnCancelReason[]>('llm.cancelOn', DEFAULT_CANCEL_POLICY) ?? DEFAULT_CANCEL_POLICY;
+    if (!policy.includes(reason)) {
+      return false;
+    }
+    if (reason === 'fileSwitch' && filePath && filePath === turn.filePath) {
+      return false;
+    }
+
+    this.logger?.appendLine(`[LLM] Cancelling in-flight turn (${reason})`);
+    turn.controller.abort(reason);
+
+    // Drop the stale bubble and audio; the webview already did this when it asked for the cancel
+    const panel = (this as any).panel as vscode.WebviewPanel;
+    if (panel && reason !== 'dismissSpeech') {
+      panel.webview.postMessage({ type: 'dismissSpeech' });
+    }
+    return true;
+  }
+
   /**
    * Set the webview panel for the agent loop
    */
@@ -463,19 +1018,120 @@ export class AgentLoop {
    * Add a user message to the queue
    */
   enqueueUserMessage(message: string, options?: EnqueueMessageOptions): void {
+    const queued: QueuedMessage = {
+      text: message,
+      source: options?.source,
+      onReply: options?.onReply,
+      threadKey: options?.uri?.toString(),
+      tools: options?.tools,
+    };
     if (options?.priority) {
-      this.messageQueue.enqueueFront(message);
+      this.messageQueue.enqueueFront(queued);
     } else {
-      this.messageQueue.enqueue(message);
+      this.messageQueue.enqueue(queued);
     }
+    // Only what the user typed is shown in the transcript; plugin prompts appear as the reply's source
+    if (!options?.source) {
+      this.transcript.addUserMessage(options?.displayText ?? message);
+      this.postTranscript();
+    }
+  }
+
+  /**
+   * Whether a file is excluded by the privacy settings and must not reach the LLM
+   */
+  isExcluded(target: vscode.Uri | string): boolean {
+    return this.privacyFilter.isExcluded(target);
   }
 
   /**
-   * Reset chat history (e.g., when changing files)
+   * Send the whole transcript to the webview (e.g. after it reloads)
+   */
+  postTranscript(): void {
+    const panel = (this as any).panel as vscode.WebviewPanel;
+    if (panel) {
+      panel.webview.postMessage({ type: 'historyUpdated', entries: this.transcript.getEntries() });
+    }
+  }
+
+  /**
+   * Play a transcript reply again, synthesizing its speech only when it is no longer cached
+   */
+  async replayTranscriptAudio(entryId: string): Promise<void> {
+    const panel = (this as any).panel as vscode.WebviewPanel;
+    if (!panel || !this.hasAudioCapability) {
+      return;
+    }
+
+    let audio = this.transcript.getAudio(entryId);
+    if (!audio) {
+      const text = this.transcript.getSpokenText(entryId);
+      if (!text) {
+        return;
+      }
+      const cfg = vscode.workspace.getConfiguration('ani-vscode');
+      const { baseUrl, apiKey } = this.llmProviders.resolve(cfg).settings;
+      const { config, playbackRate, pitchRatio } = this.getTtsOptions(cfg, baseUrl, apiKey);
+      if (!config.enabled) {
+        panel.webview.postMessage({ type: 'ttsError', message: 'Speech is turned off (ani-vscode.tts.enabled).' });
+        return;
+      }
+      const voiceInstructions = loadCharacterCard(this.currentCharacter, this.extensionPath)?.voiceInstructions?.trim();
+      try {
+        const ttsResult = await this.ttsService.synthesize(text, config, { voiceInstructions });
+        if (!ttsResult) {
+          return;
+        }
+        this.usageLedger?.recordTts('replay', config.model, text.trim().length);
+        audio = { mimeType: ttsResult.mimeType, data: ttsResult.base64Audio, playbackRate, pitchRatio };
+        this.transcript.setAudio(entryId, audio);
+      } catch (ttsError: unknown) {
+        this.logError('Failed to synthesize replayed speech', ttsError);
+        panel.webview.postMessage({ type: 'ttsError', message: this.formatError(ttsError) || 'Unknown TTS error' });
+        return;
+      }
+    }
+    panel.webview.postMessage({ type: 'replayAudio', entryId, audio });
+  }
+
+  /**
+   * Apply a code edit the user accepted in the webview and report the outcome back to it
+   */
+  async applyEditProposal(id: string): Promise<void> {
+    const result = await this.editProposals.apply(id);
+    const panel = (this as any).panel as vscode.WebviewPanel;
+    if (panel) {
+      panel.webview.postMessage({ type: 'editResult', id, ...result });
+    }
+  }
+
+  /**
+   * Drop a code edit the user rejected
+   */
+  rejectEditProposal(id: string): void {
+    this.editProposals.reject(id);
+  }
+
+  private recordReply(
+    displayText: string,
+    spokenText: string,
+    source: TranscriptEntry['source'],
+    audio?: TranscriptAudio
+  ): void {
+    const entry = this.transcript.addReply(displayText, spokenText, source);
+    if (audio) {
+      this.transcript.setAudio(entry.id, audio);
+    }
+    this.postTranscript();
+  }
+
+  /**
+   * Reset every conversation thread (e.g., when changing character)
    */
   resetChatHistory(): void {
-    this.chatHistory = [];
-    this.lastFilePath = null;
+    this.threads.clear();
+    this.redactor.clear();
+    this.lastThreadKey = null;
   }
 
   private logInfo(message: string): void {
@@ -546,30 +1202,169 @@ export class AgentLoop {
     };
   }
 
-  private async executeToolCall(call: ToolCall): Promise<ToolMessage> {
-    const toolCallId = call.id ?? `tool-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  /**
+   * Estimated token budget per conversation thread (`llm.historyTokenBudget`, or derived from the context window)
+   */
+  private getHistoryTokenBudget(cfg: vscode.WorkspaceConfiguration, contextWindow: number): number {
+    const configuredTokenBudget = cfg.get<number>('llm.historyTokenBudget', 0);
+    return configuredTokenBudget > 0
+      ? configuredTokenBudget
+      : Math.min(Math.floor(contextWindow / 2), DEFAULT_HISTORY_TOKEN_CAP);
+  }
+
+  /**
+   * Create the runner for one model of the fallback chain, with the turn's tools bound when supported
+   * Retries are handled by the agent loop so a busy model can fall back quickly
+   */
+  private createTurnRunner(
+    cfg: vscode.WorkspaceConfiguration,
+    resolved: ResolvedLlmProvider,
+    tools: ITool[],
+    usageSource: string
+  ): LlmRunner {
+    const timeoutSeconds = cfg.get<number>('llm.timeoutSeconds', 120);
+    const llm = this.llmProviders.createChatModelFor(resolved, {
+      maxRetries: 0,
+      timeout: timeoutSeconds > 0 ? timeoutSeconds * 1000 : undefined,
+      callbacks: this.usageLedger?.createCallbacks(usageSource, resolved.settings.model, 'main'),
+    });
+    if (tools.length > 0 && resolved.capabilities.tools && llm.bindTools) {
+      return llm.bindTools(this.toolRegistry.toFunctionDefinitions(tools));
+    }
+    return llm;
+  }
+
+  /**
+   * Usage callbacks for background calls, which use the fast model when configured
+   */
+  private createUsageCallbacks(cfg: vscode.WorkspaceConfiguration, source: string) {
+    const fastModel = cfg.get<string>('llm.fastModel', '');
+    const model = fastModel || cfg.get<string>('llm.model', '');
+    return this.usageLedger?.createCallbacks(source, model, fastModel ? 'fast' : 'main');
+  }
+
+  /**
+   * Create a sentence-chunked TTS pipeline that posts ordered audio chunks to the webview
+   */
+  private createTtsPipeline(
+    panel: vscode.WebviewPanel,
+    utteranceId: string,
+    usageSource: string,
+    ttsOptions: { config: TtsConfig; playbackRate: number; pitchRatio: number },
+    maxConcurrency: number,
+    voiceInstructions?: string,
+    signal?: AbortSignal
+  ): TtsPipeline {
+    const { config, playbackRate, pitchRatio } = ttsOptions;
+    return new TtsPipeline(this.ttsService, {
+      config,
+      synthesisOptions: { voiceInstructions, signal },
+      maxConcurrency,
+      onChunk: (chunk) => {
+        this.usageLedger?.recordTts(usageSource, config.model, chunk.text.length);
+        const approxBytes = Math.round((chunk.base64Audio.length * 3) / 4);
+        this.logInfo(`Received TTS chunk #${chunk.index + 1} (~${approxBytes} bytes, ${chunk.text.length} chars)`);
+        panel.webview.postMessage({
+          type: 'speechAudioChunk',
+          utteranceId,
+          index: chunk.index,
+          audio: {
+            mimeType: chunk.mimeType,
+            data: chunk.base64Audio,
+            playbackRate,
+            pitchRatio,
+          },
+        });
+      },
+      onChunkError: (error, index) => {
+        this.logError(`Failed to synthesize speech chunk #${index + 1}`, error);
+      },
+    });
+  }
+
+  private describeTtsPipelineResult(result: TtsPipelineResult): string | undefined {
+    if (result.errors.length === 0) {
+      return undefined;
+    }
+    const firstError = this.formatError(result.errors[0]) || 'Unknown TTS error';
+    if (result.errors.length >= result.chunkCount) {
+      return firstError;
+    }
+    return `${result.errors.length} of ${result.chunkCount} speech chunks failed: ${firstError}`;
+  }
+
+  private createId(prefix: string): string {
+    return `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  }
+
+  private async executeToolCall(
+    call: ToolCall,
+    context: PluginContext,
+    redactionSettings: RedactionSettings
+  ): Promise<ToolMessage> {
+    const toolCallId = call.id ?? this.createId('tool');
+    const tool = this.toolRegistry.getTool(call.name);
+    const args = this.parseToolArgs(call.args as unknown);
+    const startedAt = Date.now();
     let content: string;
     let status: 'success' | 'error' = 'success';
 
-    switch (call.name) {
-      case 'show_quick_replies':
-        content = this.handleQuickRepliesTool(call);
-        break;
-      default:
-        content = `Tool "${call.name}" is not implemented.`;
+    if (!tool) {
+      content = `Tool "${call.name}" is not implemented.`;
+      status = 'error';
+    } else {
+      try {
+        // The model only saw redacted text, so put the real values back before the tool acts on them
+        content = await tool.execute(this.restoreToolArgs(args) as Record<string, unknown>, context);
+      } catch (error) {
+        content = `Tool "${call.name}" failed: ${error instanceof Error ? error.message : String(error)}`;
         status = 'error';
-        break;
+      }
     }
 
+    const owner = this.toolRegistry.getOwner(call.name);
+    this.logger?.appendLine(
+      `[Tools] ${call.name}${owner ? ` (${owner.id})` : ''} ${JSON.stringify(args)} -> ${status} in ${Date.now() - startedAt}ms`
+    );
+
     return new ToolMessage({
       tool_call_id: toolCallId,
-      content,
+      // Tool output (e.g. read_file) is sent to the model just like the prompt
+      content: this.redactOutgoing(content, redactionSettings),
       status,
     });
   }
 
-  private handleQuickRepliesTool(call: ToolCall): string {
-    const args = this.parseToolArgs(call.args as unknown);
+  private restoreToolArgs(value: unknown): unknown {
+    if (typeof value === 'string') {
+      return this.redactor.restore(value);
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.restoreToolArgs(item));
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, this.restoreToolArgs(item)]));
+    }
+    return value;
+  }
+
+  private redactOutgoing(text: string, settings: RedactionSettings): string {
+    const { text: redacted, count } = this.redactor.redact(text, settings);
+    if (count > 0) {
+      this.logger?.appendLine(`[Privacy] Redacted ${count} value${count === 1 ? '' : 's'} from an outgoing message`);
+    }
+    return redacted;
+  }
+
+  private createToolLimitMessage(call: ToolCall): ToolMessage {
+    return new ToolMessage({
+      tool_call_id: call.id ?? this.createId('tool'),
+      content: 'Tool call limit reached. Reply to the user now without calling more tools.',
+      status: 'error',
+    });
+  }
+
+  private handleQuickRepliesTool(args: Record<string, unknown>): string {
     const replies = this.normalizeQuickReplies((args as { replies?: unknown }).replies);
 
     if (replies.length === 0) {
@@ -650,8 +1445,19 @@ export class AgentLoop {
   /**
    * Create plugin context for the current state
    */
-  public createPluginContext(editor: vscode.TextEditor | undefined, panel: vscode.WebviewPanel): PluginContext {
-    const lastEditedFiles: string[] = (this as any).lastEditedFiles || [];
+  public createPluginContext(
+    editor: vscode.TextEditor | undefined,
+    panel: vscode.WebviewPanel,
+    llmCapabilities?: LlmCapabilities
+  ): PluginContext {
+    const capabilities =
+      llmCapabilities ?? this.llmProviders.resolve(vscode.workspace.getConfiguration('ani-vscode')).capabilities;
+    // Excluded files are hidden from every plugin and tool
+    const isExcluded = (target: vscode.Uri | string) => this.privacyFilter.isExcluded(target);
+    const visibleEditor = editor && !isExcluded(editor.document.uri) ? editor : undefined;
+    const lastEditedFiles: string[] = ((this as any).lastEditedFiles || []).filter(
+      (file: string) => !isExcluded(file)
+    );
     
     const getRelativePath = (absPath: string) => {
       const folders = vscode.workspace.workspaceFolders;
@@ -678,18 +1484,29 @@ export class AgentLoop {
     };
 
     return {
-      editor,
+      editor: visibleEditor,
       panel,
       lastEditedFiles,
-      chatHistory: this.chatHistory,
+      chatHistory: this.threads.peek(visibleEditor ? visibleEditor.document.uri.toString() : GLOBAL_THREAD_KEY) ?? [],
+      llmCapabilities: capabilities,
       getRelativePath,
       getLinesAround,
       enqueueMessage: (message: string, opts?: EnqueueMessageOptions) => {
         this.enqueueUserMessage(message, opts);
-      }
+      },
+      isExcluded,
+      hasExcludedVisibleEditor: () => this.privacyFilter.hasExcludedVisibleEditor(),
+      renderPrompt: (template, variables) => this.renderPrompt(template, variables),
     };
   }
 
+  /**
+   * Render a plugin prompt template, applying the user's override when one is configured
+   */
+  public renderPrompt(template: PromptTemplate, variables: Record<string, unknown>): string {
+    return this.promptTemplates.render(template, variables);
+  }
+
   /**
    * Set last edited files (for context)
    */
@@ -698,32 +1515,45 @@ export class AgentLoop {
   }
 
 
-  // Utility function to remove markdown code block tags
-  private stripCodeBlockTags(text: string): string {
-    // Only strip if the entire text is wrapped in code blocks
-    const trimmed = text.trim();
-    const startsWithCodeBlock = /^```\w*\n/.test(trimmed);
-    const endsWithCodeBlock = /\n```$/.test(trimmed);
-    
-    if (startsWithCodeBlock && endsWithCodeBlock) {
-      // Remove first line (opening ```) and last line (closing ```)
-      const lines = trimmed.split('\n');
-      return lines.slice(1, -1).join('\n');
+  /**
+   * Stream an LLM response, forwarding cleaned text deltas as they arrive.
+   * Returns the aggregated message so tool calls survive streaming.
+   */
+  private async streamLlmResponse(
+    runner: LlmRunner,
+    messages: BaseLanguageModelInput,
+    signal: AbortSignal,
+    onDelta: (delta: string) => void
+  ): Promise<AIMessageChunk> {
+    const cleaner = new StreamingTextCleaner();
+    let aggregate: AIMessageChunk | undefined;
+
+    const stream = await runner.stream(messages, { signal });
+    for await (const chunk of stream) {
+      aggregate = aggregate ? aggregate.concat(chunk) : chunk;
+      const delta = cleaner.push(this.extractText(chunk.content));
+      if (delta) {
+        onDelta(delta);
+      }
+    }
+    const rest = cleaner.flush();
+    if (rest) {
+      onDelta(rest);
     }
-    
-    return text;
-  };
 
-  // Utility function to remove <think> tags and their content
-  private stripThinkTags(text: string): string {
-    // Remove all <think>...</think> blocks (including multiline)
-    return text.replace(/<think>[\s\S]*?<\/think>/gi, '').trim();
-  };
+    return aggregate ?? new AIMessageChunk({ content: '' });
+  }
 
-  // Utility function to remove trailing LLM decoder artifacts (e.g., </start_of_turn>)
-  private stripTrailingLlmArtifacts(text: string): string {
-    return text.replace(/\s*(?:<\/start_of_turn>|<\/end_of_turn>)+\s*$/i, '').trim();
-  };
+  // Flatten string or multi-part message content into plain text
+  private extractText(content: unknown): string {
+    if (typeof content === 'string') {
+      return content;
+    }
+    if (Array.isArray(content)) {
+      return content.map((c: any) => (typeof c?.text === 'string' ? c.text : '')).join('');
+    }
+    return String(content ?? '');
+  }
 
   private messageContentToString(message: SystemMessage | HumanMessage | AIMessage | ToolMessage): string {
     const content = (message as SystemMessage | HumanMessage | AIMessage | ToolMessage).content as any;
@@ -778,7 +1608,8 @@ export class AgentLoop {
   }
 
   getChatHistoryForExport(): { messages: Array<{ role: 'system' | 'user' | 'assistant' | 'tool'; content: string; tool_call_id?: string }> } {
-    const messages = this.chatHistory.map((msg) => {
+    const history = this.lastThreadKey ? this.threads.peek(this.lastThreadKey) ?? [] : [];
+    const messages = history.map((msg) => {
       let role: 'system' | 'user' | 'assistant' | 'tool';
       if (msg instanceof SystemMessage) {
         role = 'system';
@@ -823,19 +1654,32 @@ export class AgentLoop {
       this.telemetry.recordPluginTriggered(pluginId, triggerType);
     }
 
-    // Delegate to run() with skipReschedule
-    await this.run(pluginId, { skipReschedule: true });
+    // Automatic triggers are dropped during the cooldown; manual ones wait for it and ignore muting and the budget
+    const manual = triggerType === 'manual';
+    await this.run(pluginId, { skipReschedule: !manual, manual });
   }
 
   /**
    * Trigger expression animation based on the AI response
+   * An `emotion` chosen by a structured reply is played directly, skipping the fast model
    */
   private async triggerExpression(
     aiResponse: string,
     panel: vscode.WebviewPanel,
-    cfg: vscode.WorkspaceConfiguration
+    cfg: vscode.WorkspaceConfiguration,
+    signal?: AbortSignal,
+    emotion?: string
   ): Promise<void> {
     try {
+      if (emotion) {
+        const characterExpressions = motionsMap[this.currentCharacter as keyof typeof motionsMap];
+        const fileName = characterExpressions?.[emotion as keyof typeof characterExpressions];
+        if (fileName) {
+          panel.webview.postMessage({ type: 'playEmotion', character: this.currentCharacter, emotion, fileName });
+          return;
+        }
+      }
+
       const fastModel = cfg.get<string>('llm.fastModel', '');
       if (!fastModel) {
         // Expression feature disabled
@@ -878,23 +1722,14 @@ AI Response: "${aiResponse}"
 Respond with ONLY the expression name, nothing else.`;
       
       // Call fast model
-      const baseUrl = cfg.get<string>('llm.baseUrl', 'https://api.openai.com/v1');
-      const apiKey = cfg.get<string>('llm.apiKey', 'dummy');
-      
-      const llmFields: ChatOpenAIFields = {
+      const { model: llm } = this.llmProviders.createChatModel(cfg, {
         model: fastModel,
-        configuration: { baseURL: baseUrl },
         temperature: 0.3,
-      };
-      if (apiKey) {
-        llmFields.apiKey = apiKey;
-      }
-      const llm = new ChatOpenAI(llmFields);
+        callbacks: this.usageLedger?.createCallbacks('expression', fastModel, 'fast'),
+      });
       
-      const expressionMsg = await llm.invoke([new HumanMessage(expressionPrompt)]);
-      const expressionText = typeof expressionMsg.content === 'string'
-        ? expressionMsg.content.trim()
-        : String(expressionMsg.content ?? '').trim();
+      const expressionMsg = await llm.invoke([new HumanMessage(expressionPrompt)], { signal });
+      const expressionText = this.extractText(expressionMsg.content).trim();
       
       // Find matching expression (case-insensitive, partial match)
       let selectedExpression: string | null = null;
@@ -923,6 +1758,9 @@ Respond with ONLY the expression name, nothing else.`;
         }
       }
     } catch (err: any) {
+      if (signal?.aborted) {
+        return;
+      }
       // Silently fail - expression is optional
       console.error('Error triggering expression:', err);
     }
@@ -932,7 +1770,7 @@ Respond with ONLY the expression name, nothing else.`;
    * Trigger a randomly selected plugin
    */
   async triggerRandomPlugin(): Promise<void> {
-    if (this.llmInFlight) {
+    if (this.llmInFlight || this.muted) {
       return;
     }
 
@@ -967,34 +1805,129 @@ Respond with ONLY the expression name, nothing else.`;
    * Test connectivity to the LLM service quickly
    * Returns true if connection successful, false otherwise
    */
-  async testConnectivity(): Promise<{ success: boolean; error?: string }> {
+  async testConnectivity(): Promise<{ success: boolean; error?: string; details?: LlmSetupError }> {
+    const cfg = vscode.workspace.getConfiguration('ani-vscode');
+    const resolved = this.llmProviders.resolve(cfg);
     try {
-      const cfg = vscode.workspace.getConfiguration('ani-vscode');
-      const baseUrl = cfg.get<string>('llm.baseUrl', 'https://api.openai.com/v1');
-      const apiKey = cfg.get<string>('llm.apiKey', 'dummy');
-      const model = cfg.get<string>('llm.model', 'gpt-4o-mini');
-
       // Create a simple test LLM instance with a short timeout
-      const llmFields: ChatOpenAIFields = {
-        model,
-        configuration: { baseURL: baseUrl },
+      const llm = this.llmProviders.createChatModelFor(resolved, {
         timeout: 5000, // 5 second timeout for quick check
         maxRetries: 0, // Don't retry on failure
-      };
-      if (apiKey) {
-        llmFields.apiKey = apiKey;
-      }
-      const llm = new ChatOpenAI(llmFields);
+      });
 
       // Send a minimal test message
       const testMessage = new HumanMessage('Hi');
       const response = await llm.invoke([testMessage]);
 
       // If we got here, connection works
+      if (this.status.state === 'offline' || this.status.state === 'error') {
+        this.setStatus({ state: 'idle' });
+      }
       return { success: true };
     } catch (err: any) {
-      const msg = err?.message || String(err);
-      return { success: false, error: msg };
+      const llmError = this.llmProviders.toLlmError(resolved, err);
+      if (!this.llmInFlight) {
+        this.setStatus(this.describeFailure(llmError, llmError.message));
+      }
+      return { success: false, error: llmError.message, details: describeLlmError(llmError) };
+    }
+  }
+
+  /**
+   * Test connectivity and show the result in the webview: the setup guide on failure, otherwise hide it
+   */
+  async checkConnection(): Promise<boolean> {
+    const result = await this.testConnectivity();
+    const panel = (this as any).panel as vscode.WebviewPanel;
+    if (panel) {
+      panel.webview.postMessage(
+        result.success
+          ? { type: 'connectionSuccess' }
+          : { type: 'setupError', message: result.error || 'Failed to connect to LLM service', error: result.details }
+      );
+    }
+    return result.success;
+  }
+
+  getStatus(): AgentStatus {
+    return this.status;
+  }
+
+  isMuted(): boolean {
+    return this.muted;
+  }
+
+  /**
+   * Pause or resume plugin comments; messages from the user are still answered while muted
+   */
+  setMuted(muted: boolean): void {
+    if (this.muted === muted) {
+      return;
+    }
+    this.muted = muted;
+    this.logger?.appendLine(`[Status] ${muted ? 'Muted' : 'Unmuted'} plugin comments`);
+    this.statusEmitter.fire(this.status);
+  }
+
+  /**
+   * Plugins that are enabled in the settings, e.g. to offer them for a manual trigger
+   */
+  getEnabledPlugins(): IPlugin[] {
+    return this.pluginManager.getEnabledPlugins(vscode.workspace.getConfiguration('ani-vscode'));
+  }
+
+  private setStatus(status: AgentStatus): void {
+    this.status = status;
+    this.statusEmitter.fire(status);
+  }
+
+  /**
+   * Unreachable servers count as offline; every other failure is an error
+   */
+  private describeFailure(err: unknown, message: string): AgentStatus {
+    const offline = err instanceof LlmError && (err.kind === 'connection' || err.kind === 'timeout');
+    return offline ? { state: 'offline', message } : { state: 'error', message };
+  }
+
+  /**
+   * Recovery for context-too-long and content-filter errors: fold most of the failed turn's
+   * thread into its summary, then run the turn again
+   */
+  async shrinkHistoryAndRetry(): Promise<void> {
+    const failed = this.lastFailedTurn;
+    if (!failed) {
+      return;
+    }
+    this.lastFailedTurn = null;
+
+    const cfg = vscode.workspace.getConfiguration('ani-vscode');
+    const budget = this.getHistoryTokenBudget(cfg, this.llmProviders.resolve(cfg).contextWindow);
+    await this.compactThread(cfg, failed.threadKey, Math.floor(budget / 4));
+    this.logger?.appendLine(`[History] Shrunk thread after a failed request; retrying`);
+    this.rerunTurn(failed);
+  }
+
+  /**
+   * Recovery for the other errors once the server answers again: run the failed turn again
+   * Returns false when there is no failed turn to retry
+   */
+  retryFailedTurn(): boolean {
+    const failed = this.lastFailedTurn;
+    if (!failed) {
+      return false;
+    }
+    this.lastFailedTurn = null;
+    this.logger?.appendLine(`[LLM] Retrying the failed ${failed.userMessage ? 'message' : 'plugin turn'}`);
+    this.rerunTurn(failed);
+    return true;
+  }
+
+  private rerunTurn(failed: FailedTurn): void {
+    if (failed.userMessage) {
+      this.messageQueue.enqueue(failed.userMessage);
+      this.trigger();
+    } else {
+      this.trigger(failed.pluginId);
     }
   }
 
@@ -1010,6 +1943,9 @@ Respond with ONLY the expression name, nothing else.`;
       clearTimeout(this.cooldownTimer);
       this.cooldownTimer = undefined;
     }
+    this.privacyFilter.dispose();
+    this.promptTemplates.dispose();
+    this.statusEmitter.dispose();
     // Clear the panel reference to prevent memory leaks
     (this as any).panel = null;
   }
@@ -0,0 +1,209 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { Buffer } from 'node:buffer';
+
+export type CassetteMode = 'off' | 'record' | 'replay';
+
+const DEFAULT_DIRECTORY = path.join('.ani', 'cassettes');
+// Recomputed from the body on replay, so never stored
+const SKIPPED_RESPONSE_HEADERS = new Set(['content-encoding', 'content-length', 'transfer-encoding', 'set-cookie']);
+const TEXT_CONTENT_TYPE = /^(?:text\/|application\/(?:json|x-ndjson|.*\+json))/i;
+
+/**
+ * One recorded request/response pair; request headers are never stored so API keys stay out of cassettes
+ */
+interface CassetteInteraction {
+  request: { method: string; url: string; body: unknown };
+  response: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    body: string;
+    encoding: 'utf8' | 'base64';
+  };
+  recordedAt: string;
+}
+
+interface NormalizedRequest {
+  method: string;
+  url: string;
+  body: unknown;
+  key: string;
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+async function readRequestBody(input: RequestInfo | URL, init?: RequestInit): Promise<string> {
+  const body = init?.body ?? (input instanceof Request ? await input.clone().text() : undefined);
+  if (body === undefined || body === null) {
+    return '';
+  }
+  if (typeof body === 'string') {
+    return body;
+  }
+  if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) {
+    return Buffer.from(body as ArrayBuffer).toString('utf8');
+  }
+  return String(body);
+}
+
+/**
+ * Key a request by method, path and JSON body, ignoring the host so cassettes work against any base URL
+ */
+async function normalizeRequest(input: RequestInfo | URL, init?: RequestInit): Promise<NormalizedRequest> {
+  const rawUrl = input instanceof Request ? input.url : String(input);
+  const method = (init?.method ?? (input instanceof Request ? input.method : 'GET')).toUpperCase();
+  const url = new URL(rawUrl);
+  const target = `${url.pathname}${url.search}`;
+
+  const text = await readRequestBody(input, init);
+  let body: unknown = text;
+  try {
+    body = text ? JSON.parse(text) : null;
+  } catch {
+    // Not JSON, keep the raw text
+  }
+  const key = createHash('sha256').update(`${method} ${target}\n${stableStringify(body)}`).digest('hex').slice(0, 24);
+  return { method, url: target, body, key };
+}
+
+/**
+ * Records every LLM and TTS HTTP exchange into a cassette directory, or serves them back by request hash
+ * Controlled by `ani-vscode.cassette.mode` and `ani-vscode.cassette.directory`
+ */
+export class Cassette {
+  private replayCounters = new Map<string, number>();
+  private countersFor = '';
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(private readonly logger?: vscode.OutputChannel) {}
+
+  /**
+   * A fetch that records or replays, or undefined when the cassette is off
+   */
+  getFetch(): typeof fetch | undefined {
+    const cfg = vscode.workspace.getConfiguration('ani-vscode');
+    const mode = cfg.get<CassetteMode>('cassette.mode', 'off');
+    if (mode !== 'record' && mode !== 'replay') {
+      return undefined;
+    }
+    const directory = this.resolveDirectory(cfg.get<string>('cassette.directory', ''));
+    if (!directory) {
+      this.logger?.appendLine('[Cassette][error] No workspace folder is open; set "ani-vscode.cassette.directory" to an absolute path');
+      return undefined;
+    }
+
+    // Replays start over whenever the cassette changes
+    const countersFor = `${mode}:${directory}`;
+    if (countersFor !== this.countersFor) {
+      this.countersFor = countersFor;
+      this.replayCounters.clear();
+    }
+
+    return mode === 'record'
+      ? (input, init) => this.record(directory, input, init)
+      : (input, init) => this.replay(directory, input, init);
+  }
+
+  private resolveDirectory(configured: string): string | null {
+    const trimmed = configured.trim();
+    if (trimmed && path.isAbsolute(trimmed)) {
+      return trimmed;
+    }
+    const folder = vscode.workspace.workspaceFolders?.[0];
+    return folder ? path.join(folder.uri.fsPath, trimmed || DEFAULT_DIRECTORY) : null;
+  }
+
+  private async record(directory: string, input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+    const request = await normalizeRequest(input, init);
+    const response = await fetch(input, init);
+    // Read a copy so streamed responses still reach the caller as they arrive
+    const copy = response.clone();
+    this.writes = this.writes
+      .then(() => this.append(directory, request, copy))
+      .catch((error) => {
+        this.logger?.appendLine(`[Cassette][error] Failed to record ${request.method} ${request.url}: ${String(error)}`);
+      });
+    return response;
+  }
+
+  private async append(directory: string, request: NormalizedRequest, response: Response): Promise<void> {
+    const bytes = Buffer.from(await response.arrayBuffer());
+    const contentType = response.headers.get('content-type') ?? '';
+    const encoding = TEXT_CONTENT_TYPE.test(contentType) ? 'utf8' : 'base64';
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, name) => {
+      if (!SKIPPED_RESPONSE_HEADERS.has(name.toLowerCase())) {
+        headers[name] = value;
+      }
+    });
+
+    const filePath = path.join(directory, `${request.key}.json`);
+    const interactions = this.readInteractions(filePath);
+    interactions.push({
+      request: { method: request.method, url: request.url, body: request.body },
+      response: {
+        status: response.status,
+        statusText: response.statusText,
+        headers,
+        body: bytes.toString(encoding),
+        encoding,
+      },
+      recordedAt: new Date().toISOString(),
+    });
+    await fs.promises.mkdir(directory, { recursive: true });
+    await fs.promises.writeFile(filePath, JSON.stringify(interactions, null, 2), 'utf8');
+    this.logger?.appendLine(`[Cassette] Recorded ${request.method} ${request.url} -> ${response.status} (${request.key})`);
+  }
+
+  private async replay(directory: string, input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+    const request = await normalizeRequest(input, init);
+    const interactions = this.readInteractions(path.join(directory, `${request.key}.json`));
+    if (interactions.length === 0) {
+      const message = `No cassette recording for ${request.method} ${request.url} (${request.key}) in ${directory}`;
+      this.logger?.appendLine(`[Cassette][error] ${message}`);
+      // Shaped like an API error so providers surface the message instead of a generic connection failure
+      return new Response(JSON.stringify({ error: { message, type: 'cassette_miss', code: 'cassette_miss' } }), {
+        status: 404,
+        headers: { 'content-type': 'application/json' },
+      });
+    }
+
+    // Identical requests replay their recordings in order, repeating the last one once exhausted
+    const index = this.replayCounters.get(request.key) ?? 0;
+    this.replayCounters.set(request.key, index + 1);
+    const { response } = interactions[Math.min(index, interactions.length - 1)];
+    this.logger?.appendLine(`[Cassette] Replayed ${request.method} ${request.url} -> ${response.status} (${request.key})`);
+    return new Response(Buffer.from(response.body, response.encoding), {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+  }
+
+  private readInteractions(filePath: string): CassetteInteraction[] {
+    try {
+      if (!fs.existsSync(filePath)) {
+        return [];
+      }
+      const parsed = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+      return Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+      this.logger?.appendLine(`[Cassette][error] Failed to read ${filePath}: ${String(error)}`);
+      return [];
+    }
+  }
+}
@@ -0,0 +1,102 @@
+import { SystemMessage, HumanMessage, AIMessage, ToolMessage } from '@langchain/core/messages';
+
+export type ThreadMessage = SystemMessage | HumanMessage | AIMessage | ToolMessage;
+
+/**
+ * Key of the shared thread used by plugins that are not about a specific file
+ */
+export const GLOBAL_THREAD_KEY = 'global';
+
+/**
+ * Conversation threads keyed by document URI, plus one shared global thread.
+ *
+ * File threads are kept in least-recently-used order and the oldest are
+ * evicted once more than `maxThreads` exist. The global thread is never evicted.
+ */
+export class ConversationThreads {
+  private threads = new Map<string, ThreadMessage[]>();
+  private summaries = new Map<string, string>();
+
+  constructor(private maxThreads: number = 10) {}
+
+  /**
+   * Change the maximum number of file threads, evicting the oldest if needed
+   */
+  setMaxThreads(maxThreads: number): void {
+    this.maxThreads = Math.max(1, Math.floor(maxThreads));
+    this.evict();
+  }
+
+  /**
+   * Get a thread, creating it if needed, and mark it as most recently used
+   */
+  get(key: string): ThreadMessage[] {
+    const messages = this.threads.get(key) ?? [];
+    this.threads.delete(key);
+    this.threads.set(key, messages);
+    this.evict();
+    return messages;
+  }
+
+  /**
+   * Get a thread without creating it or changing its recency
+   */
+  peek(key: string): ThreadMessage[] | undefined {
+    return this.threads.get(key);
+  }
+
+  /**
+   * Replace the messages of a thread and mark it as most recently used
+   */
+  set(key: string, messages: ThreadMessage[]): void {
+    this.threads.delete(key);
+    this.threads.set(key, messages);
+    this.evict();
+  }
+
+  /**
+   * Rolling summary of messages that were pruned from a thread
+   */
+  getSummary(key: string): string | null {
+    return this.summaries.get(key) ?? null;
+  }
+
+  /**
+   * Replace the rolling summary of a thread
+   */
+  setSummary(key: string, summary: string): void {
+    if (this.threads.has(key)) {
+      this.summaries.set(key, summary);
+    }
+  }
+
+  /**
+   * Drop a single thread
+   */
+  delete(key: string): void {
+    this.threads.delete(key);
+    this.summaries.delete(key);
+  }
+
+  /**
+   * Drop every thread, including the global one
+   */
+  clear(): void {
+    this.threads.clear();
+    this.summaries.clear();
+  }
+
+  private evict(): void {
+    let fileThreads = this.threads.size - (this.threads.has(GLOBAL_THREAD_KEY) ? 1 : 0);
+    for (const key of this.threads.keys()) {
+      if (fileThreads <= this.maxThreads) {
+        break;
+      }
+      if (key === GLOBAL_THREAD_KEY) {
+        continue;
+      }
+      this.delete(key);
+      fileThreads--;
+    }
+  }
+}
@@ -0,0 +1,148 @@
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { SystemMessage, HumanMessage, AIMessage, ToolMessage } from '@langchain/core/messages';
+import type { ThreadMessage } from './ConversationThreads';
+
+const CHARS_PER_TOKEN = 4;
+const MESSAGE_OVERHEAD_TOKENS = 4;
+// Roughly what a high-detail screenshot costs on OpenAI-style vision models
+const IMAGE_TOKENS = 800;
+const MAX_SUMMARY_CHARS = 1500;
+
+export const IMAGE_PLACEHOLDER = '[Screenshot shared earlier; image removed from history]';
+
+function isImagePart(part: any): boolean {
+  return Boolean(part) && typeof part === 'object' && (part.type === 'image_url' || part.type === 'image');
+}
+
+/**
+ * Rough token estimate for a message (about 4 characters per token, fixed cost per image)
+ */
+export function estimateMessageTokens(message: ThreadMessage): number {
+  const content = message.content as unknown;
+  let tokens = MESSAGE_OVERHEAD_TOKENS;
+  if (typeof content === 'string') {
+    tokens += Math.ceil(content.length / CHARS_PER_TOKEN);
+  } else if (Array.isArray(content)) {
+    for (const part of content) {
+      if (isImagePart(part)) {
+        tokens += IMAGE_TOKENS;
+      } else if (typeof part?.text === 'string') {
+        tokens += Math.ceil(part.text.length / CHARS_PER_TOKEN);
+      }
+    }
+  }
+  if (message instanceof AIMessage && message.tool_calls?.length) {
+    tokens += Math.ceil(JSON.stringify(message.tool_calls).length / CHARS_PER_TOKEN);
+  }
+  return tokens;
+}
+
+/**
+ * Rough token estimate for a list of messages
+ */
+export function estimateTokens(messages: ThreadMessage[]): number {
+  return messages.reduce((sum, message) => sum + estimateMessageTokens(message), 0);
+}
+
+/**
+ * Replace image parts with a text placeholder in every turn except the most recent one
+ * Returns the same array when nothing changed
+ */
+export function replaceAgedImages(messages: ThreadMessage[]): ThreadMessage[] {
+  let lastTurnStart = -1;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i] instanceof HumanMessage) {
+      lastTurnStart = i;
+      break;
+    }
+  }
+
+  let changed = false;
+  const result = messages.map((message, index) => {
+    if (!(message instanceof HumanMessage) || index >= lastTurnStart || !Array.isArray(message.content)) {
+      return message;
+    }
+    const parts = message.content as any[];
+    if (!parts.some(isImagePart)) {
+      return message;
+    }
+    changed = true;
+    const content = parts.map((part) => (isImagePart(part) ? { type: 'text', text: IMAGE_PLACEHOLDER } : part));
+    return new HumanMessage({ content, additional_kwargs: message.additional_kwargs });
+  });
+  return changed ? result : messages;
+}
+
+/**
+ * Pick the oldest whole turns (a user message plus the replies and tool results that
+ * follow it) to evict so the remaining history fits in `maxTokens`.
+ * The system prompt and the most recent turn are never evicted.
+ */
+export function selectEvictedMessages(messages: ThreadMessage[], maxTokens: number): ThreadMessage[] {
+  const start = messages[0] instanceof SystemMessage ? 1 : 0;
+  const turnStarts: number[] = [];
+  for (let i = start; i < messages.length; i++) {
+    if (messages[i] instanceof HumanMessage) {
+      turnStarts.push(i);
+    }
+  }
+  if (turnStarts.length <= 1) {
+    return [];
+  }
+
+  let total = estimateTokens(messages);
+  let evictUntil = start;
+  for (let t = 1; t < turnStarts.length && total > maxTokens; t++) {
+    total -= estimateTokens(messages.slice(evictUntil, turnStarts[t]));
+    evictUntil = turnStarts[t];
+  }
+  return messages.slice(start, evictUntil);
+}
+
+function describeForSummary(message: ThreadMessage): string | null {
+  const content = message.content as unknown;
+  const text = typeof content === 'string'
+    ? content
+    : Array.isArray(content)
+      ? content.map((part: any) => (isImagePart(part) ? '[image]' : typeof part?.text === 'string' ? part.text : '')).join(' ')
+      : '';
+  if (!text.trim()) {
+    return null;
+  }
+  if (message instanceof HumanMessage) {
+    return `User: ${text}`;
+  }
+  if (message instanceof AIMessage) {
+    return `Assistant: ${text}`;
+  }
+  if (message instanceof ToolMessage) {
+    return `Tool result: ${text.slice(0, 300)}`;
+  }
+  return null;
+}
+
+/**
+ * Fold evicted messages into the running summary of a thread
+ */
+export async function summarizeEvictedMessages(
+  model: BaseChatModel,
+  previousSummary: string | null,
+  evicted: ThreadMessage[]
+): Promise<string> {
+  const transcript = evicted.map(describeForSummary).filter(Boolean).join('\n\n');
+  const prompt = `Maintain a running summary of an ongoing conversation between a user and their coding assistant. Merge the earlier summary with the new messages into one short paragraph (under 120 words) that keeps names, decisions, open questions and what the user is working on. Drop small talk.
+
+Earlier summary:
+${previousSummary || '(none)'}
+
+New messages:
+${transcript}
+
+Respond with ONLY the updated summary.`;
+
+  const response = await model.invoke([new HumanMessage(prompt)]);
+  const content = typeof response.content === 'string'
+    ? response.content
+    : response.content.map((part: any) => (typeof part?.text === 'string' ? part.text : '')).join('');
+  return content.replace(/<think>[\s\S]*?<\/think>/gi, '').trim().slice(0, MAX_SUMMARY_CHARS);
+}
@@ -0,0 +1,102 @@
+import type { LlmError, LlmErrorKind } from './providers/LlmError';
+
+/**
+ * A recovery step offered by the setup guide; `type` matches the message the webview posts back
+ */
+export type LlmRecoveryAction =
+  | { type: 'openSettings'; label: string; key: string }
+  | { type: 'pullModel'; label: string; model: string }
+  | { type: 'shrinkHistoryAndRetry'; label: string }
+  | { type: 'retryConnection'; label: string };
+
+/**
+ * Error details sent to the webview with `setupError`
+ */
+export interface LlmSetupError {
+  kind: LlmErrorKind;
+  title: string;
+  hint: string;
+  provider: string;
+  model: string;
+  actions: LlmRecoveryAction[];
+}
+
+const OLLAMA_MODEL_NAME = /^[\w.\-/:]+$/;
+
+/**
+ * Map a typed LLM error to a title, hint and recovery actions for the setup guide
+ * `modelKey` is the setting that selected the failing model (`llm.model`, `llm.fastModel` or `llm.fallbacks`)
+ */
+export function describeLlmError(error: LlmError, modelKey: string = 'llm.model'): LlmSetupError {
+  const base = { kind: error.kind, provider: error.providerId, model: error.model };
+  const retry: LlmRecoveryAction = { type: 'retryConnection', label: 'Retry' };
+  const openSettings = (label: string, key: string): LlmRecoveryAction => ({ type: 'openSettings', label, key: `ani-vscode.${key}` });
+
+  switch (error.kind) {
+    case 'auth':
+      return {
+        ...base,
+        title: 'Authentication Failed',
+        hint: 'The provider rejected the API key. Check that it is set and still valid.',
+        actions: [openSettings('Set API Key', 'llm.apiKey'), retry],
+      };
+    case 'connection':
+      return {
+        ...base,
+        title: 'Connection Error',
+        hint: 'The LLM service could not be reached. Make sure it is running and the base URL is correct.',
+        actions: [openSettings('Set Base URL', 'llm.baseUrl'), retry],
+      };
+    case 'modelMissing': {
+      const actions: LlmRecoveryAction[] = [];
+      if (error.providerId === 'ollama' && OLLAMA_MODEL_NAME.test(error.model)) {
+        actions.push({ type: 'pullModel', label: `Pull ${error.model}`, model: error.model });
+      }
+      actions.push(openSettings('Choose Model', modelKey), retry);
+      return {
+        ...base,
+        title: 'Model Not Found',
+        hint: `The model "${error.model}" is not available from ${error.providerId}.`,
+        actions,
+      };
+    }
+    case 'rateLimit':
+      return {
+        ...base,
+        title: 'Rate Limited',
+        hint: 'The provider is busy or your quota is exhausted. Wait a moment, or add fallback models.',
+        actions: [openSettings('Add Fallback Models', 'llm.fallbacks'), retry],
+      };
+    case 'contextTooLong':
+      return {
+        ...base,
+        title: 'Conversation Too Long',
+        hint: "The conversation no longer fits in the model's context window.",
+        actions: [
+          { type: 'shrinkHistoryAndRetry', label: 'Shrink History & Retry' },
+          openSettings('Set History Budget', 'llm.historyTokenBudget'),
+        ],
+      };
+    case 'contentFilter':
+      return {
+        ...base,
+        title: 'Blocked by Content Filter',
+        hint: "The provider's content filter rejected the request, possibly because of earlier messages.",
+        actions: [{ type: 'shrinkHistoryAndRetry', label: 'Shrink History & Retry' }],
+      };
+    case 'timeout':
+      return {
+        ...base,
+        title: 'Request Timed Out',
+        hint: 'The model took too long to answer. Try again, use a smaller model or raise the timeout.',
+        actions: [openSettings('Set Timeout', 'llm.timeoutSeconds'), retry],
+      };
+    default:
+      return {
+        ...base,
+        title: 'LLM Error',
+        hint: 'The LLM request failed.',
+        actions: [openSettings('Open Settings', 'llm'), retry],
+      };
+  }
+}
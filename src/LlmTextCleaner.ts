@@ -0,0 +1,161 @@
+const THINK_OPEN = '<think>';
+const TRAILING_ARTIFACTS = ['</start_of_turn>', '</end_of_turn>'];
+const CODE_FENCE_CLOSE = '\n```';
+
+/**
+ * Where the first closing fence of a reply opening with a code fence starts, or -1
+ * `body` is the text after the opening fence line
+ */
+function findClosingFence(body: string): number {
+  return `\n${body}`.indexOf(CODE_FENCE_CLOSE);
+}
+
+/**
+ * Remove markdown code block tags when the entire text is wrapped in a code block,
+ * i.e. it opens with a fence and its first closing fence ends it
+ */
+export function stripCodeBlockTags(text: string): string {
+  const trimmed = text.trim();
+  const opening = /^```\w*\n/.exec(trimmed);
+  if (!opening) {
+    return text;
+  }
+
+  const body = trimmed.slice(opening[0].length);
+  const close = findClosingFence(body);
+  if (close !== -1 && close === body.length + 1 - CODE_FENCE_CLOSE.length) {
+    return body.slice(0, Math.max(0, close - 1));
+  }
+
+  return text;
+}
+
+/**
+ * Remove <think> tags and their content (including multiline blocks)
+ */
+export function stripThinkTags(text: string): string {
+  return text.replace(/<think>[\s\S]*?<\/think>/gi, '').trim();
+}
+
+/**
+ * Remove trailing LLM decoder artifacts (e.g., </start_of_turn>)
+ */
+export function stripTrailingLlmArtifacts(text: string): string {
+  return text.replace(/\s*(?:<\/start_of_turn>|<\/end_of_turn>)+\s*$/i, '').trim();
+}
+
+/**
+ * Apply every cleanup pass to a complete LLM reply
+ */
+export function cleanLlmText(text: string): string {
+  return stripTrailingLlmArtifacts(stripThinkTags(stripCodeBlockTags(text)));
+}
+
+/**
+ * Length of the longest suffix of `text` that could be the beginning of `marker`.
+ * Used to hold back partial tags until the next chunk disambiguates them.
+ */
+function partialMarkerLength(text: string, marker: string): number {
+  const lowerText = text.toLowerCase();
+  const lowerMarker = marker.toLowerCase();
+  for (let len = Math.min(marker.length, text.length); len > 0; len--) {
+    if (lowerText.endsWith(lowerMarker.slice(0, len))) {
+      return len;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Incrementally cleans a streamed LLM reply.
+ *
+ * Each pushed chunk yields only the text that is safe to display: open <think>
+ * blocks, trailing decoder artifacts and any partially received tag are held
+ * back until enough text arrives to decide. A reply opening with a code fence is
+ * held back until text follows its first closing fence (so it is not wrapped and
+ * keeps its fences) or the stream ends, matching cleanLlmText. The emitted text
+ * only ever grows, so the webview can append deltas directly.
+ */
+export class StreamingTextCleaner {
+  private raw = '';
+  private emitted = '';
+
+  /**
+   * Add a raw chunk and return the newly displayable text (empty if none)
+   */
+  push(chunk: string): string {
+    if (!chunk) {
+      return '';
+    }
+    this.raw += chunk;
+
+    const displayable = this.renderPartial(this.raw);
+    if (!displayable.startsWith(this.emitted) || displayable.length === this.emitted.length) {
+      return '';
+    }
+
+    const delta = displayable.slice(this.emitted.length);
+    this.emitted = displayable;
+    return delta;
+  }
+
+  /**
+   * Return whatever was held back once the stream has ended (empty if none)
+   */
+  flush(): string {
+    const displayable = this.getText();
+    if (!displayable.startsWith(this.emitted) || displayable.length === this.emitted.length) {
+      return '';
+    }
+
+    const delta = displayable.slice(this.emitted.length);
+    this.emitted = displayable;
+    return delta;
+  }
+
+  /**
+   * Full raw text received so far
+   */
+  getRawText(): string {
+    return this.raw;
+  }
+
+  /**
+   * Cleaned full text, identical to running cleanLlmText on the complete reply
+   */
+  getText(): string {
+    return cleanLlmText(this.raw);
+  }
+
+  private renderPartial(raw: string): string {
+    let text = raw.replace(/<think>[\s\S]*?<\/think>/gi, '');
+
+    const unclosedThink = text.toLowerCase().indexOf(THINK_OPEN);
+    if (unclosedThink !== -1) {
+      text = text.slice(0, unclosedThink);
+    }
+    text = text.slice(0, text.length - partialMarkerLength(text, THINK_OPEN));
+    text = text.trimStart();
+
+    // Wait until an opening fence line is complete before deciding whether to strip it
+    if (/^`{1,3}\w*$/.test(text)) {
+      return '';
+    }
+    const opening = /^```\w*\n/.exec(text);
+    if (opening) {
+      const body = text.slice(opening[0].length);
+      const close = findClosingFence(body);
+      // Until text follows the closing fence, the reply may still turn out to be wrapped
+      if (close === -1 || !body.slice(close - 1 + CODE_FENCE_CLOSE.length).trim()) {
+        return '';
+      }
+    }
+
+    text = text.replace(/\s*(?:<\/start_of_turn>|<\/end_of_turn>)+\s*$/i, '');
+    for (const artifact of TRAILING_ARTIFACTS) {
+      text = text.slice(0, text.length - partialMarkerLength(text, artifact));
+    }
+
+    return text.trimEnd();
+  }
+}
@@ -1,27 +1,42 @@
+/**
+ * A queued message and where it came from
+ */
+export interface QueuedMessage {
+  text: string;
+  /** Plugin that queued the message; unset for messages the user typed */
+  source?: string;
+  /** Receives the reply once it is shown */
+  onReply?: (reply: string) => void;
+  /** Conversation thread the message belongs to; unset to continue the last one */
+  threadKey?: string;
+  /** Tools offered only on request that this message asks for */
+  tools?: string[];
+}
+
 /**
  * Queue for storing user messages
  */
 export class MessageQueue {
-  private queue: string[] = [];
+  private queue: QueuedMessage[] = [];
 
   /**
    * Add a message to the queue
    */
-  enqueue(message: string): void {
+  enqueue(message: QueuedMessage): void {
     this.queue.push(message);
   }
 
   /**
    * Add a message to the front of the queue
    */
-  enqueueFront(message: string): void {
+  enqueueFront(message: QueuedMessage): void {
     this.queue.unshift(message);
   }
 
   /**
    * Remove and return the next message from the queue
    */
-  dequeue(): string | null {
+  dequeue(): QueuedMessage | null {
     if (this.queue.length === 0) {
       return null;
     }
@@ -52,7 +67,7 @@ export class MessageQueue {
   /**
    * Peek at the next message without removing it
    */
-  peek(): string | null {
+  peek(): QueuedMessage | null {
     if (this.queue.length === 0) {
       return null;
     }
@@ -0,0 +1,92 @@
+import { cleanLlmText } from './LlmTextCleaner';
+import { getErrorStatus } from './providers/LlmRetry';
+
+/**
+ * Reply returned by the model in structured-output mode
+ */
+export interface StructuredReply {
+  text: string;
+  /** One of the character's `motions_map.json` keys, or null when the model picked something else */
+  emotion: string | null;
+  quickReplies: unknown[];
+}
+
+export const STRUCTURED_REPLY_NAME = 'character_reply';
+
+/**
+ * JSON schema for a reply whose emotion is constrained to the given expression names
+ */
+export function buildReplySchema(emotions: string[]): Record<string, unknown> {
+  return {
+    type: 'object',
+    properties: {
+      text: { type: 'string', description: 'What the character says.' },
+      emotion: {
+        type: 'string',
+        enum: emotions,
+        description: 'Expression that best matches the reply.',
+      },
+      quickReplies: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Up to three short replies the user can pick from, or an empty list.',
+      },
+    },
+    required: ['text', 'emotion', 'quickReplies'],
+    additionalProperties: false,
+  };
+}
+
+/**
+ * System prompt addition describing the reply format, for models that only loosely follow the schema
+ */
+export function buildReplyInstructions(emotions: string[], quickRepliesEnabled: boolean): string {
+  const quickReplies = quickRepliesEnabled
+    ? '"quickReplies": up to three short replies the user can pick from (use an empty list when none fit)'
+    : '"quickReplies": always an empty list';
+  return [
+    'Always answer with a single JSON object and nothing else, with these fields:',
+    '- "text": what you say, written exactly as you would normally reply',
+    `- "emotion": the expression that best matches your reply, one of: ${emotions.join(', ')}`,
+    `- ${quickReplies}`,
+  ].join('\n');
+}
+
+/**
+ * Parse a structured reply, tolerating code fences and case differences in the emotion
+ * Returns null when the content is not a JSON reply, so the caller can treat it as plain text
+ */
+export function parseStructuredReply(content: string, emotions: string[]): StructuredReply | null {
+  const cleaned = cleanLlmText(content).trim();
+  const start = cleaned.indexOf('{');
+  const end = cleaned.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    return null;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(cleaned.slice(start, end + 1));
+  } catch {
+    return null;
+  }
+  if (!parsed || typeof parsed !== 'object' || typeof (parsed as { text?: unknown }).text !== 'string') {
+    return null;
+  }
+
+  const { text, emotion, quickReplies } = parsed as { text: string; emotion?: unknown; quickReplies?: unknown };
+  const emotionName = typeof emotion === 'string' ? emotion.trim().toLowerCase() : '';
+  return {
+    text,
+    emotion: emotions.find((name) => name.toLowerCase() === emotionName) ?? null,
+    quickReplies: Array.isArray(quickReplies) ? quickReplies : [],
+  };
+}
+
+/**
+ * Whether a request failed because the server does not support JSON-schema output
+ */
+export function isStructuredOutputRejected(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error ?? '');
+  return getErrorStatus(error) === 400 && /response_format|json_schema|\bformat\b/i.test(message);
+}
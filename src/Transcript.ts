@@ -0,0 +1,95 @@
+/**
+ * One line of the conversation log shown in the webview's transcript drawer
+ */
+export interface TranscriptEntry {
+  id: string;
+  role: 'user' | 'assistant';
+  /** What the user typed, or the reply as shown in the speech bubble */
+  text: string;
+  timestamp: number;
+  /** Plugin that prompted the reply; unset for replies to the user */
+  source?: { id: string; name: string };
+}
+
+export interface TranscriptAudio {
+  mimeType: string;
+  data: string;
+  playbackRate: number;
+  pitchRatio: number;
+}
+
+const MAX_ENTRIES = 200;
+// Synthesized speech is large; only the most recent replies keep theirs
+const MAX_CACHED_AUDIO = 10;
+
+/**
+ * Everything said in the panel, kept separately from the LLM threads so pruning and summaries don't affect it
+ */
+export class Transcript {
+  private entries: TranscriptEntry[] = [];
+  private spokenText = new Map<string, string>();
+  private audio = new Map<string, TranscriptAudio>();
+  private nextId = 0;
+
+  addUserMessage(text: string): TranscriptEntry {
+    return this.add({ role: 'user', text });
+  }
+
+  /**
+   * Record a reply; `spokenText` is what text-to-speech reads when the reply is replayed
+   */
+  addReply(text: string, spokenText: string, source?: TranscriptEntry['source']): TranscriptEntry {
+    const entry = this.add(source ? { role: 'assistant', text, source } : { role: 'assistant', text });
+    this.spokenText.set(entry.id, spokenText);
+    return entry;
+  }
+
+  getEntries(): TranscriptEntry[] {
+    return [...this.entries];
+  }
+
+  getSpokenText(id: string): string | undefined {
+    return this.spokenText.get(id);
+  }
+
+  getAudio(id: string): TranscriptAudio | undefined {
+    return this.audio.get(id);
+  }
+
+  setAudio(id: string, audio: TranscriptAudio): void {
+    if (!this.spokenText.has(id)) {
+      return;
+    }
+    this.audio.delete(id);
+    this.audio.set(id, audio);
+    for (const key of this.audio.keys()) {
+      if (this.audio.size <= MAX_CACHED_AUDIO) {
+        break;
+      }
+      this.audio.delete(key);
+    }
+  }
+
+  clear(): void {
+    this.entries = [];
+    this.spokenText.clear();
+    this.audio.clear();
+  }
+
+  private add(entry: Omit<TranscriptEntry, 'id' | 'timestamp'>): TranscriptEntry {
+    const stored: TranscriptEntry = {
+      ...entry,
+      id: `entry-${++this.nextId}`,
+      timestamp: Date.now(),
+    };
+    this.entries.push(stored);
+    while (this.entries.length > MAX_ENTRIES) {
+      const removed = this.entries.shift();
+      if (removed) {
+        this.spokenText.delete(removed.id);
+        this.audio.delete(removed.id);
+      }
+    }
+    return stored;
+  }
+}
@@ -0,0 +1,192 @@
+import { TtsService, TtsConfig, TtsResult, TtsSynthesisOptions } from './TtsService';
+
+const SENTENCE_BOUNDARY = /[.!?。！？…]+["'”’)\]]*\s+|\n+/g;
+const MIN_CHUNK_CHARS = 24;
+
+export interface TtsAudioChunk extends TtsResult {
+  index: number;
+  text: string;
+}
+
+export interface TtsPipelineOptions {
+  config: TtsConfig;
+  synthesisOptions?: TtsSynthesisOptions;
+  maxConcurrency: number;
+  onChunk: (chunk: TtsAudioChunk) => void;
+  onChunkError?: (error: unknown, index: number, text: string) => void;
+}
+
+export interface TtsPipelineResult {
+  chunkCount: number;
+  deliveredCount: number;
+  errors: unknown[];
+}
+
+/**
+ * Split complete sentences off the front of `buffer`.
+ * Returns the sentences and whatever incomplete text remains.
+ */
+function extractSentences(buffer: string): { sentences: string[]; rest: string } {
+  const sentences: string[] = [];
+  let lastIndex = 0;
+  SENTENCE_BOUNDARY.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = SENTENCE_BOUNDARY.exec(buffer)) !== null) {
+    const end = match.index + match[0].length;
+    const sentence = buffer.slice(lastIndex, end).trim();
+    if (sentence) {
+      sentences.push(sentence);
+    }
+    lastIndex = end;
+  }
+  return { sentences, rest: buffer.slice(lastIndex) };
+}
+
+/**
+ * Sentence-chunked text-to-speech pipeline.
+ *
+ * Text is pushed incrementally (e.g. from a streamed reply); each completed
+ * sentence is synthesized concurrently with at most `maxConcurrency` requests
+ * in flight, and the resulting audio is delivered through `onChunk` strictly
+ * in sentence order.
+ */
+export class TtsPipeline {
+  private buffer = '';
+  private pendingText = '';
+  private nextIndex = 0;
+  private nextToDeliver = 0;
+  private active = 0;
+  private ended = false;
+  private cancelled = false;
+  private readonly waiting: Array<() => void> = [];
+  private readonly completed = new Map<number, TtsAudioChunk | null>();
+  private readonly tasks: Array<Promise<void>> = [];
+  private readonly errors: unknown[] = [];
+  private deliveredCount = 0;
+
+  constructor(private readonly ttsService: TtsService, private readonly options: TtsPipelineOptions) {}
+
+  /**
+   * Append more reply text; completed sentences are scheduled for synthesis
+   */
+  push(text: string): void {
+    if (this.ended || !text) {
+      return;
+    }
+    this.buffer += text;
+    const { sentences, rest } = extractSentences(this.buffer);
+    this.buffer = rest;
+    for (const sentence of sentences) {
+      this.queueSentence(sentence);
+    }
+  }
+
+  /**
+   * Flush any remaining text and wait for every chunk to be delivered
+   */
+  async end(): Promise<TtsPipelineResult> {
+    if (!this.ended) {
+      this.ended = true;
+      const remainder = [this.pendingText, this.buffer.trim()].filter(Boolean).join(' ');
+      this.pendingText = '';
+      this.buffer = '';
+      if (remainder) {
+        this.schedule(remainder);
+      }
+    }
+
+    await Promise.all(this.tasks);
+    return {
+      chunkCount: this.nextIndex,
+      deliveredCount: this.deliveredCount,
+      errors: [...this.errors],
+    };
+  }
+
+  /**
+   * Drop the remaining text and stop delivering chunks, e.g. when the reply failed halfway
+   */
+  cancel(): void {
+    this.ended = true;
+    this.cancelled = true;
+    this.pendingText = '';
+    this.buffer = '';
+  }
+
+  // Merge very short sentences ("Oh.") with the next one to avoid tiny requests
+  private queueSentence(sentence: string): void {
+    this.pendingText = this.pendingText ? `${this.pendingText} ${sentence}` : sentence;
+    if (this.pendingText.length >= MIN_CHUNK_CHARS) {
+      const text = this.pendingText;
+      this.pendingText = '';
+      this.schedule(text);
+    }
+  }
+
+  private schedule(text: string): void {
+    const index = this.nextIndex++;
+    this.tasks.push(this.synthesizeChunk(index, text));
+  }
+
+  private async synthesizeChunk(index: number, text: string): Promise<void> {
+    await this.acquireSlot();
+    let chunk: TtsAudioChunk | null = null;
+    try {
+      // Skip remaining sentences once the turn is cancelled
+      if (!this.isAborted()) {
+        const result = await this.ttsService.synthesize(text, this.options.config, this.options.synthesisOptions);
+        if (result) {
+          chunk = { ...result, index, text };
+        }
+      }
+    } catch (error) {
+      if (!this.isAborted()) {
+        this.errors.push(error);
+        this.options.onChunkError?.(error, index, text);
+      }
+    } finally {
+      this.releaseSlot();
+    }
+
+    this.completed.set(index, chunk);
+    this.deliverReadyChunks();
+  }
+
+  private deliverReadyChunks(): void {
+    while (this.completed.has(this.nextToDeliver)) {
+      const chunk = this.completed.get(this.nextToDeliver);
+      this.completed.delete(this.nextToDeliver);
+      this.nextToDeliver++;
+      if (chunk && !this.isAborted()) {
+        this.deliveredCount++;
+        this.options.onChunk(chunk);
+      }
+    }
+  }
+
+  private isAborted(): boolean {
+    return this.cancelled || (this.options.synthesisOptions?.signal?.aborted ?? false);
+  }
+
+  private acquireSlot(): Promise<void> {
+    const limit = Math.max(1, Math.floor(this.options.maxConcurrency));
+    if (this.active < limit) {
+      this.active++;
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => {
+      this.waiting.push(() => {
+        this.active++;
+        resolve();
+      });
+    });
+  }
+
+  private releaseSlot(): void {
+    this.active--;
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    }
+  }
+}
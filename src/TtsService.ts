@@ -15,9 +15,15 @@ export interface TtsResult {
 
 export interface TtsSynthesisOptions {
   voiceInstructions?: string;
+  signal?: AbortSignal;
 }
 
 export class TtsService {
+  /**
+   * `getFetch` may supply a fetch to use instead of the global one (e.g. the cassette)
+   */
+  constructor(private readonly getFetch?: () => typeof fetch | undefined) {}
+
   async synthesize(text: string, config: TtsConfig, options?: TtsSynthesisOptions): Promise<TtsResult | null> {
     if (!config.enabled) {
       return null;
@@ -55,7 +61,8 @@ export class TtsService {
       requestBody.instructions = instructions;
     }
 
-    const response = await fetch(endpoint, {
+    const send = this.getFetch?.() ?? fetch;
+    const response = await send(endpoint, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -63,6 +70,7 @@ export class TtsService {
         Authorization: `Bearer ${config.apiKey}`,
       },
       body: JSON.stringify(requestBody),
+      signal: options?.signal,
     });
 
     if (!response.ok) {
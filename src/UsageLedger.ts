@@ -0,0 +1,243 @@
+import * as vscode from 'vscode';
+import type { AIMessage } from '@langchain/core/messages';
+import type { ChatGeneration, LLMResult } from '@langchain/core/outputs';
+import { BaseCallbackHandler } from '@langchain/core/callbacks/base';
+
+export type UsageRole = 'main' | 'fast' | 'tts';
+
+/**
+ * Aggregated usage for one day, source and model
+ */
+export interface UsageEntry {
+  day: string;
+  /** Plugin id, or 'user', 'expression', 'memory', 'history' */
+  source: string;
+  model: string;
+  role: UsageRole;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  /** Characters sent to text-to-speech */
+  characters: number;
+}
+
+/**
+ * Optional user-defined prices in USD
+ */
+export interface ModelPrice {
+  /** Price per 1M input tokens */
+  input?: number;
+  /** Price per 1M output tokens */
+  output?: number;
+  /** Price per 1M text-to-speech characters */
+  characters?: number;
+}
+
+interface UsageLedgerState {
+  version: 1;
+  entries: UsageEntry[];
+}
+
+const STATE_KEY = 'ani-vscode.usageLedger';
+const RETENTION_DAYS = 400;
+
+function toDayKey(date: Date): string {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, '0');
+  const d = String(date.getDate()).padStart(2, '0');
+  return `${y}-${m}-${d}`;
+}
+
+function extractUsage(output: LLMResult): { inputTokens: number; outputTokens: number } | null {
+  let inputTokens = 0;
+  let outputTokens = 0;
+  let found = false;
+  for (const generation of output.generations.flat()) {
+    const usage = ((generation as ChatGeneration).message as AIMessage | undefined)?.usage_metadata;
+    if (usage) {
+      inputTokens += usage.input_tokens ?? 0;
+      outputTokens += usage.output_tokens ?? 0;
+      found = true;
+    }
+  }
+  if (found) {
+    return { inputTokens, outputTokens };
+  }
+  // Older integrations only report usage in llmOutput
+  const tokenUsage = output.llmOutput?.tokenUsage ?? output.llmOutput?.estimatedTokenUsage;
+  if (tokenUsage) {
+    return { inputTokens: tokenUsage.promptTokens ?? 0, outputTokens: tokenUsage.completionTokens ?? 0 };
+  }
+  return null;
+}
+
+/**
+ * Records token and TTS usage in globalState, broken down by day, source and model
+ */
+export class UsageLedger {
+  private budgetWarningMonth: string | null = null;
+
+  constructor(private readonly state: vscode.Memento, private readonly logger?: vscode.OutputChannel) {}
+
+  /**
+   * LangChain callbacks that record the usage of every LLM call they are attached to
+   */
+  createCallbacks(source: string, model: string, role: UsageRole): BaseCallbackHandler[] {
+    return [
+      BaseCallbackHandler.fromMethods({
+        handleLLMEnd: (output: LLMResult) => {
+          const usage = extractUsage(output);
+          this.record({ source, model, role, calls: 1, inputTokens: usage?.inputTokens ?? 0, outputTokens: usage?.outputTokens ?? 0, characters: 0 });
+        },
+      }),
+    ];
+  }
+
+  /**
+   * Record characters sent to text-to-speech
+   */
+  recordTts(source: string, model: string, characters: number): void {
+    this.record({ source, model, role: 'tts', calls: 1, inputTokens: 0, outputTokens: 0, characters });
+  }
+
+  /**
+   * All recorded entries
+   */
+  getEntries(): UsageEntry[] {
+    return this.readState().entries;
+  }
+
+  /**
+   * Entries for the month containing `date` (defaults to now)
+   */
+  getMonthEntries(date: Date = new Date()): UsageEntry[] {
+    const prefix = toDayKey(date).slice(0, 7);
+    return this.getEntries().filter((entry) => entry.day.startsWith(prefix));
+  }
+
+  /**
+   * Cost of an entry in USD using the configured prices (0 when no price is set)
+   */
+  getCost(entry: UsageEntry, config: vscode.WorkspaceConfiguration): number {
+    const prices = config.get<Record<string, ModelPrice>>('usage.prices', {}) ?? {};
+    const price = prices[entry.model];
+    if (!price) {
+      return 0;
+    }
+    return (
+      (entry.inputTokens * (price.input ?? 0) +
+        entry.outputTokens * (price.output ?? 0) +
+        entry.characters * (price.characters ?? 0)) /
+      1_000_000
+    );
+  }
+
+  /**
+   * Total cost of the current month in USD
+   */
+  getMonthCost(config: vscode.WorkspaceConfiguration): number {
+    return this.getMonthEntries().reduce((sum, entry) => sum + this.getCost(entry, config), 0);
+  }
+
+  /**
+   * Whether the current month's cost has reached `ani-vscode.usage.monthlyBudget`
+   */
+  isOverBudget(config: vscode.WorkspaceConfiguration): boolean {
+    const budget = config.get<number>('usage.monthlyBudget', 0);
+    if (!budget || budget <= 0) {
+      return false;
+    }
+    const overBudget = this.getMonthCost(config) >= budget;
+    const month = toDayKey(new Date()).slice(0, 7);
+    if (overBudget && this.budgetWarningMonth !== month) {
+      this.budgetWarningMonth = month;
+      this.logger?.appendLine(`[Usage] Monthly budget of $${budget.toFixed(2)} reached; pausing automatic comments`);
+      void vscode.window
+        .showWarningMessage(
+          `Ani reached this month's budget of $${budget.toFixed(2)}. Automatic comments are paused until next month; Ani still answers you.`,
+          'Show Usage'
+        )
+        .then((choice) => {
+          if (choice === 'Show Usage') {
+            void vscode.commands.executeCommand('ani-vscode.showUsage');
+          }
+        });
+    }
+    return overBudget;
+  }
+
+  /**
+   * Render a markdown report of this month's usage
+   */
+  renderReport(config: vscode.WorkspaceConfiguration): string {
+    const now = new Date();
+    const month = toDayKey(now).slice(0, 7);
+    const entries = this.getMonthEntries(now);
+    const budget = config.get<number>('usage.monthlyBudget', 0);
+    const total = entries.reduce((sum, entry) => sum + this.getCost(entry, config), 0);
+    const formatCost = (cost: number) => `$${cost.toFixed(cost < 1 ? 4 : 2)}`;
+
+    const group = (keyOf: (entry: UsageEntry) => string) => {
+      const rows = new Map<string, { calls: number; input: number; output: number; characters: number; cost: number }>();
+      for (const entry of entries) {
+        const key = keyOf(entry);
+        const row = rows.get(key) ?? { calls: 0, input: 0, output: 0, characters: 0, cost: 0 };
+        row.calls += entry.calls;
+        row.input += entry.inputTokens;
+        row.output += entry.outputTokens;
+        row.characters += entry.characters;
+        row.cost += this.getCost(entry, config);
+        rows.set(key, row);
+      }
+      const lines = [...rows.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([key, row]) => `| ${key} | ${row.calls} | ${row.input} | ${row.output} | ${row.characters} | ${formatCost(row.cost)} |`);
+      return ['| | Calls | Input tokens | Output tokens | TTS characters | Cost |', '| --- | --- | --- | --- | --- | --- |', ...lines].join('\n');
+    };
+
+    const sections = [
+      `# Ani usage for ${month}`,
+      `Total cost: **${formatCost(total)}**` +
+        (budget > 0 ? ` of ${formatCost(budget)} monthly budget${total >= budget ? ' (exceeded, automatic comments paused)' : ''}` : ''),
+    ];
+    if (entries.length === 0) {
+      sections.push('No usage recorded this month.');
+    } else {
+      sections.push('## By day', group((entry) => entry.day));
+      sections.push('## By plugin', group((entry) => entry.source));
+      sections.push('## By model', group((entry) => `${entry.model} (${entry.role})`));
+    }
+    sections.push(
+      '_Costs use the prices in `ani-vscode.usage.prices` (USD per 1M tokens or TTS characters); models without a price count as free._'
+    );
+    return sections.join('\n\n') + '\n';
+  }
+
+  private record(usage: Omit<UsageEntry, 'day'>): void {
+    const day = toDayKey(new Date());
+    const state = this.readState();
+    const existing = state.entries.find(
+      (entry) => entry.day === day && entry.source === usage.source && entry.model === usage.model && entry.role === usage.role
+    );
+    if (existing) {
+      existing.calls += usage.calls;
+      existing.inputTokens += usage.inputTokens;
+      existing.outputTokens += usage.outputTokens;
+      existing.characters += usage.characters;
+    } else {
+      state.entries.push({ day, ...usage });
+    }
+
+    const cutoff = toDayKey(new Date(Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000));
+    state.entries = state.entries.filter((entry) => entry.day >= cutoff);
+    void this.state.update(STATE_KEY, state);
+  }
+
+  private readState(): UsageLedgerState {
+    const stored = this.state.get<UsageLedgerState>(STATE_KEY);
+    if (!stored || !Array.isArray(stored.entries)) {
+      return { version: 1, entries: [] };
+    }
+    return { version: 1, entries: stored.entries.map((entry) => ({ ...entry })) };
+  }
+}
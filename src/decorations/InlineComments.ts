@@ -0,0 +1,187 @@
+import * as vscode from 'vscode';
+
+/**
+ * Where in the code a reply is about
+ */
+export interface CommentAnchor {
+  uri: vscode.Uri;
+  /** 0-based line */
+  line: number;
+}
+
+interface InlineComment extends CommentAnchor {
+  markdown: string;
+}
+
+interface PendingAnchor {
+  anchor: CommentAnchor;
+  /** Where the anchored line is now, or undefined once it was edited */
+  line: number | undefined;
+}
+
+// Longer replies are cut in the decoration; the hover shows them in full
+const MAX_DECORATION_CHARS = 90;
+
+/**
+ * One line of plain text for the after-line decoration
+ */
+function summarize(markdown: string): string {
+  const plain = markdown
+    .replace(/```[\s\S]*?```/g, ' ')
+    .replace(/[*_`#>]+/g, '')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return plain.length > MAX_DECORATION_CHARS ? `${plain.slice(0, MAX_DECORATION_CHARS - 1).trimEnd()}…` : plain;
+}
+
+/**
+ * Where `line` is after `changes`, or undefined when one of them touches it
+ */
+function followChanges(line: number, changes: readonly vscode.TextDocumentContentChangeEvent[]): number | undefined {
+  let result = line;
+  for (const change of changes) {
+    if (change.range.start.line <= line && change.range.end.line >= line) {
+      return undefined;
+    }
+    if (change.range.end.line < line) {
+      const addedLines = change.text.split('\n').length - 1;
+      result += addedLines - (change.range.end.line - change.range.start.line);
+    }
+  }
+  return result;
+}
+
+/**
+ * Shows Ani's latest comment on a line as an after-line decoration, with the full reply on hover
+ * Enabled by `ani-vscode.plugins.codeReview.inlineComments`; the comment goes away once its line is edited
+ */
+export class InlineComments implements vscode.Disposable {
+  private readonly decorationType = vscode.window.createTextEditorDecorationType({
+    after: {
+      margin: '0 0 0 2em',
+      color: new vscode.ThemeColor('editorCodeLens.foreground'),
+      fontStyle: 'italic',
+    },
+  });
+  private current: InlineComment | undefined;
+  private pending: PendingAnchor | undefined;
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(private readonly logger?: vscode.OutputChannel) {
+    this.disposables.push(
+      this.decorationType,
+      vscode.languages.registerHoverProvider({ scheme: 'file' }, { provideHover: (doc, position) => this.provideHover(doc, position) }),
+      vscode.workspace.onDidChangeTextDocument((event) => this.onDocumentChanged(event)),
+      vscode.window.onDidChangeVisibleTextEditors(() => this.render()),
+      vscode.workspace.onDidChangeConfiguration((event) => {
+        if (event.affectsConfiguration('ani-vscode.plugins.codeReview.inlineComments') && !this.isEnabled()) {
+          this.clear();
+        }
+      })
+    );
+  }
+
+  /**
+   * Follow edits around `anchor` while the reply about it is generated, so `show` puts the reply
+   * on the line it moved to, or drops it if that line was edited
+   * Only the latest anchor is followed, since one reply is generated at a time
+   */
+  track(anchor: CommentAnchor): void {
+    this.pending = { anchor, line: anchor.line };
+  }
+
+  /**
+   * Replace the shown comment with a new reply, if inline comments are enabled
+   */
+  show(anchor: CommentAnchor, markdown: string): void {
+    let line: number | undefined = anchor.line;
+    if (this.pending?.anchor === anchor) {
+      line = this.pending.line;
+      this.pending = undefined;
+    }
+    if (!this.isEnabled() || !markdown.trim()) {
+      return;
+    }
+    if (line === undefined) {
+      this.logger?.appendLine('[InlineComments] Skipped a comment because its line was edited while Ani was thinking');
+      return;
+    }
+    this.current = { uri: anchor.uri, line, markdown };
+    this.render();
+  }
+
+  clear(): void {
+    if (!this.current) {
+      return;
+    }
+    this.current = undefined;
+    this.render();
+  }
+
+  dispose(): void {
+    this.current = undefined;
+    this.pending = undefined;
+    this.disposables.forEach((disposable) => disposable.dispose());
+    this.disposables = [];
+  }
+
+  private isEnabled(): boolean {
+    return vscode.workspace.getConfiguration('ani-vscode').get<boolean>('plugins.codeReview.inlineComments', false);
+  }
+
+  private render(): void {
+    const comment = this.current;
+    for (const editor of vscode.window.visibleTextEditors) {
+      const isTarget = comment !== undefined && editor.document.uri.toString() === comment.uri.toString();
+      if (!isTarget || comment.line >= editor.document.lineCount) {
+        editor.setDecorations(this.decorationType, []);
+        continue;
+      }
+      const end = editor.document.lineAt(comment.line).range.end;
+      editor.setDecorations(this.decorationType, [
+        {
+          range: new vscode.Range(end, end),
+          renderOptions: { after: { contentText: `💬 Ani: ${summarize(comment.markdown)}` } },
+        },
+      ]);
+    }
+  }
+
+  private provideHover(doc: vscode.TextDocument, position: vscode.Position): vscode.Hover | undefined {
+    const comment = this.current;
+    if (!comment || position.line !== comment.line || doc.uri.toString() !== comment.uri.toString()) {
+      return undefined;
+    }
+    const content = new vscode.MarkdownString(`**💬 Ani**\n\n${comment.markdown}`);
+    return new vscode.Hover(content, doc.lineAt(comment.line).range);
+  }
+
+  /**
+   * Drop the comment when its line is edited, and follow it when lines are added or removed above it
+   */
+  private onDocumentChanged(event: vscode.TextDocumentChangeEvent): void {
+    if (event.contentChanges.length === 0) {
+      return;
+    }
+    const uri = event.document.uri.toString();
+
+    const pending = this.pending;
+    if (pending && pending.line !== undefined && pending.anchor.uri.toString() === uri) {
+      pending.line = followChanges(pending.line, event.contentChanges);
+    }
+
+    const comment = this.current;
+    if (!comment || comment.uri.toString() !== uri) {
+      return;
+    }
+    const line = followChanges(comment.line, event.contentChanges);
+    if (line === undefined) {
+      this.logger?.appendLine('[InlineComments] Cleared the comment because its line was edited');
+      this.clear();
+    } else if (line !== comment.line) {
+      comment.line = line;
+      this.render();
+    }
+  }
+}
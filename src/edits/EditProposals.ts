@@ -0,0 +1,163 @@
+import * as vscode from 'vscode';
+
+/**
+ * A replacement for a range of whole lines, suggested by the model and waiting for the user
+ */
+export interface EditProposal {
+  id: string;
+  uri: vscode.Uri;
+  /** Workspace-relative path for display */
+  filePath: string;
+  /** First and last replaced line (1-based, inclusive) */
+  startLine: number;
+  endLine: number;
+  /** The lines as they were when the edit was proposed */
+  original: string;
+  replacement: string;
+  description?: string;
+  /** Document version the proposal was made against; any later change makes it stale */
+  documentVersion: number;
+}
+
+/**
+ * What the webview shows for a proposal
+ */
+export type EditProposalView = Omit<EditProposal, 'uri' | 'documentVersion'>;
+
+export type EditApplyStatus = 'applied' | 'stale' | 'failed';
+
+export interface EditApplyResult {
+  status: EditApplyStatus;
+  message?: string;
+}
+
+// Proposals nobody acted on are dropped once this many newer ones exist
+const MAX_PROPOSALS = 20;
+
+function normalizeLine(line: string): string {
+  return line.trim();
+}
+
+/**
+ * Find `originalLines` in the document, preferring the occurrence closest to `nearLine` (0-based)
+ * Lines are compared without surrounding whitespace, since models often get indentation wrong
+ */
+export function locateLines(doc: vscode.TextDocument, originalLines: string[], nearLine: number): number | undefined {
+  const wanted = originalLines.map(normalizeLine);
+  const matchesAt = (start: number) => wanted.every((line, offset) => normalizeLine(doc.lineAt(start + offset).text) === line);
+
+  let best: number | undefined;
+  for (let start = 0; start + wanted.length <= doc.lineCount; start++) {
+    if (matchesAt(start) && (best === undefined || Math.abs(start - nearLine) < Math.abs(best - nearLine))) {
+      best = start;
+    }
+  }
+  return best;
+}
+
+function getLinesRange(doc: vscode.TextDocument, startLine: number, endLine: number): vscode.Range {
+  return new vscode.Range(startLine - 1, 0, endLine - 1, doc.lineAt(endLine - 1).text.length);
+}
+
+/**
+ * Code edits proposed by the model, applied only when the user accepts them
+ */
+export class EditProposals {
+  private proposals = new Map<string, EditProposal>();
+  private pending: EditProposal[] = [];
+  private nextId = 0;
+
+  constructor(private readonly logger?: vscode.OutputChannel) {}
+
+  /**
+   * Record a proposal; it is shown with the reply that is currently being generated
+   */
+  add(proposal: Omit<EditProposal, 'id'>): EditProposal {
+    const stored: EditProposal = { ...proposal, id: `edit-${++this.nextId}` };
+    this.proposals.set(stored.id, stored);
+    this.pending.push(stored);
+    for (const id of this.proposals.keys()) {
+      if (this.proposals.size <= MAX_PROPOSALS) {
+        break;
+      }
+      this.proposals.delete(id);
+    }
+    return stored;
+  }
+
+  /**
+   * Proposals made since the last call, ready to attach to the reply
+   */
+  takePending(): EditProposalView[] {
+    const pending = this.pending.filter((proposal) => this.proposals.has(proposal.id));
+    this.pending = [];
+    return pending.map(({ uri, documentVersion, ...view }) => view);
+  }
+
+  /**
+   * Forget proposals of a reply that was never shown
+   */
+  discardPending(): void {
+    for (const proposal of this.pending) {
+      this.proposals.delete(proposal.id);
+    }
+    this.pending = [];
+  }
+
+  reject(id: string): void {
+    this.proposals.delete(id);
+  }
+
+  /**
+   * Apply a proposal as an undoable workspace edit, unless the document changed since it was proposed
+   */
+  async apply(id: string): Promise<EditApplyResult> {
+    const proposal = this.proposals.get(id);
+    if (!proposal) {
+      return { status: 'failed', message: 'This suggestion is no longer available.' };
+    }
+    this.proposals.delete(id);
+
+    let doc: vscode.TextDocument;
+    try {
+      doc = await vscode.workspace.openTextDocument(proposal.uri);
+    } catch (err) {
+      return { status: 'failed', message: `Could not open ${proposal.filePath}: ${err instanceof Error ? err.message : String(err)}` };
+    }
+
+    // The version check catches any typing; the text check also covers a document that was closed and reopened
+    const stale =
+      doc.version !== proposal.documentVersion ||
+      proposal.endLine > doc.lineCount ||
+      doc.getText(getLinesRange(doc, proposal.startLine, proposal.endLine)) !== proposal.original;
+    if (stale) {
+      this.logger?.appendLine(`[Edits] Not applying ${id}: ${proposal.filePath} changed since it was suggested`);
+      return { status: 'stale', message: `${proposal.filePath} changed since this was suggested.` };
+    }
+
+    // An empty replacement removes the lines, including their line break
+    const range =
+      proposal.replacement === '' && proposal.endLine < doc.lineCount
+        ? new vscode.Range(proposal.startLine - 1, 0, proposal.endLine, 0)
+        : getLinesRange(doc, proposal.startLine, proposal.endLine);
+    const edit = new vscode.WorkspaceEdit();
+    edit.replace(doc.uri, range, proposal.replacement);
+    if (!(await vscode.workspace.applyEdit(edit))) {
+      return { status: 'failed', message: `VS Code could not edit ${proposal.filePath}.` };
+    }
+    this.logger?.appendLine(`[Edits] Applied ${id} to ${proposal.filePath}:${proposal.startLine}-${proposal.endLine}`);
+
+    // Show the result so it can be reviewed and undone, in the editor already showing the file if there is one
+    const startLine = Math.min(proposal.startLine - 1, doc.lineCount - 1);
+    const endLine = Math.min(startLine + proposal.replacement.split('\n').length - 1, doc.lineCount - 1);
+    const selection = new vscode.Range(startLine, 0, endLine, doc.lineAt(endLine).text.length);
+    const editor = vscode.window.visibleTextEditors.find((visible) => visible.document === doc);
+    await vscode.window.showTextDocument(doc, {
+      viewColumn: editor?.viewColumn ?? vscode.ViewColumn.One,
+      selection,
+      preserveFocus: true,
+      preview: false,
+    });
+    return { status: 'applied' };
+  }
+}
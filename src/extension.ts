@@ -12,6 +12,17 @@ import { BreakReminderPlugin } from './plugins/BreakReminderPlugin';
 import { AgentLoop } from './AgentLoop';
 import { TelemetryService } from './TelemetryService';
 import { registerGitPushListener } from './plugins/git/GitIntegration';
+import { MemoryStore } from './memory/MemoryStore';
+import { registerMemoryCommands } from './memory/memoryCommands';
+import { UsageLedger } from './UsageLedger';
+import { registerPromptTemplateCommands } from './prompts/promptTemplateCommands';
+import { registerSelectionCommands, SELECTION_PROMPT_TEMPLATES } from './selection/selectionCommands';
+import { InlineComments } from './decorations/InlineComments';
+import { ReviewThreads } from './review/ReviewThreads';
+import { registerReviewCommands, REVIEW_PROMPT_TEMPLATES } from './review/reviewCommands';
+import { ReportFindingTool } from './tools/review/ReportFindingTool';
+import { AniStatusBar } from './status/AniStatusBar';
+import { registerStatusCommands } from './status/statusCommands';
 
 const TELEMETRY_CONNECTION_STRING = 'InstrumentationKey=6bc6947c-fe8b-473e-9caf-bfc436ebfb14;IngestionEndpoint=https://eastasia-0.in.applicationinsights.azure.com/;LiveEndpoint=https://eastasia.livediagnostics.monitor.azure.com/;ApplicationId=71da0b5b-cc56-4aec-b943-953b69623c5d';
 
@@ -21,6 +32,48 @@ export function activate(context: vscode.ExtensionContext) {
   context.subscriptions.push({ dispose: () => telemetry.dispose() });
   const outputChannel = vscode.window.createOutputChannel('Ani VSCode');
   context.subscriptions.push(outputChannel);
+  const memoryStore = new MemoryStore(context.globalStorageUri, outputChannel);
+  context.subscriptions.push(registerMemoryCommands(memoryStore));
+  const usageLedger = new UsageLedger(context.globalState, outputChannel);
+  const inlineComments = new InlineComments(outputChannel);
+  context.subscriptions.push(inlineComments);
+  const reviewThreads = new ReviewThreads(context.workspaceState, outputChannel);
+  context.subscriptions.push(reviewThreads);
+  const statusBar = new AniStatusBar();
+  context.subscriptions.push(statusBar);
+  context.subscriptions.push(
+    vscode.commands.registerCommand('ani-vscode.showUsage', async () => {
+      const report = usageLedger.renderReport(vscode.workspace.getConfiguration('ani-vscode'));
+      const doc = await vscode.workspace.openTextDocument({ language: 'markdown', content: report });
+      await vscode.commands.executeCommand('markdown.showPreview', doc.uri);
+    })
+  );
+  // Plugins only describe their templates here, so fresh instances are never activated
+  context.subscriptions.push(
+    registerPromptTemplateCommands(() => [
+      new CodeReviewPlugin(),
+      new HackerNewsPlugin(),
+      new RSSFeedPlugin(),
+      new WeatherPlugin(),
+      new BreakReminderPlugin(),
+    ], [...SELECTION_PROMPT_TEMPLATES, ...REVIEW_PROMPT_TEMPLATES])
+  );
+  // The open panel and its agent loop, if any
+  let activeSession: { panel: vscode.WebviewPanel; agentLoop: AgentLoop } | undefined;
+  // Show the panel, creating it if needed, and return its agent loop
+  const openAgentLoop = async () => {
+    if (activeSession) {
+      activeSession.panel.reveal(undefined, true);
+    } else {
+      await vscode.commands.executeCommand('ani-vscode.showPanel');
+    }
+    return activeSession?.agentLoop;
+  };
+  context.subscriptions.push(
+    registerSelectionCommands(openAgentLoop, reviewThreads),
+    registerReviewCommands(reviewThreads, openAgentLoop),
+    registerStatusCommands(openAgentLoop)
+  );
   const disposable = vscode.commands.registerCommand('ani-vscode.showPanel', () => {
     outputChannel.appendLine('--- Ani panel opened ---');
     // Retrieve last panel position, defaulting to Beside if not previously saved
@@ -181,6 +234,13 @@ export function activate(context: vscode.ExtensionContext) {
     agentLoop.setExtensionPath(context.extensionPath);
     agentLoop.setCharacter(character);
     agentLoop.setTelemetryService(telemetry);
+    agentLoop.setMemoryStore(memoryStore);
+    agentLoop.setUsageLedger(usageLedger);
+    agentLoop.setInlineComments(inlineComments);
+    agentLoop.getToolRegistry().register(new ReportFindingTool(reviewThreads));
+    const session = { panel, agentLoop };
+    activeSession = session;
+    statusBar.attach(agentLoop);
 
     // Allow plugins to hook into VS Code events immediately
     const activationEditor = vscode.window.activeTextEditor;
@@ -211,9 +271,9 @@ export function activate(context: vscode.ExtensionContext) {
     const focusListener = vscode.window.onDidChangeActiveTextEditor((ed) => {
       postCaret();
       touchFile(ed?.document?.uri);
-      // Clear chat history when switching to a different file
+      // Each file keeps its own conversation thread, so only cancel the stale reply
       if (ed && ed.document) {
-        agentLoop.resetChatHistory();
+        agentLoop.cancelCurrentTurn('fileSwitch', ed.document.uri.fsPath);
         codeReviewPlugin.resetAnchor();
         agentLoop.trigger('codeReview');
       }
@@ -256,20 +316,8 @@ export function activate(context: vscode.ExtensionContext) {
     // Initial setup
     setupPeriodicTrigger();
     
-    // Test connectivity immediately when panel opens
-    (async () => {
-      const result = await agentLoop.testConnectivity();
-      if (!result.success) {
-        // Show setup guide immediately if connectivity fails
-        panel.webview.postMessage({
-          type: 'setupError',
-          message: result.error || 'Failed to connect to LLM service'
-        });
-      } else {
-        // Notify webview that connection is working
-        panel.webview.postMessage({ type: 'connectionSuccess' });
-      }
-    })();
+    // Test connectivity immediately when panel opens; a failure shows the setup guide
+    void agentLoop.checkConnection();
     
     // Listen for configuration changes
     const configListener = vscode.workspace.onDidChangeConfiguration((e) => {
@@ -300,34 +348,51 @@ export function activate(context: vscode.ExtensionContext) {
           agentLoop.triggerRandomPlugin();
         }, 500);
       } else if (message.type === 'openSettings') {
-        // Open VSCode settings for ani-vscode
-        vscode.commands.executeCommand('workbench.action.openSettings', 'ani-vscode');
+        // Open VSCode settings for ani-vscode, optionally at a specific key
+        const query = typeof message.key === 'string' && message.key.startsWith('ani-vscode.') ? message.key : 'ani-vscode';
+        vscode.commands.executeCommand('workbench.action.openSettings', query);
+      } else if (message.type === 'pullModel' && typeof message.model === 'string') {
+        // Only plain model names reach the terminal
+        if (/^[\w.\-/:]+$/.test(message.model)) {
+          const terminal = vscode.window.createTerminal('Ani: Ollama');
+          terminal.show();
+          terminal.sendText(`ollama pull ${message.model}`);
+        }
+      } else if (message.type === 'shrinkHistoryAndRetry') {
+        void agentLoop.shrinkHistoryAndRetry();
       } else if (message.type === 'retryConnection') {
         // Test connectivity immediately
         (async () => {
-          const result = await agentLoop.testConnectivity();
-          if (!result.success) {
-            // Show error again if still failing
-            panel.webview.postMessage({
-              type: 'setupError',
-              message: result.error || 'Failed to connect to LLM service'
-            });
-          } else {
-            // Connection successful, trigger a plugin to show it's working
-            panel.webview.postMessage({ type: 'connectionSuccess' });
+          if (await agentLoop.checkConnection()) {
+            // Connection successful: run the turn that failed again, or trigger a plugin to show it's working
             setTimeout(() => {
-              agentLoop.triggerRandomPlugin();
+              if (!agentLoop.retryFailedTurn()) {
+                agentLoop.triggerRandomPlugin();
+              }
             }, 500);
           }
         })();
+      } else if (message.type === 'dismissSpeech') {
+        // User closed the speech bubble
+        agentLoop.cancelCurrentTurn('dismissSpeech');
       } else if (message.type === 'audioCapability') {
         agentLoop.setAudioCapability(Boolean(message.canPlay));
-      } else if (message.type === 'quickReplySelected' && typeof message.text === 'string') {
+      } else if ((message.type === 'userMessage' || message.type === 'quickReplySelected') && typeof message.text === 'string') {
+        // Typed messages and quick replies both jump the queue and replace whatever Ani is saying
         const replyText = message.text.trim();
         if (replyText.length > 0) {
+          agentLoop.cancelCurrentTurn('userMessage');
           agentLoop.enqueueUserMessage(replyText, { priority: true });
           agentLoop.trigger();
         }
+      } else if (message.type === 'requestHistory') {
+        agentLoop.postTranscript();
+      } else if (message.type === 'replayAudio' && typeof message.entryId === 'string') {
+        void agentLoop.replayTranscriptAudio(message.entryId);
+      } else if (message.type === 'applyEdit' && typeof message.id === 'string') {
+        void agentLoop.applyEditProposal(message.id);
+      } else if (message.type === 'rejectEdit' && typeof message.id === 'string') {
+        agentLoop.rejectEditProposal(message.id);
       } else if (message.type === 'requestChatHistoryExport') {
         try {
           const exportData = agentLoop.getChatHistoryForExport();
@@ -363,6 +428,10 @@ export function activate(context: vscode.ExtensionContext) {
       
       // Dispose of the agent loop to clean up its timers
       agentLoop.dispose();
+      statusBar.detach(agentLoop);
+      if (activeSession === session) {
+        activeSession = undefined;
+      }
     });
 
     // Register Git push listener asynchronously (does not block panel creation)
@@ -0,0 +1,197 @@
+import * as vscode from 'vscode';
+
+export type MemoryKind = 'preference' | 'mistake' | 'task' | 'fact';
+
+/**
+ * A single long-term fact about the user or a project
+ */
+export interface MemoryItem {
+  id: string;
+  kind: MemoryKind;
+  text: string;
+  /** Workspace folder URI for project facts; undefined for facts about the user */
+  workspace?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+interface MemoryFile {
+  version: 1;
+  memories: MemoryItem[];
+}
+
+const MEMORY_FILE_NAME = 'memories.json';
+const MEMORY_KINDS: MemoryKind[] = ['preference', 'mistake', 'task', 'fact'];
+
+/**
+ * Key identifying the current workspace for project-scoped memories
+ */
+export function currentWorkspaceKey(): string | undefined {
+  return vscode.workspace.workspaceFolders?.[0]?.uri.toString();
+}
+
+/**
+ * Check whether a value is a known memory kind
+ */
+export function isMemoryKind(value: unknown): value is MemoryKind {
+  return typeof value === 'string' && (MEMORY_KINDS as string[]).includes(value);
+}
+
+function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+/**
+ * Persists long-term memories as JSON in the extension's global storage
+ */
+export class MemoryStore {
+  private memories: MemoryItem[] | null = null;
+  private loading: Promise<MemoryItem[]> | null = null;
+  private writeChain: Promise<void> = Promise.resolve();
+  private readonly fileUri: vscode.Uri;
+
+  constructor(private readonly storageUri: vscode.Uri, private readonly logger?: vscode.OutputChannel) {
+    this.fileUri = vscode.Uri.joinPath(storageUri, MEMORY_FILE_NAME);
+  }
+
+  /**
+   * All memories, newest first
+   */
+  async list(): Promise<MemoryItem[]> {
+    const memories = await this.load();
+    return [...memories].sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  /**
+   * Memories that apply to the given workspace (user facts plus that workspace's project facts)
+   */
+  async listForWorkspace(workspace: string | undefined): Promise<MemoryItem[]> {
+    const memories = await this.list();
+    return memories.filter((memory) => !memory.workspace || memory.workspace === workspace);
+  }
+
+  /**
+   * Add new memories, skipping ones whose text is already stored
+   * Returns the memories that were actually added
+   */
+  async add(
+    items: Array<Pick<MemoryItem, 'kind' | 'text' | 'workspace'>>,
+    maxItems: number
+  ): Promise<MemoryItem[]> {
+    const memories = await this.load();
+    const known = new Set(memories.map((memory) => normalizeText(memory.text)));
+    const added: MemoryItem[] = [];
+    const now = Date.now();
+
+    for (const item of items) {
+      const text = item.text.trim();
+      const key = normalizeText(text);
+      if (!key || known.has(key)) {
+        continue;
+      }
+      known.add(key);
+      const memory: MemoryItem = {
+        id: `mem-${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+        kind: item.kind,
+        text,
+        workspace: item.workspace,
+        createdAt: now,
+        updatedAt: now,
+      };
+      memories.push(memory);
+      added.push(memory);
+    }
+
+    if (added.length === 0) {
+      return added;
+    }
+
+    // Drop the least recently updated memories beyond the limit
+    const limit = Math.max(1, Math.floor(maxItems));
+    if (memories.length > limit) {
+      memories.sort((a, b) => b.updatedAt - a.updatedAt);
+      memories.length = limit;
+    }
+
+    await this.save();
+    return added;
+  }
+
+  /**
+   * Replace the text of a memory
+   */
+  async update(id: string, text: string): Promise<boolean> {
+    const memories = await this.load();
+    const memory = memories.find((m) => m.id === id);
+    if (!memory) {
+      return false;
+    }
+    memory.text = text.trim();
+    memory.updatedAt = Date.now();
+    await this.save();
+    return true;
+  }
+
+  /**
+   * Forget memories by id
+   */
+  async remove(ids: string[]): Promise<number> {
+    const memories = await this.load();
+    const toRemove = new Set(ids);
+    const kept = memories.filter((memory) => !toRemove.has(memory.id));
+    const removed = memories.length - kept.length;
+    if (removed > 0) {
+      this.memories = kept;
+      await this.save();
+    }
+    return removed;
+  }
+
+  private async load(): Promise<MemoryItem[]> {
+    if (this.memories) {
+      return this.memories;
+    }
+    if (!this.loading) {
+      this.loading = this.readFile().then((memories) => {
+        this.memories = memories;
+        this.loading = null;
+        return memories;
+      });
+    }
+    return this.loading;
+  }
+
+  private async readFile(): Promise<MemoryItem[]> {
+    try {
+      const bytes = await vscode.workspace.fs.readFile(this.fileUri);
+      const parsed = JSON.parse(new TextDecoder('utf-8').decode(bytes)) as Partial<MemoryFile>;
+      if (!Array.isArray(parsed.memories)) {
+        return [];
+      }
+      return parsed.memories.filter(
+        (memory): memory is MemoryItem =>
+          Boolean(memory) && typeof memory.id === 'string' && typeof memory.text === 'string' && isMemoryKind(memory.kind)
+      );
+    } catch (error) {
+      if (!(error instanceof vscode.FileSystemError && error.code === 'FileNotFound')) {
+        this.logger?.appendLine(`[Memory][error] Failed to read ${this.fileUri.fsPath}: ${String(error)}`);
+      }
+      return [];
+    }
+  }
+
+  // Writes are chained so overlapping saves never interleave
+  private save(): Promise<void> {
+    const snapshot: MemoryFile = { version: 1, memories: [...(this.memories ?? [])] };
+    this.writeChain = this.writeChain
+      .then(async () => {
+        await vscode.workspace.fs.createDirectory(this.storageUri);
+        const bytes = new TextEncoder().encode(JSON.stringify(snapshot, null, 2));
+        await vscode.workspace.fs.writeFile(this.fileUri, bytes);
+      })
+      .catch((error) => {
+        this.logger?.appendLine(`[Memory][error] Failed to write ${this.fileUri.fsPath}: ${String(error)}`);
+      });
+    return this.writeChain;
+  }
+}
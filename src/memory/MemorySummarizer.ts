@@ -0,0 +1,112 @@
+import * as vscode from 'vscode';
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { HumanMessage } from '@langchain/core/messages';
+import { MemoryItem, MemoryKind, MemoryStore, isMemoryKind } from './MemoryStore';
+
+interface ExtractedMemory {
+  kind: MemoryKind;
+  scope: 'user' | 'project';
+  text: string;
+}
+
+const MAX_TRANSCRIPT_CHARS = 6000;
+const MAX_FACT_CHARS = 200;
+
+/**
+ * Uses a (fast) chat model to distill conversations into long-term memories
+ */
+export class MemorySummarizer {
+  constructor(private readonly store: MemoryStore, private readonly logger?: vscode.OutputChannel) {}
+
+  /**
+   * Extract durable facts from a conversation transcript and store the new ones
+   * Returns the memories that were added
+   */
+  async summarize(
+    model: BaseChatModel,
+    transcript: string,
+    workspace: string | undefined,
+    maxItems: number
+  ): Promise<MemoryItem[]> {
+    const trimmedTranscript = transcript.trim();
+    if (!trimmedTranscript) {
+      return [];
+    }
+
+    const known = await this.store.listForWorkspace(workspace);
+    const knownBlock = known.length > 0 ? known.map((memory) => `- ${memory.text}`).join('\n') : '(none)';
+    const prompt = `You maintain long-term memory for a coding assistant. Read the conversation and extract durable facts worth remembering in future sessions:
+- "preference": how the user likes to work (languages, frameworks, style, tone)
+- "mistake": errors or bad habits the user keeps repeating
+- "task": what the user is currently working on
+- "fact": other stable facts about the user or the project
+
+Use scope "user" for facts about the person and "project" for facts about this codebase. Skip small talk, one-off details and anything already known.
+
+Already known:
+${knownBlock}
+
+Conversation:
+${trimmedTranscript.slice(-MAX_TRANSCRIPT_CHARS)}
+
+Respond with ONLY a JSON array like [{"kind": "preference", "scope": "user", "text": "Prefers TypeScript over JavaScript"}]. Respond with [] if there is nothing new.`;
+
+    const response = await model.invoke([new HumanMessage(prompt)]);
+    const content = typeof response.content === 'string'
+      ? response.content
+      : response.content.map((part: any) => (typeof part?.text === 'string' ? part.text : '')).join('');
+    const extracted = this.parseResponse(content);
+    if (extracted.length === 0) {
+      return [];
+    }
+
+    const added = await this.store.add(
+      extracted.map((item) => ({
+        kind: item.kind,
+        text: item.text,
+        workspace: item.scope === 'project' ? workspace : undefined,
+      })),
+      maxItems
+    );
+    for (const memory of added) {
+      this.logger?.appendLine(`[Memory] Remembered (${memory.kind}): ${memory.text}`);
+    }
+    return added;
+  }
+
+  private parseResponse(content: string): ExtractedMemory[] {
+    const start = content.indexOf('[');
+    const end = content.lastIndexOf(']');
+    if (start === -1 || end <= start) {
+      return [];
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content.slice(start, end + 1));
+    } catch (error) {
+      this.logger?.appendLine(`[Memory][error] Could not parse summary: ${String(error)}`);
+      return [];
+    }
+    if (!Array.isArray(parsed)) {
+      return [];
+    }
+
+    const result: ExtractedMemory[] = [];
+    for (const entry of parsed) {
+      if (!entry || typeof entry !== 'object') {
+        continue;
+      }
+      const { kind, scope, text } = entry as Record<string, unknown>;
+      if (!isMemoryKind(kind) || typeof text !== 'string' || !text.trim()) {
+        continue;
+      }
+      result.push({
+        kind,
+        scope: scope === 'project' ? 'project' : 'user',
+        text: text.trim().slice(0, MAX_FACT_CHARS),
+      });
+    }
+    return result;
+  }
+}
@@ -0,0 +1,92 @@
+import * as vscode from 'vscode';
+import { MemoryItem, MemoryStore } from './MemoryStore';
+import { describeMemoryKind } from './memoryRecall';
+
+interface MemoryQuickPickItem extends vscode.QuickPickItem {
+  memory: MemoryItem;
+}
+
+function toQuickPickItems(memories: MemoryItem[]): MemoryQuickPickItem[] {
+  return memories.map((memory) => ({
+    label: memory.text,
+    description: describeMemoryKind(memory.kind),
+    detail: `${memory.workspace ? vscode.Uri.parse(memory.workspace).fsPath : 'All workspaces'} · updated ${new Date(memory.updatedAt).toLocaleString()}`,
+    memory,
+  }));
+}
+
+async function pickMemory(store: MemoryStore, placeHolder: string): Promise<MemoryItem | undefined> {
+  const memories = await store.list();
+  if (memories.length === 0) {
+    vscode.window.showInformationMessage('Ani has no memories yet.');
+    return undefined;
+  }
+  const picked = await vscode.window.showQuickPick(toQuickPickItems(memories), { placeHolder, matchOnDescription: true });
+  return picked?.memory;
+}
+
+async function editMemory(store: MemoryStore, memory: MemoryItem): Promise<void> {
+  const text = await vscode.window.showInputBox({
+    prompt: `Edit ${describeMemoryKind(memory.kind).toLowerCase()}`,
+    value: memory.text,
+    validateInput: (value) => (value.trim() ? undefined : 'Memory text cannot be empty. Use "Ani: Forget Memories" to delete it.'),
+  });
+  if (text !== undefined && text.trim() !== memory.text) {
+    await store.update(memory.id, text);
+  }
+}
+
+async function forgetMemories(store: MemoryStore, memories: MemoryItem[]): Promise<void> {
+  const confirm = await vscode.window.showWarningMessage(
+    memories.length === 1 ? `Forget "${memories[0].text}"?` : `Forget ${memories.length} memories?`,
+    { modal: true },
+    'Forget'
+  );
+  if (confirm === 'Forget') {
+    const removed = await store.remove(memories.map((memory) => memory.id));
+    vscode.window.showInformationMessage(`Ani forgot ${removed} ${removed === 1 ? 'memory' : 'memories'}.`);
+  }
+}
+
+/**
+ * Register the commands to list, edit and forget long-term memories
+ */
+export function registerMemoryCommands(store: MemoryStore): vscode.Disposable {
+  const listCommand = vscode.commands.registerCommand('ani-vscode.memory.list', async () => {
+    const memory = await pickMemory(store, 'Ani\'s memories — select one to edit or forget');
+    if (!memory) {
+      return;
+    }
+    const action = await vscode.window.showQuickPick(['Edit', 'Forget'], { placeHolder: memory.text });
+    if (action === 'Edit') {
+      await editMemory(store, memory);
+    } else if (action === 'Forget') {
+      await forgetMemories(store, [memory]);
+    }
+  });
+
+  const editCommand = vscode.commands.registerCommand('ani-vscode.memory.edit', async () => {
+    const memory = await pickMemory(store, 'Select a memory to edit');
+    if (memory) {
+      await editMemory(store, memory);
+    }
+  });
+
+  const forgetCommand = vscode.commands.registerCommand('ani-vscode.memory.forget', async () => {
+    const memories = await store.list();
+    if (memories.length === 0) {
+      vscode.window.showInformationMessage('Ani has no memories yet.');
+      return;
+    }
+    const picked = await vscode.window.showQuickPick(toQuickPickItems(memories), {
+      placeHolder: 'Select memories to forget',
+      canPickMany: true,
+      matchOnDescription: true,
+    });
+    if (picked && picked.length > 0) {
+      await forgetMemories(store, picked.map((item) => item.memory));
+    }
+  });
+
+  return vscode.Disposable.from(listCommand, editCommand, forgetCommand);
+}
@@ -0,0 +1,51 @@
+import { MemoryItem, MemoryKind } from './MemoryStore';
+
+const KIND_LABELS: Record<MemoryKind, string> = {
+  preference: 'Preference',
+  mistake: 'Recurring mistake',
+  task: 'Ongoing task',
+  fact: 'Fact',
+};
+
+function tokenize(text: string): Set<string> {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}_]{3,}/gu) ?? [];
+  return new Set(words);
+}
+
+/**
+ * Pick the memories most relevant to `query` by word overlap, preferring
+ * preferences and recently updated memories when scores tie
+ */
+export function selectRelevantMemories(memories: MemoryItem[], query: string, limit: number): MemoryItem[] {
+  if (limit <= 0 || memories.length === 0) {
+    return [];
+  }
+  const queryWords = tokenize(query);
+  const scored = memories.map((memory) => {
+    let overlap = 0;
+    for (const word of tokenize(memory.text)) {
+      if (queryWords.has(word)) {
+        overlap++;
+      }
+    }
+    const score = overlap * 2 + (memory.kind === 'preference' ? 1 : 0);
+    return { memory, score };
+  });
+  scored.sort((a, b) => b.score - a.score || b.memory.updatedAt - a.memory.updatedAt);
+  return scored.slice(0, limit).map(({ memory }) => memory);
+}
+
+/**
+ * Format memories as a block for the system prompt
+ */
+export function formatMemoryBlock(memories: MemoryItem[]): string {
+  const lines = memories.map((memory) => `- ${KIND_LABELS[memory.kind]}: ${memory.text}`);
+  return `What you remember about the user and this project from earlier sessions (use it naturally, do not recite it):\n${lines.join('\n')}`;
+}
+
+/**
+ * Human-readable label for a memory kind
+ */
+export function describeMemoryKind(kind: MemoryKind): string {
+  return KIND_LABELS[kind];
+}
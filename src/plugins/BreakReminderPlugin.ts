@@ -1,5 +1,19 @@
 import * as vscode from 'vscode';
-import { IPlugin, PluginContext, PluginMessage } from './IPlugin';
+import { IPlugin, PluginContext, PluginMessage, PromptTemplate } from './IPlugin';
+
+const REMINDER_TEMPLATE: PromptTemplate = {
+  id: 'breakReminder.reminder',
+  description: 'Nudge to take a break after a long coding streak',
+  variables: {
+    activeMinutes: 'Minutes of uninterrupted activity so far',
+    thresholdMinutes: 'Configured plugins.breakReminder.activeMinutes',
+  },
+  defaultTemplate: [
+    "I've been working steadily for about {{activeMinutes}} minutes, which is over my configured break reminder threshold of {{thresholdMinutes}} minutes.",
+    'In a friendly, upbeat tone, suggest I take a short break—maybe stretch, refill water, or rest my eyes for a moment.',
+    'Keep it concise (under 70 words) and acknowledge that a brief pause can improve focus when I get back.',
+  ].join('\n'),
+};
 
 /**
  * Reminds the user to take a quick break after long, uninterrupted coding streaks.
@@ -7,6 +21,7 @@ import { IPlugin, PluginContext, PluginMessage } from './IPlugin';
 export class BreakReminderPlugin implements IPlugin {
   readonly id = 'breakReminder';
   readonly name = 'Break Reminder';
+  readonly threadScope = 'global' as const;
 
   private static readonly IDLE_RESET_MS = 2 * 60 * 1000; // Reset streak after 2 minutes of inactivity
 
@@ -69,7 +84,11 @@ export class BreakReminderPlugin implements IPlugin {
     return now - this.sessionStart >= activeMs;
   }
 
-  async generateMessage(_context: PluginContext): Promise<PluginMessage | null> {
+  getPromptTemplates(): PromptTemplate[] {
+    return [REMINDER_TEMPLATE];
+  }
+
+  async generateMessage(context: PluginContext): Promise<PluginMessage | null> {
     const cfg = vscode.workspace.getConfiguration('ani-vscode');
     const activeMinutes = Math.max(1, cfg.get<number>('plugins.breakReminder.activeMinutes', 10) ?? 10);
 
@@ -85,11 +104,10 @@ export class BreakReminderPlugin implements IPlugin {
     this.sessionStart = now; // Reset streak so the next reminder waits for a new run
     this.lastActivity = now;
 
-    const userPrompt = [
-      `I've been working steadily for about ${activeDurationMinutes} minutes, which is over my configured break reminder threshold of ${activeMinutes} minutes.`,
-      'In a friendly, upbeat tone, suggest I take a short break—maybe stretch, refill water, or rest my eyes for a moment.',
-      'Keep it concise (under 70 words) and acknowledge that a brief pause can improve focus when I get back.'
-    ].join('\n');
+    const userPrompt = context.renderPrompt(REMINDER_TEMPLATE, {
+      activeMinutes: activeDurationMinutes,
+      thresholdMinutes: activeMinutes
+    });
 
     return {
       userPrompt,
@@ -1,5 +1,5 @@
 import * as vscode from 'vscode';
-import { IPlugin, PluginContext, PluginMessage } from './IPlugin';
+import { IPlugin, PluginContext, PluginMessage, PromptTemplate } from './IPlugin';
 
 type QueuedPrompt =
   | {
@@ -8,6 +8,76 @@ type QueuedPrompt =
       repositoryName?: string;
     };
 
+const SNIPPET_VARIABLES: Record<string, string> = {
+  filePath: 'Workspace-relative path of the active file',
+  language: 'VS Code language id of the active file',
+  line: 'Line of the caret (1-based)',
+  snippet: 'The two lines around the caret on each side',
+  hasCaretMarker: 'True when the snippet contains "..." marking the caret on a line with an error',
+};
+
+const CARET_NOTE =
+  '{{#if hasCaretMarker}}Important: The ellipsis is only added for you to know the position of the caret and not a part of the code\n\n{{/if}}';
+
+const ROAST_TEMPLATE: PromptTemplate = {
+  id: 'codeReview.roast',
+  description: 'First look at a region of code, with ten lines of surrounding context',
+  variables: {
+    ...SNIPPET_VARIABLES,
+    context: 'The ten lines around the caret on each side',
+    linesAbove: 'Number of file lines above the context',
+    linesBelow: 'Number of file lines below the context',
+  },
+  defaultTemplate: [
+    'File: {{filePath}}  |  Language: {{language}}  |  Line: {{line}}',
+    '',
+    'Context:',
+    '{{#if linesAbove}}({{linesAbove}} lines above)',
+    '{{/if}}```',
+    '{{context}}',
+    '```',
+    '{{#if linesBelow}}({{linesBelow}} lines below)',
+    '{{/if}}',
+    'Focused snippet:',
+    '```',
+    '{{snippet}}',
+    '```',
+    '',
+    `${CARET_NOTE}Roast the code above. Be concise, witty, and constructive.`,
+  ].join('\n'),
+};
+
+const CONTINUE_TEMPLATE: PromptTemplate = {
+  id: 'codeReview.continue',
+  description: 'Follow-up comment while the caret stays near the previously reviewed code',
+  variables: SNIPPET_VARIABLES,
+  defaultTemplate: [
+    'File: {{filePath}}  |  Language: {{language}}  |  Line: {{line}}',
+    'Snippet:',
+    '```',
+    '{{snippet}}',
+    '```',
+    `${CARET_NOTE}Continue roasting based on prior context. Be concise and witty.`,
+  ].join('\n'),
+};
+
+const COMMIT_COMPLIMENT_TEMPLATE: PromptTemplate = {
+  id: 'codeReview.commitCompliment',
+  description: 'Reaction to a successful git push',
+  variables: {
+    repository: 'Repository name, when known',
+    commitMessage: 'Message of the last pushed commit',
+  },
+  defaultTemplate: [
+    'Repository: {{#if repository}}{{repository}}{{else}}unknown{{/if}}',
+    'Last commit message:',
+    '```',
+    '{{commitMessage}}',
+    '```',
+    'Offer a warm, genuine compliment for the work reflected by this push. Then provide a brief, thoughtful comment on the commit message itself—call out anything clear, anything missing, or how it could be improved. Keep it upbeat, concise, and constructive.',
+  ].join('\n'),
+};
+
 /**
  * CodeReview plugin that analyzes and roasts code
  */
@@ -67,7 +137,7 @@ export class CodeReviewPlugin implements IPlugin {
       this.pendingPrompt = null;
 
       if (prompt.kind === 'commitCompliment') {
-        const userPrompt = this.createCommitComplimentPrompt({
+        const userPrompt = this.createCommitComplimentPrompt(context.renderPrompt, {
           commitMessage: prompt.commitMessage,
           repositoryName: prompt.repositoryName
         });
@@ -139,43 +209,22 @@ export class CodeReviewPlugin implements IPlugin {
       this.lastAnchorLine = pos.line;
     }
 
-    const ellipsisNote = hasErrorAtFocusedLine
-      ? 'Important: The ellipsis is only added for you to know the position of the caret and not a part of the code'
-      : '';
-
-    const instructionWithNote = (baseInstruction: string) =>
-      ellipsisNote ? `${ellipsisNote}\n\n${baseInstruction}` : baseInstruction;
-
-    const userPrompt = includeContext10
-      ? [
-          `File: ${filePath}  |  Language: ${language}  |  Line: ${pos.line + 1}`,
-          '',
-          'Context:',
-          ...(context10LinesAbove > 0 ? [`(${context10LinesAbove} lines above)`] : []),
-          '```',
-          context10.text,
-          '```',
-          ...(context10LinesBelow > 0 ? [`(${context10LinesBelow} lines below)`] : []),
-          '',
-          'Focused snippet:',
-          '```',
-          snippet2Display,
-          '```',
-          '',
-          instructionWithNote('Roast the code above. Be concise, witty, and constructive.')
-        ].join('\n')
-      : [
-          `File: ${filePath}  |  Language: ${language}  |  Line: ${pos.line + 1}`,
-          'Snippet:',
-          '```',
-          snippet2Display,
-          '```',
-          instructionWithNote('Continue roasting based on prior context. Be concise and witty.')
-        ].join('\n');
+    const variables = {
+      filePath,
+      language,
+      line: pos.line + 1,
+      snippet: snippet2Display,
+      hasCaretMarker: hasErrorAtFocusedLine,
+      context: context10.text,
+      linesAbove: context10LinesAbove,
+      linesBelow: context10LinesBelow
+    };
+    const userPrompt = context.renderPrompt(includeContext10 ? ROAST_TEMPLATE : CONTINUE_TEMPLATE, variables);
 
     return {
       userPrompt,
-      includeContext: includeContext10
+      includeContext: includeContext10,
+      anchor: { uri: doc.uri, line: pos.line }
     };
   }
 
@@ -187,25 +236,21 @@ export class CodeReviewPlugin implements IPlugin {
     this.lastFilePath = null;
   }
 
+  getPromptTemplates(): PromptTemplate[] {
+    return [ROAST_TEMPLATE, CONTINUE_TEMPLATE, COMMIT_COMPLIMENT_TEMPLATE];
+  }
+
   queuePrompt(payload: QueuedPrompt): void {
     this.pendingPrompt = payload;
   }
 
-  createCommitComplimentPrompt(payload: {
+  createCommitComplimentPrompt(renderPrompt: PluginContext['renderPrompt'], payload: {
     commitMessage: string;
     repositoryName?: string;
   }): string {
-    const repoInfo = payload.repositoryName
-      ? `Repository: ${payload.repositoryName}`
-      : 'Repository: unknown';
-
-    return [
-      repoInfo,
-      'Last commit message:',
-      '```',
-      payload.commitMessage,
-      '```',
-      'Offer a warm, genuine compliment for the work reflected by this push. Then provide a brief, thoughtful comment on the commit message itself—call out anything clear, anything missing, or how it could be improved. Keep it upbeat, concise, and constructive.'
-    ].join('\n');
+    return renderPrompt(COMMIT_COMPLIMENT_TEMPLATE, {
+      repository: payload.repositoryName,
+      commitMessage: payload.commitMessage
+    });
   }
 }
@@ -1,5 +1,5 @@
 import * as vscode from 'vscode';
-import { IPlugin, PluginContext, PluginMessage } from './IPlugin';
+import { IPlugin, PluginContext, PluginMessage, PromptTemplate } from './IPlugin';
 import * as https from 'https';
 import { hasInternetConnectivityCached } from './common/connectivity';
 
@@ -29,12 +29,36 @@ interface HNComment {
   dead?: boolean;
 }
 
+const ARTICLE_TEMPLATE: PromptTemplate = {
+  id: 'hackerNews.article',
+  description: 'Commentary on a top HackerNews story and its discussion',
+  variables: {
+    title: 'Story title',
+    url: 'Link to the story, if any',
+    author: 'Submitter',
+    score: 'Story points',
+    content: 'Story text, truncated (empty for link posts)',
+    comments: 'Numbered list of top comments as "[author]: text"',
+    commentCount: 'Total number of comments',
+  },
+  defaultTemplate: [
+    'Title: {{title}}',
+    '{{#if content}}Content: {{content}}',
+    '{{/if}}{{#if comments}}',
+    'Top Comments:',
+    '{{comments}}',
+    '{{/if}}',
+    'Give me some insights or interesting thoughts about this article and the discussion happening in the comments. Do not use bullet points. Be concise and witty.',
+  ].join('\n'),
+};
+
 /**
  * HackerNews plugin that fetches top articles and asks the AI to comment
  */
 export class HackerNewsPlugin implements IPlugin {
   readonly id = 'hackerNews';
   readonly name = 'HackerNews Reader';
+  readonly threadScope = 'global' as const;
   
   // Track mentioned article IDs to avoid repetition
   private mentionedArticles: Set<number> = new Set();
@@ -49,6 +73,10 @@ export class HackerNewsPlugin implements IPlugin {
     return 1.0;
   }
 
+  getPromptTemplates(): PromptTemplate[] {
+    return [ARTICLE_TEMPLATE];
+  }
+
   async shouldTrigger(context: PluginContext): Promise<boolean> {
     // HackerNews plugin requires internet connectivity
     return await hasInternetConnectivityCached();
@@ -204,41 +232,29 @@ export class HackerNewsPlugin implements IPlugin {
       // Fetch top comments for the article
       const comments = await this.fetchTopComments(article, 3);
 
-      // Format article for the prompt
-      const parts = [];
-
-      parts.push(`Title: ${article.title}`);
-      // parts.push(`By: ${article.by}`);
-      
-      if (article.text) {
-        // Truncate long text content
-        const truncated = article.text.length > 200 
-          ? article.text.substring(0, 200) + '...'
-          : article.text;
-        parts.push(`Content: ${truncated}`);
-      }
+      // Truncate long text content
+      const content = article.text && article.text.length > 200
+        ? article.text.substring(0, 200) + '...'
+        : article.text;
 
-      // Add top comments if available
-      if (comments.length > 0) {
-        parts.push(''); // Empty line for separation
-        parts.push('Top Comments:');
-        comments.forEach((comment, index) => {
-          const commentText = this.stripHtml(comment.text || '');
-          // Truncate long comments
-          const truncated = commentText.length > 300
-            ? commentText.substring(0, 300) + '...'
-            : commentText;
-          parts.push(`${index + 1}. [${comment.by}]: ${truncated}`);
-        });
-      }
-      
-      const articleSummary = parts.join('\n');
+      const commentLines = comments.map((comment, index) => {
+        const commentText = this.stripHtml(comment.text || '');
+        // Truncate long comments
+        const truncated = commentText.length > 300
+          ? commentText.substring(0, 300) + '...'
+          : commentText;
+        return `${index + 1}. [${comment.by}]: ${truncated}`;
+      });
 
-      const userPrompt = [
-        articleSummary,
-        '',
-        'Give me some insights or interesting thoughts about this article and the discussion happening in the comments. Do not use bullet points. Be concise and witty.'
-      ].join('\n');
+      const userPrompt = context.renderPrompt(ARTICLE_TEMPLATE, {
+        title: article.title,
+        url: article.url,
+        author: article.by,
+        score: article.score,
+        content,
+        comments: commentLines.join('\n'),
+        commentCount: article.descendants ?? 0
+      });
 
       return {
         userPrompt,
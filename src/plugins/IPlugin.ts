@@ -1,4 +1,7 @@
 import * as vscode from 'vscode';
+import type { LlmCapabilities } from '../providers/ILlmProvider';
+import type { ITool } from '../tools/ITool';
+import type { CommentAnchor } from '../decorations/InlineComments';
 
 /**
  * Message generated by a plugin
@@ -7,10 +10,34 @@ export interface PluginMessage {
   userPrompt: string;
   includeContext: boolean;
   text?: string; // Optional text to append to the LLM reply
+  /** Line the reply is about; with inline comments enabled the reply is also shown there */
+  anchor?: CommentAnchor;
+}
+
+/**
+ * A plugin prompt that users can override from settings or `.ani/prompts/<id>.md`
+ */
+export interface PromptTemplate {
+  /** `<pluginId>.<name>`; also the override's setting key and file name */
+  id: string;
+  description: string;
+  /** Variable names (dotted for nested values) mapped to what they contain */
+  variables: Record<string, string>;
+  defaultTemplate: string;
 }
 
 export interface EnqueueMessageOptions {
   priority?: boolean;
+  /** Id of the plugin queueing the message; leave unset for messages the user typed */
+  source?: string;
+  /** What the transcript shows for a user message instead of the full prompt */
+  displayText?: string;
+  /** Called with the reply once it is shown, e.g. to copy it into a comment thread */
+  onReply?: (reply: string) => void;
+  /** File the message is about; its conversation thread is continued instead of the last one used */
+  uri?: vscode.Uri;
+  /** Names of tools offered only on request (e.g. `report_review_finding`) to offer while answering this message */
+  tools?: string[];
 }
 
 /**
@@ -21,9 +48,23 @@ export interface PluginContext {
   panel: vscode.WebviewPanel;
   lastEditedFiles: string[];
   chatHistory: any[];
+  llmCapabilities: LlmCapabilities;
   getRelativePath: (absPath: string) => string;
   getLinesAround: (doc: vscode.TextDocument, centerLine: number, radius: number) => { start: number; end: number; text: string };
   enqueueMessage: (message: string, options?: EnqueueMessageOptions) => void;
+  /**
+   * Whether a file is excluded by `ani-vscode.privacy.exclude` or `.aniignore` and must not reach the LLM
+   * `editor` and `lastEditedFiles` are already filtered; plugins reading other files must check this
+   */
+  isExcluded: (target: vscode.Uri | string) => boolean;
+  /**
+   * Whether any visible editor shows an excluded file (e.g. to skip screen captures)
+   */
+  hasExcludedVisibleEditor: () => boolean;
+  /**
+   * Render a prompt template, using the user's override when one is configured
+   */
+  renderPrompt: (template: PromptTemplate, variables: Record<string, unknown>) => string;
 }
 
 /**
@@ -40,6 +81,12 @@ export interface IPlugin {
    */
   readonly name: string;
 
+  /**
+   * Which conversation thread this plugin's messages belong to
+   * 'file' (default) uses the active file's thread, 'global' uses the shared thread
+   */
+  readonly threadScope?: 'file' | 'global';
+
   /**
    * Whether this plugin is currently enabled
    */
@@ -72,6 +119,17 @@ export interface IPlugin {
    */
   onResponse?(response: string): void;
 
+  /**
+   * Tools this plugin contributes to the LLM
+   * Only offered to the model while the plugin is enabled
+   */
+  getTools?(): ITool[];
+
+  /**
+   * Prompt templates this plugin renders, with the variables each one receives
+   */
+  getPromptTemplates?(): PromptTemplate[];
+
   /**
    * Called when the plugin should activate (e.g., register event listeners)
    */
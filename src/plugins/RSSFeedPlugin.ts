@@ -1,5 +1,5 @@
 import * as vscode from 'vscode';
-import { IPlugin, PluginContext, PluginMessage } from './IPlugin';
+import { IPlugin, PluginContext, PluginMessage, PromptTemplate } from './IPlugin';
 import * as https from 'https';
 import * as http from 'http';
 import { hasInternetConnectivityCached } from './common/connectivity';
@@ -16,12 +16,31 @@ interface RSSItem {
   content?: string;
 }
 
+const ARTICLE_TEMPLATE: PromptTemplate = {
+  id: 'rssFeed.article',
+  description: 'Commentary on an article from one of the configured feeds',
+  variables: {
+    title: 'Article title',
+    link: 'Article link',
+    author: 'Author, if the feed provides one',
+    published: 'Publication date as given by the feed',
+    summary: 'Article content or description, stripped of HTML and truncated',
+  },
+  defaultTemplate: [
+    'Title: {{title}}',
+    '{{#if summary}}Summary: {{summary}}',
+    '{{/if}}',
+    'Give me some insights or interesting thoughts about this article. Be concise and witty.',
+  ].join('\n'),
+};
+
 /**
  * RSS Feed Plugin that fetches articles from configured RSS feeds and asks the AI to summarize
  */
 export class RSSFeedPlugin implements IPlugin {
   readonly id = 'rssFeed';
   readonly name = 'RSS Feed Reader';
+  readonly threadScope = 'global' as const;
   
   // Track mentioned article links to avoid repetition
   private mentionedArticles: Set<string> = new Set();
@@ -36,6 +55,10 @@ export class RSSFeedPlugin implements IPlugin {
     return 1.0;
   }
 
+  getPromptTemplates(): PromptTemplate[] {
+    return [ARTICLE_TEMPLATE];
+  }
+
   async shouldTrigger(context: PluginContext): Promise<boolean> {
     // RSS plugin requires internet connectivity
     return await hasInternetConnectivityCached();
@@ -227,35 +250,17 @@ export class RSSFeedPlugin implements IPlugin {
         this.mentionedArticles = new Set(articlesArray.slice(-this.MAX_HISTORY));
       }
 
-      // Format article for the prompt
-      const parts = [];
-
-      parts.push(`Title: ${item.title}`);
-      
-    //   if (item.author) {
-    //     parts.push(`By: ${item.author}`);
-    //   }
-      
       // Use content first, fall back to description
       const text = item.content || item.description;
-      if (text) {
-        const truncated = this.stripAndTruncate(text, 250);
-        if (truncated) {
-          parts.push(`Summary: ${truncated}`);
-        }
-      }
-      
-    //   if (item.pubDate) {
-    //     parts.push(`Published: ${item.pubDate}`);
-    //   }
-      
-      const articleSummary = parts.join('\n');
+      const summary = text ? this.stripAndTruncate(text, 250) : '';
 
-      const userPrompt = [
-        articleSummary,
-        '',
-        'Give me some insights or interesting thoughts about this article. Be concise and witty.'
-      ].join('\n');
+      const userPrompt = context.renderPrompt(ARTICLE_TEMPLATE, {
+        title: item.title,
+        link: item.link,
+        author: item.author,
+        published: item.pubDate,
+        summary
+      });
 
       return {
         userPrompt,
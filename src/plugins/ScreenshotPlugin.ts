@@ -32,6 +32,11 @@ export class ScreenshotPlugin implements IPlugin {
   }
 
   shouldTrigger(context: PluginContext): boolean {
+    // Screenshots are useless to models that cannot see images
+    if (!context.llmCapabilities.vision) {
+      return false;
+    }
+
     const now = Date.now();
     const timeSinceLastScreenshot = now - this.lastScreenshotTime;
     
@@ -39,6 +44,11 @@ export class ScreenshotPlugin implements IPlugin {
     if (timeSinceLastScreenshot < this.minIntervalMs) {
       return false;
     }
+
+    // Never capture the screen while a private file is visible
+    if (context.hasExcludedVisibleEditor()) {
+      return false;
+    }
     
     // Only trigger if there's an active editor
     return context.editor !== undefined;
@@ -47,7 +57,7 @@ export class ScreenshotPlugin implements IPlugin {
   async generateMessage(context: PluginContext): Promise<PluginMessage | null> {
     const { editor } = context;
     
-    if (!editor) {
+    if (!editor || context.hasExcludedVisibleEditor()) {
       return null;
     }
 
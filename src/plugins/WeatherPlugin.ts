@@ -1,7 +1,8 @@
 import * as vscode from 'vscode';
 import * as https from 'https';
-import { IPlugin, PluginContext, PluginMessage } from './IPlugin';
+import { IPlugin, PluginContext, PluginMessage, PromptTemplate } from './IPlugin';
 import { hasInternetConnectivityCached } from './common/connectivity';
+import { ITool } from '../tools/ITool';
 
 interface Coordinates {
   latitude: number;
@@ -23,9 +24,36 @@ interface WeatherSnapshot {
   precipitationMm?: number;
 }
 
+const UPDATE_TEMPLATE: PromptTemplate = {
+  id: 'weather.update',
+  description: 'Weather update when conditions change noticeably',
+  variables: {
+    conditions: 'One-sentence summary of the current conditions',
+    location: 'Resolved location name',
+    time: 'Local time of the observation',
+    'weather.description': 'Current conditions, e.g. "light rain"',
+    'weather.temperatureC': 'Temperature in °C',
+    'weather.apparentTemperatureC': 'Feels-like temperature in °C',
+    'weather.humidityPercent': 'Relative humidity in %',
+    'weather.windSpeedKph': 'Wind speed in km/h',
+    'weather.precipitationMm': 'Precipitation in mm',
+    previous: 'Previous observation (empty on the first check of the session)',
+    'previous.description': 'Previous conditions',
+    'previous.temperatureC': 'Previous temperature in °C',
+    'previous.time': 'Local time of the previous observation',
+    trend: 'What changed since the previous observation',
+  },
+  defaultTemplate: [
+    '{{conditions}}',
+    '{{#if previous}}Previously it was {{previous.description}} around {{previous.temperatureC}}°C at {{previous.time}}. Since then {{trend}}.{{else}}This is the first weather check of the session, so highlight why these conditions matter.{{/if}}',
+    'Share a warm, conversational weather update that ties the shift to how the coding session might feel. Keep it short, avoid repeating raw numbers verbatim, and end with an encouraging nudge to stay productive.',
+  ].join('\n'),
+};
+
 export class WeatherPlugin implements IPlugin {
   readonly id = 'weather';
   readonly name = 'Weather Watcher';
+  readonly threadScope = 'global' as const;
 
   private lastObservations = new Map<string, WeatherSnapshot>();
   private locationCache = new Map<string, Coordinates>();
@@ -59,7 +87,7 @@ export class WeatherPlugin implements IPlugin {
       if (!this.locationErrorNotified.has(locationKey)) {
         context.enqueueMessage(
           `Ani's weather senses are jammed—I couldn't resolve the location "${rawLocation}". Try setting "ani-vscode.plugins.weather.location" to a city or "lat,lon".`,
-          { priority: true }
+          { priority: true, source: this.id }
         );
         this.locationErrorNotified.add(locationKey);
       }
@@ -97,7 +125,7 @@ export class WeatherPlugin implements IPlugin {
         if (!this.locationErrorNotified.has(locationKey)) {
           context.enqueueMessage(
             `Ani's weather senses are jammed—I couldn't resolve the location "${rawLocation}". Try setting "ani-vscode.plugins.weather.location" to a city or "lat,lon".`,
-            { priority: true }
+            { priority: true, source: this.id }
           );
           this.locationErrorNotified.add(locationKey);
         }
@@ -119,7 +147,7 @@ export class WeatherPlugin implements IPlugin {
         return null;
       }
 
-      const userPrompt = this.buildPrompt(weather, previous);
+      const userPrompt = this.buildPrompt(context, weather, previous);
 
       return {
         userPrompt,
@@ -131,6 +159,64 @@ export class WeatherPlugin implements IPlugin {
     }
   }
 
+  getPromptTemplates(): PromptTemplate[] {
+    return [UPDATE_TEMPLATE];
+  }
+
+  getTools(): ITool[] {
+    return [
+      {
+        name: 'get_weather',
+        description:
+          'Get the current weather for a location. Use this when the user asks about the weather. Defaults to the configured location.',
+        parameters: {
+          type: 'object',
+          properties: {
+            location: {
+              type: 'string',
+              description: 'City name or "lat,lon". Omit to use the configured location.',
+            },
+          },
+        },
+        execute: async (args) => this.describeCurrentWeather(args.location),
+      },
+    ];
+  }
+
+  private async describeCurrentWeather(requestedLocation: unknown): Promise<string> {
+    const cfg = vscode.workspace.getConfiguration('ani-vscode');
+    const configuredLocation = (cfg.get<string>('plugins.weather.location', 'Tokyo, Japan') || '').trim();
+    const rawLocation = typeof requestedLocation === 'string' && requestedLocation.trim()
+      ? requestedLocation.trim()
+      : configuredLocation;
+    if (!rawLocation) {
+      throw new Error('No location given and "ani-vscode.plugins.weather.location" is empty.');
+    }
+
+    const cacheMinutes = Math.max(30, cfg.get<number>('plugins.weather.cacheMinutes', 30) ?? 30);
+    const locationKey = this.normalizeLocationKey(rawLocation);
+    const coords = await this.resolveCoordinates(rawLocation, locationKey);
+    if (!coords) {
+      throw new Error(`Could not resolve the location "${rawLocation}".`);
+    }
+
+    const weather = await this.getWeatherSnapshot(locationKey, coords, cacheMinutes);
+    if (!weather) {
+      throw new Error(`Weather data for ${coords.displayName} is unavailable right now.`);
+    }
+
+    return JSON.stringify({
+      location: weather.locationName,
+      time: this.renderTime(weather.timestamp, weather.timezone),
+      conditions: weather.description,
+      temperatureC: weather.temperatureC,
+      apparentTemperatureC: weather.apparentTemperatureC,
+      humidityPercent: weather.humidityPercent,
+      windSpeedKph: weather.windSpeedKph,
+      precipitationMm: weather.precipitationMm,
+    });
+  }
+
   private normalizeLocationKey(input: string): string {
     return input.trim().toLowerCase();
   }
@@ -282,7 +368,7 @@ export class WeatherPlugin implements IPlugin {
     return false;
   }
 
-  private buildPrompt(current: WeatherSnapshot, previous: WeatherSnapshot | null): string {
+  private buildPrompt(context: PluginContext, current: WeatherSnapshot, previous: WeatherSnapshot | null): string {
     const timeLabel = this.renderTime(current.timestamp, current.timezone);
     const currentLine = `Current conditions in ${current.locationName}: ${current.description.toLowerCase()} with ${current.temperatureC.toFixed(1)}°C` +
       (typeof current.humidityPercent === 'number' ? `, humidity ${Math.round(current.humidityPercent)}%` : '') +
@@ -290,21 +376,27 @@ export class WeatherPlugin implements IPlugin {
       (typeof current.precipitationMm === 'number' && current.precipitationMm > 0.01 ? `, precipitation ${current.precipitationMm.toFixed(1)} mm` : '') +
       ` as of ${timeLabel}.`;
 
-    let changeLine: string;
-    if (previous) {
-      const prevTime = this.renderTime(previous.timestamp, previous.timezone);
-      const prevSummary = `${previous.description.toLowerCase()} around ${previous.temperatureC.toFixed(1)}°C`;
-      const trend = this.describeTrend(previous, current);
-      changeLine = `Previously it was ${prevSummary} at ${prevTime}. Since then ${trend}.`;
-    } else {
-      changeLine = 'This is the first weather check of the session, so highlight why these conditions matter.';
-    }
-
-    return [
-      currentLine,
-      changeLine,
-      'Share a warm, conversational weather update that ties the shift to how the coding session might feel. Keep it short, avoid repeating raw numbers verbatim, and end with an encouraging nudge to stay productive.'
-    ].join('\n');
+    return context.renderPrompt(UPDATE_TEMPLATE, {
+      conditions: currentLine,
+      location: current.locationName,
+      time: timeLabel,
+      weather: {
+        description: current.description.toLowerCase(),
+        temperatureC: current.temperatureC.toFixed(1),
+        apparentTemperatureC: current.apparentTemperatureC?.toFixed(1),
+        humidityPercent: current.humidityPercent !== undefined ? Math.round(current.humidityPercent) : undefined,
+        windSpeedKph: current.windSpeedKph !== undefined ? Math.round(current.windSpeedKph) : undefined,
+        precipitationMm: current.precipitationMm?.toFixed(1)
+      },
+      previous: previous
+        ? {
+            description: previous.description.toLowerCase(),
+            temperatureC: previous.temperatureC.toFixed(1),
+            time: this.renderTime(previous.timestamp, previous.timezone)
+          }
+        : null,
+      trend: previous ? this.describeTrend(previous, current) : ''
+    });
   }
 
   private describeTrend(previous: WeatherSnapshot, current: WeatherSnapshot, options?: { short?: boolean }): string {
@@ -133,12 +133,12 @@ async function handlePush(
     }
 
     const repoName = path.basename(repository.rootUri.fsPath);
-    const prompt = codeReviewPlugin.createCommitComplimentPrompt({
+    const prompt = codeReviewPlugin.createCommitComplimentPrompt((template, variables) => agentLoop.renderPrompt(template, variables), {
       commitMessage: lastCommitMessage,
       repositoryName: repoName
     });
 
-    agentLoop.enqueueUserMessage(prompt, { priority: true });
+    agentLoop.enqueueUserMessage(prompt, { priority: true, source: codeReviewPlugin.id });
     agentLoop.trigger('codeReview');
   } catch (err) {
     console.error('[ani-vscode] Failed to read commit history for push event', err);
@@ -0,0 +1,194 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export const ANIIGNORE_FILE = '.aniignore';
+
+interface IgnoreRule {
+  regex: RegExp;
+  negated: boolean;
+}
+
+/**
+ * Convert a glob (`**`, `*`, `?`, `{a,b}`, `[abc]`) into a regex matching a whole relative path
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+  let braceDepth = 0;
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        const atSegmentStart = i === 0 || glob[i - 1] === '/';
+        i++;
+        if (atSegmentStart && glob[i + 1] === '/') {
+          // "**/" matches zero or more directories
+          source += '(?:.*/)?';
+          i++;
+        } else {
+          source += '.*';
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      braceDepth++;
+      source += '(?:';
+    } else if (char === '}' && braceDepth > 0) {
+      braceDepth--;
+      source += ')';
+    } else if (char === ',' && braceDepth > 0) {
+      source += '|';
+    } else if (char === '[') {
+      const end = glob.indexOf(']', i + 1);
+      if (end === -1) {
+        source += '\\[';
+      } else {
+        source += `[${glob.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+        i = end;
+      }
+    } else {
+      source += char.replace(/[.+^$()|\\\]]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Parse `.aniignore` contents (gitignore syntax: comments, `!` negation, trailing `/` for directories,
+ * patterns without a slash match at any depth)
+ */
+export function parseIgnoreFile(contents: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  for (const rawLine of contents.split(/\r?\n/)) {
+    let line = rawLine.trim();
+    if (!line || line.startsWith('#')) {
+      continue;
+    }
+    const negated = line.startsWith('!');
+    if (negated) {
+      line = line.slice(1);
+    }
+    line = line.replace(/\/+$/, '');
+    const anchored = line.includes('/');
+    line = line.replace(/^\/+/, '');
+    if (!line) {
+      continue;
+    }
+    rules.push({ regex: globToRegExp(anchored ? line : `**/${line}`), negated });
+  }
+  return rules;
+}
+
+/**
+ * Decides which workspace files must never reach the LLM, from `ani-vscode.privacy.exclude`
+ * and a `.aniignore` file at the root of each workspace folder.
+ * A file is excluded when it, or any folder containing it, matches.
+ */
+export class PrivacyFilter implements vscode.Disposable {
+  private ignoreRules = new Map<string, IgnoreRule[]>();
+  private settingsKey = '';
+  private settingsRules: RegExp[] = [];
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(private readonly logger?: vscode.OutputChannel) {
+    const watcher = vscode.workspace.createFileSystemWatcher(`**/${ANIIGNORE_FILE}`);
+    const invalidate = () => this.ignoreRules.clear();
+    this.disposables.push(
+      watcher,
+      watcher.onDidCreate(invalidate),
+      watcher.onDidChange(invalidate),
+      watcher.onDidDelete(invalidate),
+      vscode.workspace.onDidChangeWorkspaceFolders(invalidate)
+    );
+  }
+
+  /**
+   * Whether the file may not be shown to plugins, tools or the LLM
+   * Files outside the workspace are only checked against absolute `privacy.exclude` globs
+   */
+  isExcluded(target: vscode.Uri | string): boolean {
+    const fsPath = typeof target === 'string' ? target : target.scheme === 'file' ? target.fsPath : null;
+    if (!fsPath) {
+      return false;
+    }
+
+    const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(fsPath));
+    const relative = folder ? path.relative(folder.uri.fsPath, fsPath).split(path.sep).join('/') : null;
+    const absolute = fsPath.split(path.sep).join('/');
+    const candidates = relative ? this.withAncestors(relative) : [];
+    const absoluteCandidates = this.withAncestors(absolute);
+
+    const settingsRules = this.getSettingsRules();
+    if (
+      settingsRules.some(
+        (rule) => candidates.some((p) => rule.test(p)) || absoluteCandidates.some((p) => rule.test(p))
+      )
+    ) {
+      return true;
+    }
+
+    if (!folder || !relative) {
+      return false;
+    }
+    // Like .gitignore, the last matching rule wins, so "!" can re-include files
+    let excluded = false;
+    for (const rule of this.getIgnoreRules(folder)) {
+      if (candidates.some((p) => rule.regex.test(p))) {
+        excluded = !rule.negated;
+      }
+    }
+    return excluded;
+  }
+
+  /**
+   * Whether any visible editor shows an excluded file
+   */
+  hasExcludedVisibleEditor(): boolean {
+    return vscode.window.visibleTextEditors.some((editor) => this.isExcluded(editor.document.uri));
+  }
+
+  dispose(): void {
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+    this.disposables = [];
+  }
+
+  private withAncestors(relativePath: string): string[] {
+    const parts = relativePath.split('/');
+    return parts.map((_, index) => parts.slice(0, index + 1).join('/')).filter(Boolean);
+  }
+
+  private getSettingsRules(): RegExp[] {
+    const globs = vscode.workspace.getConfiguration('ani-vscode').get<string[]>('privacy.exclude', []) ?? [];
+    const key = JSON.stringify(globs);
+    if (key !== this.settingsKey) {
+      this.settingsKey = key;
+      this.settingsRules = globs
+        .filter((glob) => typeof glob === 'string' && glob.trim())
+        .map((glob) => globToRegExp(glob.trim().replace(/\/+$/, '')));
+    }
+    return this.settingsRules;
+  }
+
+  private getIgnoreRules(folder: vscode.WorkspaceFolder): IgnoreRule[] {
+    const key = folder.uri.fsPath;
+    let rules = this.ignoreRules.get(key);
+    if (!rules) {
+      rules = [];
+      const ignorePath = path.join(folder.uri.fsPath, ANIIGNORE_FILE);
+      try {
+        if (fs.existsSync(ignorePath)) {
+          rules = parseIgnoreFile(fs.readFileSync(ignorePath, 'utf8'));
+        }
+      } catch (error) {
+        this.logger?.appendLine(`[Privacy][error] Failed to read ${ignorePath}: ${String(error)}`);
+      }
+      this.ignoreRules.set(key, rules);
+    }
+    return rules;
+  }
+}
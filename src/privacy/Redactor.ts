@@ -0,0 +1,229 @@
+import * as vscode from 'vscode';
+
+export type RedactionDetector = 'privateKey' | 'jwt' | 'apiKey' | 'secretAssignment' | 'email' | 'highEntropy';
+
+export const REDACTION_DETECTORS: RedactionDetector[] = [
+  'privateKey',
+  'jwt',
+  'apiKey',
+  'secretAssignment',
+  'email',
+  'highEntropy',
+];
+
+/**
+ * Redaction settings read from `ani-vscode.privacy.redaction.*`
+ */
+export interface RedactionSettings {
+  enabled: boolean;
+  detectors: RedactionDetector[];
+  customPatterns: string[];
+}
+
+interface PatternRule {
+  label: string;
+  pattern: RegExp;
+  /** Only this capture group is replaced; the rest of the match is kept */
+  valueGroup?: number;
+}
+
+const DETECTOR_RULES: Record<Exclude<RedactionDetector, 'highEntropy'>, PatternRule[]> = {
+  privateKey: [
+    {
+      label: 'PRIVATE_KEY',
+      pattern: /-----BEGIN [A-Z0-9 ]*PRIVATE KEY(?: BLOCK)?-----[\s\S]*?-----END [A-Z0-9 ]*PRIVATE KEY(?: BLOCK)?-----/g,
+    },
+  ],
+  jwt: [{ label: 'JWT', pattern: /\beyJ[\w-]{8,}\.eyJ[\w-]{8,}\.[\w-]{8,}/g }],
+  apiKey: [
+    {
+      label: 'API_KEY',
+      pattern:
+        /\b(?:sk-(?:ant-|proj-)?[\w-]{20,}|(?:ghp|gho|ghu|ghs|ghr)_[A-Za-z0-9]{36,}|github_pat_\w{22,}|glpat-[\w-]{20,}|xox[abprs]-[\w-]{10,}|(?:sk|pk|rk)_(?:live|test)_[A-Za-z0-9]{16,}|AKIA[0-9A-Z]{16}|AIza[\w-]{35}|hf_[A-Za-z0-9]{30,})\b/g,
+    },
+  ],
+  secretAssignment: [
+    {
+      label: 'SECRET',
+      pattern:
+        /\b([\w.-]*(?:api[_-]?key|secret|token|passw(?:or)?d|pwd|access[_-]?key|client[_-]?secret|auth[_-]?(?:token|key|header)|authorization)[\w.-]*["']?\s*[:=]\s*["'`]?)([^\s"'`,;]{6,})/gi,
+      valueGroup: 2,
+    },
+  ],
+  email: [{ label: 'EMAIL', pattern: /\b[\w.+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}\b/g }],
+};
+
+const HIGH_ENTROPY_CANDIDATE = /[A-Za-z0-9+/=_-]{24,}/g;
+// Pure hex (hashes, commit ids) stays below this, random base64/base62 tokens go above it
+const HIGH_ENTROPY_THRESHOLD = 4.2;
+const PLACEHOLDER = /\[REDACTED_[A-Z_]+_\d+\]/g;
+const IS_PLACEHOLDER = /^\[REDACTED_[A-Z_]+_\d+\]/;
+// The start of a placeholder at the end of a streamed chunk, e.g. "[REDAC" or "[REDACTED_EMA"
+const PARTIAL_PLACEHOLDER = /\[(?:R(?:E(?:D(?:A(?:C(?:T(?:E(?:D(?:_[A-Z_\d]*)?)?)?)?)?)?)?)?)?$/;
+
+/**
+ * Read redaction settings from the extension configuration
+ */
+export function readRedactionSettings(config: vscode.WorkspaceConfiguration): RedactionSettings {
+  const detectors = config.get<string[]>('privacy.redaction.detectors', REDACTION_DETECTORS) ?? REDACTION_DETECTORS;
+  return {
+    enabled: config.get<boolean>('privacy.redaction.enabled', true),
+    detectors: detectors.filter((name): name is RedactionDetector =>
+      REDACTION_DETECTORS.includes(name as RedactionDetector)
+    ),
+    customPatterns: config.get<string[]>('privacy.redaction.customPatterns', []) ?? [],
+  };
+}
+
+function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+function looksLikeSecret(value: string): boolean {
+  // Identifiers and paths are long but rarely mix digits and letters this densely
+  if (!/\d/.test(value) || !/[A-Za-z]/.test(value)) {
+    return false;
+  }
+  return shannonEntropy(value) >= HIGH_ENTROPY_THRESHOLD;
+}
+
+/**
+ * Replaces secrets and personal data in outgoing text with stable placeholders such as
+ * `[REDACTED_API_KEY_1]`, and keeps the mapping so placeholders in replies can be restored locally
+ */
+export class Redactor {
+  private placeholders = new Map<string, string>();
+  private valuesToPlaceholders = new Map<string, string>();
+  private counters = new Map<string, number>();
+  private invalidPatterns = new Set<string>();
+
+  constructor(private readonly logger?: vscode.OutputChannel) {}
+
+  /**
+   * Redact `text`, returning the redacted text and the number of values replaced
+   */
+  redact(text: string, settings: RedactionSettings): { text: string; count: number } {
+    if (!settings.enabled || !text) {
+      return { text, count: 0 };
+    }
+
+    let count = 0;
+    const replaceValue = (value: string, label: string) => {
+      count++;
+      return this.getPlaceholder(value, label);
+    };
+    const applyRule = (input: string, rule: PatternRule) =>
+      input.replace(rule.pattern, (match: string, ...groups: unknown[]) => {
+        if (rule.valueGroup === undefined) {
+          return replaceValue(match, rule.label);
+        }
+        const value = groups[rule.valueGroup - 1];
+        if (typeof value !== 'string' || IS_PLACEHOLDER.test(value)) {
+          return match;
+        }
+        return match.slice(0, match.length - value.length) + replaceValue(value, rule.label);
+      });
+
+    let result = text;
+    for (const detector of settings.detectors) {
+      if (detector !== 'highEntropy') {
+        for (const rule of DETECTOR_RULES[detector]) {
+          result = applyRule(result, rule);
+        }
+      }
+    }
+    for (const source of settings.customPatterns) {
+      const pattern = this.compileCustomPattern(source);
+      if (pattern) {
+        result = applyRule(result, { label: 'CUSTOM', pattern });
+      }
+    }
+    // Last, so well-known formats keep their more descriptive labels
+    if (settings.detectors.includes('highEntropy')) {
+      result = result.replace(HIGH_ENTROPY_CANDIDATE, (match) =>
+        looksLikeSecret(match) ? replaceValue(match, 'SECRET') : match
+      );
+    }
+
+    return { text: result, count };
+  }
+
+  /**
+   * Put the original values back into text that refers to placeholders
+   */
+  restore(text: string): string {
+    return text.replace(PLACEHOLDER, (placeholder) => this.placeholders.get(placeholder) ?? placeholder);
+  }
+
+  /**
+   * Forget every placeholder (e.g. when the chat history is reset)
+   */
+  clear(): void {
+    this.placeholders.clear();
+    this.valuesToPlaceholders.clear();
+    this.counters.clear();
+  }
+
+  private getPlaceholder(value: string, label: string): string {
+    const existing = this.valuesToPlaceholders.get(value);
+    if (existing) {
+      return existing;
+    }
+    const index = (this.counters.get(label) ?? 0) + 1;
+    this.counters.set(label, index);
+    const placeholder = `[REDACTED_${label}_${index}]`;
+    this.placeholders.set(placeholder, value);
+    this.valuesToPlaceholders.set(value, placeholder);
+    return placeholder;
+  }
+
+  private compileCustomPattern(source: string): RegExp | null {
+    try {
+      return new RegExp(source, 'g');
+    } catch (error) {
+      if (!this.invalidPatterns.has(source)) {
+        this.invalidPatterns.add(source);
+        this.logger?.appendLine(`[Privacy][error] Ignoring invalid redaction pattern ${source}: ${String(error)}`);
+      }
+      return null;
+    }
+  }
+}
+
+/**
+ * Restores placeholders in text that arrives in pieces, such as a streamed reply
+ * A placeholder split across pieces is held back until its closing bracket arrives
+ */
+export class StreamingRestorer {
+  private pending = '';
+
+  constructor(private readonly redactor: Redactor) {}
+
+  /**
+   * Add a chunk and return the newly displayable text with its placeholders restored (empty if none)
+   */
+  push(chunk: string): string {
+    const text = this.pending + chunk;
+    const partial = PARTIAL_PLACEHOLDER.exec(text);
+    this.pending = partial ? partial[0] : '';
+    return this.redactor.restore(partial ? text.slice(0, partial.index) : text);
+  }
+
+  /**
+   * Return the text still held back once the last chunk has arrived
+   */
+  flush(): string {
+    const text = this.redactor.restore(this.pending);
+    this.pending = '';
+    return text;
+  }
+}
@@ -0,0 +1,128 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { PromptTemplate } from '../plugins/IPlugin';
+
+export const PROMPTS_DIRECTORY = path.join('.ani', 'prompts');
+
+const IF_BLOCK = /\{\{#if\s+([\w.]+)\s*\}\}((?:(?!\{\{#if\s)[\s\S])*?)\{\{\/if\}\}/;
+const VARIABLE = /\{\{\s*([\w.]+)\s*\}\}/g;
+const LEADING_COMMENT = /^\s*<!--[\s\S]*?-->\s*/;
+
+function lookup(variables: Record<string, unknown>, name: string): unknown {
+  let value: unknown = variables;
+  for (const key of name.split('.')) {
+    if (value === null || typeof value !== 'object') {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+function isTruthy(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+function stringify(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Render a Handlebars-style template: `{{name}}` and `{{nested.name}}` variables,
+ * plus `{{#if name}}...{{else}}...{{/if}}` blocks. Missing variables render as empty text.
+ * Values are inserted verbatim and never re-scanned, so code snippets containing braces are safe.
+ */
+export function renderTemplate(template: string, variables: Record<string, unknown>): string {
+  let source = template;
+  // Resolve innermost blocks first so nested conditions work
+  let match: RegExpExecArray | null;
+  while ((match = IF_BLOCK.exec(source))) {
+    const [block, name, body] = match;
+    const [whenTrue, whenFalse = ''] = body.split('{{else}}');
+    const replacement = isTruthy(lookup(variables, name)) ? whenTrue : whenFalse;
+    source = source.slice(0, match.index) + replacement + source.slice(match.index + block.length);
+  }
+  return source.replace(VARIABLE, (_, name: string) => stringify(lookup(variables, name)));
+}
+
+/**
+ * Strip the leading `<!-- ... -->` note that documents a template file's variables
+ */
+export function stripTemplateComment(contents: string): string {
+  return contents.replace(LEADING_COMMENT, '').trimEnd();
+}
+
+/**
+ * Resolves plugin prompt templates, preferring `ani-vscode.prompts.templates` entries,
+ * then `.ani/prompts/<id>.md` in the workspace, then the plugin's built-in default
+ */
+export class PromptTemplateStore implements vscode.Disposable {
+  private fileTemplates = new Map<string, string | null>();
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(private readonly logger?: vscode.OutputChannel) {
+    const watcher = vscode.workspace.createFileSystemWatcher(`**/${PROMPTS_DIRECTORY.split(path.sep).join('/')}/*.md`);
+    const invalidate = () => this.fileTemplates.clear();
+    this.disposables.push(
+      watcher,
+      watcher.onDidCreate(invalidate),
+      watcher.onDidChange(invalidate),
+      watcher.onDidDelete(invalidate),
+      vscode.workspace.onDidChangeWorkspaceFolders(invalidate)
+    );
+  }
+
+  /**
+   * Render a plugin template with the user's override if there is one
+   */
+  render(template: PromptTemplate, variables: Record<string, unknown>): string {
+    const source = this.getOverride(template.id) ?? template.defaultTemplate;
+    return renderTemplate(source, variables).trim();
+  }
+
+  /**
+   * The user-provided template text for `id`, if any
+   */
+  getOverride(id: string): string | undefined {
+    const configured = vscode.workspace
+      .getConfiguration('ani-vscode')
+      .get<Record<string, string>>('prompts.templates', {})?.[id];
+    if (typeof configured === 'string' && configured.trim()) {
+      return configured;
+    }
+    return this.getFileTemplate(id) ?? undefined;
+  }
+
+  dispose(): void {
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+    this.disposables = [];
+  }
+
+  private getFileTemplate(id: string): string | null {
+    if (this.fileTemplates.has(id)) {
+      return this.fileTemplates.get(id) ?? null;
+    }
+
+    let template: string | null = null;
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+      const filePath = path.join(folder.uri.fsPath, PROMPTS_DIRECTORY, `${id}.md`);
+      try {
+        if (fs.existsSync(filePath)) {
+          template = stripTemplateComment(fs.readFileSync(filePath, 'utf8')) || null;
+          this.logger?.appendLine(`[Prompts] Using ${filePath}`);
+          break;
+        }
+      } catch (error) {
+        this.logger?.appendLine(`[Prompts][error] Failed to read ${filePath}: ${String(error)}`);
+      }
+    }
+    this.fileTemplates.set(id, template);
+    return template;
+  }
+}
@@ -0,0 +1,83 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import type { IPlugin, PromptTemplate } from '../plugins/IPlugin';
+import { PROMPTS_DIRECTORY } from './PromptTemplates';
+
+interface TemplateQuickPickItem extends vscode.QuickPickItem {
+  template: PromptTemplate;
+}
+
+function renderTemplateFile(template: PromptTemplate): string {
+  const variables = Object.entries(template.variables).map(([name, description]) => `  {{${name}}}: ${description}`);
+  return [
+    '<!--',
+    `${template.description}`,
+    '',
+    'Available variables:',
+    ...variables,
+    '',
+    'Use {{#if name}}...{{else}}...{{/if}} for optional parts. This comment is ignored.',
+    '-->',
+    template.defaultTemplate,
+    '',
+  ].join('\n');
+}
+
+/**
+ * Register the command that copies a plugin's default prompt into `.ani/prompts/` for editing
+ * `getPlugins` supplies the plugins whose templates can be customized; `commandTemplates` are the prompts of commands
+ */
+export function registerPromptTemplateCommands(
+  getPlugins: () => IPlugin[],
+  commandTemplates: PromptTemplate[] = []
+): vscode.Disposable {
+  return vscode.commands.registerCommand('ani-vscode.prompts.customize', async () => {
+    const items: TemplateQuickPickItem[] = [
+      ...getPlugins().flatMap((plugin) =>
+        (plugin.getPromptTemplates?.() ?? []).map((template) => ({
+          label: template.id,
+          description: plugin.name,
+          detail: template.description,
+          template,
+        }))
+      ),
+      ...commandTemplates.map((template) => ({
+        label: template.id,
+        description: 'Command',
+        detail: template.description,
+        template,
+      })),
+    ];
+    const picked = await vscode.window.showQuickPick(items, {
+      placeHolder: 'Select a prompt template to customize',
+      matchOnDescription: true,
+      matchOnDetail: true,
+    });
+    if (!picked) {
+      return;
+    }
+
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    const folder =
+      folders.length > 1
+        ? await vscode.window.showWorkspaceFolderPick({ placeHolder: 'Where should the template be saved?' })
+        : folders[0];
+    if (!folder) {
+      if (folders.length === 0) {
+        vscode.window.showErrorMessage(
+          'Ani: open a folder to customize prompt templates, or set "ani-vscode.prompts.templates" in your settings.'
+        );
+      }
+      return;
+    }
+
+    const uri = vscode.Uri.file(path.join(folder.uri.fsPath, PROMPTS_DIRECTORY, `${picked.template.id}.md`));
+    try {
+      await vscode.workspace.fs.stat(uri);
+    } catch {
+      await vscode.workspace.fs.writeFile(uri, Buffer.from(renderTemplateFile(picked.template), 'utf8'));
+    }
+    const doc = await vscode.workspace.openTextDocument(uri);
+    await vscode.window.showTextDocument(doc);
+  });
+}
@@ -0,0 +1,70 @@
+import { ChatAnthropic, AnthropicInput } from '@langchain/anthropic';
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import type { BaseChatModelParams } from '@langchain/core/language_models/chat_models';
+import { ChatModelOptions, ILlmProvider, LlmCapabilities, LlmConnectionSettings } from './ILlmProvider';
+import { looksVisionCapable, trimBaseUrl } from './common';
+import type { LlmErrorKind } from './LlmError';
+
+// `error.type` values of the Messages API error body
+const ANTHROPIC_ERROR_KINDS: Record<string, LlmErrorKind> = {
+  authentication_error: 'auth',
+  permission_error: 'auth',
+  not_found_error: 'modelMissing',
+  rate_limit_error: 'rateLimit',
+  overloaded_error: 'rateLimit',
+  request_too_large: 'contextTooLong',
+};
+
+/**
+ * Provider for the Anthropic Messages API
+ */
+export class AnthropicProvider implements ILlmProvider {
+  readonly id = 'anthropic' as const;
+  readonly name = 'Anthropic';
+  readonly defaultBaseUrl = 'https://api.anthropic.com';
+
+  getCapabilities(model: string): LlmCapabilities {
+    return {
+      vision: looksVisionCapable(model),
+      tools: true,
+      streaming: true,
+      // JSON output is only emulated through tool calls
+      structuredOutput: false,
+    };
+  }
+
+  getContextWindow(): number {
+    return 200_000;
+  }
+
+  createChatModel(settings: LlmConnectionSettings, options?: ChatModelOptions): BaseChatModel {
+    // The SDK appends /v1/messages itself
+    const baseUrl = trimBaseUrl(settings.baseUrl || this.defaultBaseUrl, '/v1');
+    const fields: AnthropicInput & BaseChatModelParams = {
+      model: settings.model,
+      anthropicApiUrl: baseUrl,
+      maxTokens: 1024,
+    };
+    if (settings.apiKey) {
+      fields.apiKey = settings.apiKey;
+    }
+    if (options?.temperature !== undefined) {
+      fields.temperature = options.temperature;
+    }
+    if (options?.maxRetries !== undefined) {
+      fields.maxRetries = options.maxRetries;
+    }
+    if (options?.callbacks) {
+      fields.callbacks = options.callbacks;
+    }
+    if (options?.timeout !== undefined || options?.fetch) {
+      fields.clientOptions = { timeout: options.timeout, fetch: options.fetch };
+    }
+    return new ChatAnthropic(fields);
+  }
+
+  classifyError(error: unknown): LlmErrorKind | undefined {
+    const type = (error as any)?.error?.error?.type;
+    return typeof type === 'string' ? ANTHROPIC_ERROR_KINDS[type] : undefined;
+  }
+}
@@ -0,0 +1,86 @@
+import type { Callbacks } from '@langchain/core/callbacks/manager';
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import type { LlmErrorKind } from './LlmError';
+
+export type LlmProviderId = 'openai' | 'ollama' | 'anthropic' | 'llamacpp';
+
+/**
+ * Features a provider/model combination supports
+ */
+export interface LlmCapabilities {
+  vision: boolean;
+  tools: boolean;
+  streaming: boolean;
+  /** Replies can be constrained to a JSON schema */
+  structuredOutput: boolean;
+}
+
+/**
+ * Endpoint and credentials for a chat model
+ */
+export interface LlmConnectionSettings {
+  baseUrl: string;
+  apiKey: string;
+  model: string;
+}
+
+/**
+ * Per-call tweaks applied when building a chat model
+ */
+export interface ChatModelOptions {
+  temperature?: number;
+  timeout?: number;
+  maxRetries?: number;
+  /** LangChain callbacks attached to every call (e.g. usage tracking) */
+  callbacks?: Callbacks;
+  /** Replaces the HTTP client's fetch (e.g. cassette record/replay) */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Base interface for all LLM providers
+ */
+export interface ILlmProvider {
+  /**
+   * Unique identifier used by the `ani-vscode.llm.provider` setting
+   */
+  readonly id: LlmProviderId;
+
+  /**
+   * Human-readable name of the provider
+   */
+  readonly name: string;
+
+  /**
+   * Base URL used when `ani-vscode.llm.baseUrl` is empty
+   */
+  readonly defaultBaseUrl: string;
+
+  /**
+   * Best-effort capability detection for the given model
+   * Can be overridden by the `ani-vscode.llm.capabilities` setting
+   */
+  getCapabilities(model: string): LlmCapabilities;
+
+  /**
+   * Best-effort context window size (in tokens) for the given model
+   */
+  getContextWindow(model: string): number;
+
+  /**
+   * Create a LangChain chat model talking to this provider
+   */
+  createChatModel(settings: LlmConnectionSettings, options?: ChatModelOptions): BaseChatModel;
+
+  /**
+   * Classify provider-specific errors the generic classification can't recognize
+   * Return undefined to fall back to `classifyLlmError`
+   */
+  classifyError?(error: unknown): LlmErrorKind | undefined;
+
+  /**
+   * Call options that constrain the reply to `schema`
+   * Providers without native JSON-schema output leave this undefined
+   */
+  getStructuredOutputOptions?(name: string, schema: Record<string, unknown>): Record<string, unknown>;
+}
@@ -0,0 +1,43 @@
+import { ChatModelOptions, LlmCapabilities, LlmConnectionSettings } from './ILlmProvider';
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { OpenAIProvider } from './OpenAIProvider';
+import { looksVisionCapable } from './common';
+
+/**
+ * Provider for llama.cpp's llama-server, which serves an OpenAI-compatible API
+ * for whatever single model it was started with
+ */
+export class LlamaCppProvider extends OpenAIProvider {
+  readonly id = 'llamacpp' as const;
+  readonly name = 'llama.cpp server';
+  readonly defaultBaseUrl = 'http://localhost:8080/v1';
+
+  getCapabilities(model: string): LlmCapabilities {
+    return {
+      // Vision needs a multimodal projector loaded on the server, so only trust the model name
+      vision: looksVisionCapable(model),
+      // Tool calling requires the server to run with --jinja
+      tools: true,
+      streaming: true,
+      // llama-server converts response_format JSON schemas into a grammar
+      structuredOutput: true,
+    };
+  }
+
+  getContextWindow(): number {
+    // llama-server's default --ctx-size
+    return 4_096;
+  }
+
+  createChatModel(settings: LlmConnectionSettings, options?: ChatModelOptions): BaseChatModel {
+    return super.createChatModel(
+      {
+        ...settings,
+        // llama-server ignores the model name but the OpenAI client requires one
+        model: settings.model || 'default',
+        apiKey: settings.apiKey || 'no-key',
+      },
+      options
+    );
+  }
+}
@@ -0,0 +1,111 @@
+import type { LlmProviderId } from './ILlmProvider';
+import { getErrorStatus, isRetryableLlmError } from './LlmRetry';
+
+/**
+ * Broad categories of LLM failures, each with its own recovery path
+ */
+export type LlmErrorKind =
+  | 'auth'
+  | 'connection'
+  | 'modelMissing'
+  | 'rateLimit'
+  | 'contextTooLong'
+  | 'contentFilter'
+  | 'timeout'
+  | 'unknown';
+
+/**
+ * A provider error normalized into an `LlmErrorKind`
+ */
+export class LlmError extends Error {
+  constructor(
+    readonly kind: LlmErrorKind,
+    message: string,
+    readonly providerId: LlmProviderId,
+    readonly model: string,
+    readonly retryable: boolean,
+    readonly cause?: unknown
+  ) {
+    super(message);
+    this.name = 'LlmError';
+  }
+}
+
+const CONNECTION_CODES = new Set(['ECONNREFUSED', 'ECONNRESET', 'ENOTFOUND', 'EAI_AGAIN', 'EHOSTUNREACH', 'EPIPE']);
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error ?? '');
+}
+
+/**
+ * Provider-agnostic classification based on HTTP status, error codes and well-known messages
+ */
+export function classifyLlmError(error: unknown): LlmErrorKind {
+  const err = error as any;
+  const status = getErrorStatus(error);
+  const lcCode: string | undefined = err?.lc_error_code;
+  const code = String(err?.code ?? err?.cause?.code ?? '');
+  const message = errorMessage(error).toLowerCase();
+
+  if (
+    lcCode === 'MODEL_AUTHENTICATION' ||
+    status === 401 ||
+    status === 403 ||
+    code === 'invalid_api_key' ||
+    /api key|unauthori[sz]ed|authentication|permission denied|forbidden/.test(message)
+  ) {
+    return 'auth';
+  }
+  if (
+    code === 'context_length_exceeded' ||
+    status === 413 ||
+    /context length|context window|maximum context|too many tokens|prompt is too long|input is too long|exceeds the context/.test(message)
+  ) {
+    return 'contextTooLong';
+  }
+  if (code === 'content_filter' || /content (management )?policy|content filter|safety system|flagged as/.test(message)) {
+    return 'contentFilter';
+  }
+  if (
+    lcCode === 'MODEL_NOT_FOUND' ||
+    code === 'model_not_found' ||
+    (message.includes('model') && /not found|does not exist|not available|try pulling it/.test(message))
+  ) {
+    return 'modelMissing';
+  }
+  if (lcCode === 'MODEL_RATE_LIMIT' || status === 429 || status === 503 || status === 529) {
+    return 'rateLimit';
+  }
+  if (/rate limit|too many requests|overloaded|server is busy|quota/.test(message)) {
+    return 'rateLimit';
+  }
+  if (err?.name === 'TimeoutError' || status === 408 || status === 504 || code === 'ETIMEDOUT' || /timed? ?out/.test(message)) {
+    return 'timeout';
+  }
+  // A 404 without a model hint usually means the base URL points at the wrong path
+  if (
+    CONNECTION_CODES.has(code) ||
+    status === 404 ||
+    status === 502 ||
+    /econnrefused|fetch failed|getaddrinfo|network|connection error|socket hang up/.test(message)
+  ) {
+    return 'connection';
+  }
+  return 'unknown';
+}
+
+/**
+ * Wrap any error thrown while talking to a model into an `LlmError`
+ * `kind` lets providers pass a more precise classification than `classifyLlmError`
+ */
+export function toLlmError(
+  error: unknown,
+  providerId: LlmProviderId,
+  model: string,
+  kind: LlmErrorKind = classifyLlmError(error)
+): LlmError {
+  if (error instanceof LlmError) {
+    return error;
+  }
+  return new LlmError(kind, errorMessage(error), providerId, model, isRetryableLlmError(error), error);
+}
@@ -0,0 +1,146 @@
+import * as vscode from 'vscode';
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import {
+  ChatModelOptions,
+  ILlmProvider,
+  LlmCapabilities,
+  LlmConnectionSettings,
+  LlmProviderId,
+} from './ILlmProvider';
+import { OpenAIProvider } from './OpenAIProvider';
+import { OllamaProvider } from './OllamaProvider';
+import { AnthropicProvider } from './AnthropicProvider';
+import { LlamaCppProvider } from './LlamaCppProvider';
+import { LlmFallbackEntry } from './LlmRetry';
+import { LlmError, toLlmError } from './LlmError';
+
+const DEFAULT_PROVIDER_ID: LlmProviderId = 'openai';
+
+/**
+ * Resolved provider, connection settings and capabilities for the current configuration
+ */
+export interface ResolvedLlmProvider {
+  provider: ILlmProvider;
+  settings: LlmConnectionSettings;
+  capabilities: LlmCapabilities;
+  contextWindow: number;
+}
+
+/**
+ * Holds the available LLM providers and resolves the active one from settings
+ */
+export class LlmProviderRegistry {
+  private providers = new Map<LlmProviderId, ILlmProvider>();
+
+  /**
+   * `getFetch` may supply a fetch that every created chat model uses (e.g. the cassette)
+   */
+  constructor(private readonly getFetch?: () => typeof fetch | undefined) {
+    this.register(new OpenAIProvider());
+    this.register(new OllamaProvider());
+    this.register(new AnthropicProvider());
+    this.register(new LlamaCppProvider());
+  }
+
+  /**
+   * Register a provider, replacing any existing provider with the same id
+   */
+  register(provider: ILlmProvider): void {
+    this.providers.set(provider.id, provider);
+  }
+
+  /**
+   * Get all registered providers
+   */
+  getAllProviders(): ILlmProvider[] {
+    return [...this.providers.values()];
+  }
+
+  /**
+   * Resolve the provider selected by `ani-vscode.llm.provider` along with its
+   * connection settings and effective capabilities
+   */
+  resolve(config: vscode.WorkspaceConfiguration, model?: string): ResolvedLlmProvider {
+    const provider = this.getProvider(config.get<string>('llm.provider', DEFAULT_PROVIDER_ID));
+
+    const settings: LlmConnectionSettings = {
+      baseUrl: config.get<string>('llm.baseUrl', '') || provider.defaultBaseUrl,
+      apiKey: config.get<string>('llm.apiKey', 'dummy'),
+      model: model ?? config.get<string>('llm.model', 'gpt-4o-mini'),
+    };
+
+    const overrides = config.get<Partial<LlmCapabilities>>('llm.capabilities', {}) ?? {};
+    const detected = provider.getCapabilities(settings.model);
+    const capabilities: LlmCapabilities = {
+      vision: typeof overrides.vision === 'boolean' ? overrides.vision : detected.vision,
+      tools: typeof overrides.tools === 'boolean' ? overrides.tools : detected.tools,
+      streaming: typeof overrides.streaming === 'boolean' ? overrides.streaming : detected.streaming,
+      structuredOutput:
+        typeof overrides.structuredOutput === 'boolean' ? overrides.structuredOutput : detected.structuredOutput,
+    };
+
+    return { provider, settings, capabilities, contextWindow: provider.getContextWindow(settings.model) };
+  }
+
+  /**
+   * Resolve the primary model followed by every valid `ani-vscode.llm.fallbacks` entry, in order
+   * Fallbacks use detected capabilities; `ani-vscode.llm.capabilities` only applies to the primary model
+   */
+  resolveChain(config: vscode.WorkspaceConfiguration): ResolvedLlmProvider[] {
+    const primary = this.resolve(config);
+    const entries = config.get<LlmFallbackEntry[]>('llm.fallbacks', []) ?? [];
+    const chain = [primary];
+    for (const entry of entries) {
+      if (!entry || typeof entry.model !== 'string' || !entry.model.trim()) {
+        continue;
+      }
+      const provider = entry.provider ? this.getProvider(entry.provider) : primary.provider;
+      // Connection details are only inherited from the primary settings for the same provider
+      const sameProvider = provider.id === primary.provider.id;
+      const settings: LlmConnectionSettings = {
+        baseUrl: entry.baseUrl || (sameProvider ? primary.settings.baseUrl : provider.defaultBaseUrl),
+        apiKey: entry.apiKey ?? (sameProvider ? primary.settings.apiKey : ''),
+        model: entry.model.trim(),
+      };
+      chain.push({
+        provider,
+        settings,
+        capabilities: provider.getCapabilities(settings.model),
+        contextWindow: provider.getContextWindow(settings.model),
+      });
+    }
+    return chain;
+  }
+
+  /**
+   * Create a chat model for the active provider
+   * Pass `model` to use a different model than `ani-vscode.llm.model` (e.g. the fast model)
+   */
+  createChatModel(
+    config: vscode.WorkspaceConfiguration,
+    options?: ChatModelOptions & { model?: string }
+  ): { model: BaseChatModel; resolved: ResolvedLlmProvider } {
+    const resolved = this.resolve(config, options?.model);
+    return { model: this.createChatModelFor(resolved, options), resolved };
+  }
+
+  /**
+   * Create a chat model for an already resolved provider (e.g. a fallback model)
+   */
+  createChatModelFor(resolved: ResolvedLlmProvider, options?: ChatModelOptions): BaseChatModel {
+    const fetch = options?.fetch ?? this.getFetch?.();
+    return resolved.provider.createChatModel(resolved.settings, fetch ? { ...options, fetch } : options);
+  }
+
+  /**
+   * Normalize an error thrown by a model of `resolved` into a typed `LlmError`
+   */
+  toLlmError(resolved: ResolvedLlmProvider, error: unknown): LlmError {
+    const kind = resolved.provider.classifyError?.(error);
+    return toLlmError(error, resolved.provider.id, resolved.settings.model, kind);
+  }
+
+  private getProvider(id: string): ILlmProvider {
+    return this.providers.get(id as LlmProviderId) ?? this.providers.get(DEFAULT_PROVIDER_ID)!;
+  }
+}
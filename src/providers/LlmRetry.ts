@@ -0,0 +1,120 @@
+import type { LlmProviderId } from './ILlmProvider';
+
+/**
+ * One entry of the `ani-vscode.llm.fallbacks` setting
+ * Omitted fields are inherited from the primary `ani-vscode.llm.*` settings when the provider matches
+ */
+export interface LlmFallbackEntry {
+  provider?: LlmProviderId;
+  baseUrl?: string;
+  apiKey?: string;
+  model: string;
+}
+
+const RETRYABLE_STATUS = new Set([408, 425, 429, 500, 502, 503, 504, 529]);
+const RETRYABLE_CODES = new Set(['ECONNREFUSED', 'ECONNRESET', 'ETIMEDOUT', 'EAI_AGAIN', 'EPIPE', 'UND_ERR_SOCKET']);
+const RETRYABLE_MESSAGE = /rate limit|too many requests|overloaded|server is busy|temporarily unavailable|fetch failed|connection error|timed? ?out/i;
+
+/**
+ * HTTP status carried by an SDK error, if any
+ */
+export function getErrorStatus(error: unknown): number | undefined {
+  const err = error as any;
+  const status = err?.status ?? err?.status_code ?? err?.statusCode ?? err?.response?.status;
+  return typeof status === 'number' ? status : undefined;
+}
+
+function getErrorCode(error: unknown): string | undefined {
+  const err = error as any;
+  const code = err?.code ?? err?.cause?.code ?? err?.errno;
+  return typeof code === 'string' ? code : undefined;
+}
+
+/**
+ * Whether an LLM error is transient (busy, rate limited, unreachable) and worth retrying or falling back on
+ */
+export function isRetryableLlmError(error: unknown): boolean {
+  const status = getErrorStatus(error);
+  if (status !== undefined) {
+    return RETRYABLE_STATUS.has(status);
+  }
+  if ((error as any)?.lc_error_code === 'MODEL_RATE_LIMIT') {
+    return true;
+  }
+  const code = getErrorCode(error);
+  if (code && RETRYABLE_CODES.has(code)) {
+    return true;
+  }
+  const message = error instanceof Error ? error.message : String(error ?? '');
+  return RETRYABLE_MESSAGE.test(message) || (error as any)?.name === 'TimeoutError';
+}
+
+function readHeader(headers: unknown, name: string): string | undefined {
+  if (!headers) {
+    return undefined;
+  }
+  if (typeof (headers as Headers).get === 'function') {
+    return (headers as Headers).get(name) ?? undefined;
+  }
+  const record = headers as Record<string, unknown>;
+  const match = Object.keys(record).find((key) => key.toLowerCase() === name);
+  const value = match ? record[match] : undefined;
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Delay requested by a `Retry-After` (or `retry-after-ms`) response header, in milliseconds
+ */
+export function getRetryAfterMs(error: unknown, now: number = Date.now()): number | undefined {
+  const err = error as any;
+  const headers = err?.headers ?? err?.response?.headers;
+
+  const retryAfterMs = Number(readHeader(headers, 'retry-after-ms'));
+  if (Number.isFinite(retryAfterMs) && retryAfterMs >= 0) {
+    return retryAfterMs;
+  }
+
+  const retryAfter = readHeader(headers, 'retry-after')?.trim();
+  if (!retryAfter) {
+    return undefined;
+  }
+  // Either delta-seconds or an HTTP date
+  const seconds = Number(retryAfter);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Exponential backoff with jitter for the given zero-based attempt, preferring the server's Retry-After
+ */
+export function computeBackoffMs(attempt: number, baseDelayMs: number, retryAfterMs?: number): number {
+  if (retryAfterMs !== undefined) {
+    return retryAfterMs;
+  }
+  const exponential = baseDelayMs * 2 ** attempt;
+  return Math.round(exponential * (0.75 + Math.random() * 0.5));
+}
+
+/**
+ * Wait for `ms`, rejecting early when the signal aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
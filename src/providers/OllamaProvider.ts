@@ -0,0 +1,57 @@
+import { ChatOllama, ChatOllamaInput } from '@langchain/ollama';
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { ChatModelOptions, ILlmProvider, LlmCapabilities, LlmConnectionSettings } from './ILlmProvider';
+import { fetchWithTimeout, looksVisionCapable, trimBaseUrl } from './common';
+
+/**
+ * Provider for Ollama's native /api/chat endpoint
+ */
+export class OllamaProvider implements ILlmProvider {
+  readonly id = 'ollama' as const;
+  readonly name = 'Ollama';
+  readonly defaultBaseUrl = 'http://localhost:11434';
+
+  getCapabilities(model: string): LlmCapabilities {
+    return {
+      vision: looksVisionCapable(model),
+      tools: true,
+      streaming: true,
+      structuredOutput: true,
+    };
+  }
+
+  getContextWindow(): number {
+    // Ollama's default num_ctx, regardless of what the model supports
+    return 4_096;
+  }
+
+  createChatModel(settings: LlmConnectionSettings, options?: ChatModelOptions): BaseChatModel {
+    // Accept the OpenAI-compatible URL (http://localhost:11434/v1/) that Ollama users usually configure
+    const baseUrl = trimBaseUrl(settings.baseUrl || this.defaultBaseUrl, '/v1');
+    const fields: ChatOllamaInput = {
+      model: settings.model,
+      baseUrl,
+    };
+    if (settings.apiKey && settings.apiKey !== 'dummy') {
+      fields.headers = { Authorization: `Bearer ${settings.apiKey}` };
+    }
+    if (options?.temperature !== undefined) {
+      fields.temperature = options.temperature;
+    }
+    if (options?.maxRetries !== undefined) {
+      fields.maxRetries = options.maxRetries;
+    }
+    if (options?.callbacks) {
+      fields.callbacks = options.callbacks;
+    }
+    const timeoutFetch = fetchWithTimeout(options?.timeout, options?.fetch);
+    if (timeoutFetch) {
+      fields.fetch = timeoutFetch;
+    }
+    return new ChatOllama(fields);
+  }
+
+  getStructuredOutputOptions(_name: string, schema: Record<string, unknown>): Record<string, unknown> {
+    return { format: schema };
+  }
+}
@@ -0,0 +1,70 @@
+import { ChatOpenAI, ChatOpenAIFields } from '@langchain/openai';
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { ChatModelOptions, ILlmProvider, LlmCapabilities, LlmConnectionSettings, LlmProviderId } from './ILlmProvider';
+import { knownContextWindow, looksVisionCapable } from './common';
+import type { LlmErrorKind } from './LlmError';
+
+// `error.code` values returned by OpenAI and most compatible servers
+const OPENAI_ERROR_KINDS: Record<string, LlmErrorKind> = {
+  invalid_api_key: 'auth',
+  model_not_found: 'modelMissing',
+  context_length_exceeded: 'contextTooLong',
+  content_filter: 'contentFilter',
+  rate_limit_exceeded: 'rateLimit',
+  insufficient_quota: 'rateLimit',
+};
+
+/**
+ * Provider for OpenAI and any OpenAI-compatible /chat/completions endpoint
+ */
+export class OpenAIProvider implements ILlmProvider {
+  readonly id: LlmProviderId = 'openai';
+  readonly name: string = 'OpenAI-compatible';
+  readonly defaultBaseUrl: string = 'https://api.openai.com/v1';
+
+  getCapabilities(model: string): LlmCapabilities {
+    return {
+      vision: looksVisionCapable(model),
+      tools: true,
+      streaming: true,
+      structuredOutput: true,
+    };
+  }
+
+  getContextWindow(model: string): number {
+    // Unknown names are usually local models served through an OpenAI-compatible API, so stay conservative
+    return knownContextWindow(model, 8_192);
+  }
+
+  createChatModel(settings: LlmConnectionSettings, options?: ChatModelOptions): BaseChatModel {
+    const llmFields: ChatOpenAIFields = {
+      model: settings.model,
+      configuration: { baseURL: settings.baseUrl || this.defaultBaseUrl, fetch: options?.fetch },
+    };
+    if (settings.apiKey) {
+      llmFields.apiKey = settings.apiKey;
+    }
+    if (options?.temperature !== undefined) {
+      llmFields.temperature = options.temperature;
+    }
+    if (options?.timeout !== undefined) {
+      llmFields.timeout = options.timeout;
+    }
+    if (options?.maxRetries !== undefined) {
+      llmFields.maxRetries = options.maxRetries;
+    }
+    if (options?.callbacks) {
+      llmFields.callbacks = options.callbacks;
+    }
+    return new ChatOpenAI(llmFields);
+  }
+
+  getStructuredOutputOptions(name: string, schema: Record<string, unknown>): Record<string, unknown> {
+    return { response_format: { type: 'json_schema', json_schema: { name, strict: true, schema } } };
+  }
+
+  classifyError(error: unknown): LlmErrorKind | undefined {
+    const code = (error as any)?.code ?? (error as any)?.error?.code;
+    return typeof code === 'string' ? OPENAI_ERROR_KINDS[code] : undefined;
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * Model name fragments of known vision-capable models across providers
+ */
+const VISION_MODEL_PATTERNS = [
+  /gpt-4o/i,
+  /gpt-4\.1/i,
+  /gpt-4-turbo/i,
+  /gpt-4-vision/i,
+  /gpt-5/i,
+  /\bo[134](?:-|$)/i,
+  /claude-(?:3|sonnet|opus|haiku)/i,
+  /gemma3/i,
+  /gemini/i,
+  /llava/i,
+  /bakllava/i,
+  /moondream/i,
+  /minicpm-v/i,
+  /llama3\.2-vision/i,
+  /llama4/i,
+  /qwen2\.5vl/i,
+  /qwen2\.5-vl/i,
+  /qwen-vl/i,
+  /pixtral/i,
+  /mistral-small3/i,
+  /granite3\.2-vision/i,
+];
+
+/**
+ * Guess whether a model accepts image input based on its name
+ */
+export function looksVisionCapable(model: string): boolean {
+  return VISION_MODEL_PATTERNS.some((pattern) => pattern.test(model));
+}
+
+/**
+ * Context windows of well-known hosted models, checked in order
+ */
+const KNOWN_CONTEXT_WINDOWS: Array<[RegExp, number]> = [
+  [/gpt-4\.1/i, 1_000_000],
+  [/gpt-5/i, 400_000],
+  [/\bo[134](?:-|$)/i, 200_000],
+  [/claude/i, 200_000],
+  [/gemini/i, 1_000_000],
+  [/gpt-4o|gpt-4-turbo/i, 128_000],
+  [/gpt-3\.5/i, 16_385],
+  [/gpt-4/i, 8_192],
+];
+
+/**
+ * Look up the context window of a well-known model, or return `fallback`
+ */
+export function knownContextWindow(model: string, fallback: number): number {
+  const match = KNOWN_CONTEXT_WINDOWS.find(([pattern]) => pattern.test(model));
+  return match ? match[1] : fallback;
+}
+
+/**
+ * Remove trailing slashes and an optional trailing path segment (e.g. "/v1")
+ */
+export function trimBaseUrl(baseUrl: string, suffix?: string): string {
+  let trimmed = baseUrl.trim().replace(/\/+$/, '');
+  if (suffix && trimmed.toLowerCase().endsWith(suffix.toLowerCase())) {
+    trimmed = trimmed.slice(0, -suffix.length).replace(/\/+$/, '');
+  }
+  return trimmed;
+}
+
+/**
+ * Wrap fetch (or `baseFetch`) so requests abort after `timeoutMs`
+ * Returns `baseFetch` unchanged when there is no timeout
+ */
+export function fetchWithTimeout(timeoutMs: number | undefined, baseFetch?: typeof fetch): typeof fetch | undefined {
+  if (!timeoutMs || timeoutMs <= 0) {
+    return baseFetch;
+  }
+  const send = baseFetch ?? fetch;
+  return (input, init) => {
+    const timeoutSignal = AbortSignal.timeout(timeoutMs);
+    if (!init?.signal) {
+      return send(input, { ...init, signal: timeoutSignal });
+    }
+    return send(input, { ...init, signal: combineSignals(init.signal, timeoutSignal) });
+  };
+}
+
+/**
+ * Abort when either signal aborts
+ * `AbortSignal.any` would do this, but it needs a newer Node than the oldest supported VS Code ships
+ */
+function combineSignals(first: AbortSignal, second: AbortSignal): AbortSignal {
+  const controller = new AbortController();
+  const signals = [first, second];
+  const onAbort = (event: Event) => {
+    for (const signal of signals) {
+      signal.removeEventListener('abort', onAbort);
+    }
+    controller.abort((event.target as AbortSignal).reason);
+  };
+  for (const signal of signals) {
+    if (signal.aborted) {
+      controller.abort(signal.reason);
+      return controller.signal;
+    }
+  }
+  for (const signal of signals) {
+    signal.addEventListener('abort', onAbort);
+  }
+  return controller.signal;
+}
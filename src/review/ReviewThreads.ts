@@ -0,0 +1,186 @@
+import * as vscode from 'vscode';
+
+export type FindingSeverity = 'error' | 'warning' | 'info';
+
+export const FINDING_SEVERITIES: FindingSeverity[] = ['error', 'warning', 'info'];
+
+/**
+ * A problem the model found while reviewing a file
+ */
+export interface ReviewFinding {
+  /** 0-based line */
+  line: number;
+  severity: FindingSeverity;
+  message: string;
+}
+
+/**
+ * What a reply in a thread needs to know about it
+ */
+export interface ReviewThreadContext {
+  uri: vscode.Uri;
+  filePath: string;
+  /** 0-based line the thread is on now; VS Code moves threads as the file is edited */
+  line: number;
+  finding: ReviewFinding;
+  /** Earlier comments, oldest first */
+  comments: Array<{ author: string; text: string }>;
+}
+
+interface ThreadInfo {
+  uri: vscode.Uri;
+  finding: ReviewFinding;
+  /** Text of the reviewed line when the finding was raised */
+  code: string;
+}
+
+/**
+ * A finding the user resolved, kept in workspaceState so it is not raised again
+ */
+interface ResolvedFinding {
+  filePath: string;
+  code: string;
+  message: string;
+}
+
+const CONTROLLER_ID = 'ani-vscode.review';
+const RESOLVED_STATE_KEY = 'ani-vscode.review.resolvedFindings';
+const MAX_RESOLVED = 200;
+const ANI_AUTHOR: vscode.CommentAuthorInformation = { name: 'Ani' };
+const USER_AUTHOR: vscode.CommentAuthorInformation = { name: 'You' };
+const SEVERITY_LABELS: Record<FindingSeverity, string> = { error: 'Error', warning: 'Warning', info: 'Info' };
+
+// Wording changes between reviews, so findings are compared without case, punctuation or spacing
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+function commentText(comment: vscode.Comment): string {
+  return typeof comment.body === 'string' ? comment.body : comment.body.value;
+}
+
+/**
+ * Review findings shown as comment threads in the editor, through the Comments API
+ */
+export class ReviewThreads implements vscode.Disposable {
+  private readonly controller: vscode.CommentController;
+  private threads = new Map<vscode.CommentThread, ThreadInfo>();
+
+  constructor(private readonly state: vscode.Memento, private readonly logger?: vscode.OutputChannel) {
+    this.controller = vscode.comments.createCommentController(CONTROLLER_ID, 'Ani Review');
+  }
+
+  /**
+   * Remove the open threads of an earlier review of the file; resolved threads stay
+   */
+  startReview(uri: vscode.Uri): void {
+    for (const [thread, info] of this.threads) {
+      if (info.uri.toString() === uri.toString() && thread.state !== vscode.CommentThreadState.Resolved) {
+        this.threads.delete(thread);
+        thread.dispose();
+      }
+    }
+  }
+
+  /**
+   * Add a thread for a finding, unless the user already resolved the same one
+   */
+  addFinding(doc: vscode.TextDocument, finding: ReviewFinding): vscode.CommentThread | undefined {
+    const code = doc.lineAt(finding.line).text;
+    if (this.isResolved(doc.uri, code, finding.message)) {
+      return undefined;
+    }
+
+    const thread = this.controller.createCommentThread(doc.uri, doc.lineAt(finding.line).range, [
+      this.createComment(finding.message, ANI_AUTHOR, SEVERITY_LABELS[finding.severity]),
+    ]);
+    thread.label = `Ani: ${SEVERITY_LABELS[finding.severity]}`;
+    thread.state = vscode.CommentThreadState.Unresolved;
+    thread.contextValue = 'unresolved';
+    thread.collapsibleState = vscode.CommentThreadCollapsibleState.Expanded;
+    this.threads.set(thread, { uri: doc.uri, finding, code });
+    return thread;
+  }
+
+  /**
+   * Findings the user resolved in a file, one per line, to tell the model what not to raise again
+   */
+  describeResolved(uri: vscode.Uri): string {
+    const filePath = vscode.workspace.asRelativePath(uri, false);
+    return this.readResolved()
+      .filter((resolved) => resolved.filePath === filePath)
+      .map((resolved) => `- \`${resolved.code.trim()}\`: ${resolved.message}`)
+      .join('\n');
+  }
+
+  /**
+   * Show what the user wrote in a thread and return what a reply needs to know about the thread
+   */
+  addUserReply(thread: vscode.CommentThread, text: string): ReviewThreadContext | undefined {
+    const info = this.threads.get(thread);
+    if (!info) {
+      return undefined;
+    }
+    const earlier = thread.comments.map((comment) => ({ author: comment.author.name, text: commentText(comment) }));
+    thread.comments = [...thread.comments, this.createComment(text, USER_AUTHOR)];
+    return {
+      uri: info.uri,
+      filePath: vscode.workspace.asRelativePath(info.uri, false),
+      line: thread.range?.start.line ?? info.finding.line,
+      finding: info.finding,
+      comments: earlier,
+    };
+  }
+
+  addAniReply(thread: vscode.CommentThread, markdown: string): void {
+    if (this.threads.has(thread)) {
+      thread.comments = [...thread.comments, this.createComment(markdown, ANI_AUTHOR)];
+    }
+  }
+
+  /**
+   * Mark a thread resolved and remember its finding
+   */
+  async resolve(thread: vscode.CommentThread): Promise<void> {
+    const info = this.threads.get(thread);
+    if (!info) {
+      return;
+    }
+    thread.state = vscode.CommentThreadState.Resolved;
+    thread.contextValue = 'resolved';
+    thread.collapsibleState = vscode.CommentThreadCollapsibleState.Collapsed;
+
+    const resolved: ResolvedFinding = {
+      filePath: vscode.workspace.asRelativePath(info.uri, false),
+      code: info.code,
+      message: info.finding.message,
+    };
+    if (!this.isResolved(info.uri, resolved.code, resolved.message)) {
+      await this.state.update(RESOLVED_STATE_KEY, [...this.readResolved(), resolved].slice(-MAX_RESOLVED));
+      this.logger?.appendLine(`[Review] Resolved "${resolved.message}" in ${resolved.filePath}`);
+    }
+  }
+
+  dispose(): void {
+    this.threads.clear();
+    this.controller.dispose();
+  }
+
+  private isResolved(uri: vscode.Uri, code: string, message: string): boolean {
+    const filePath = vscode.workspace.asRelativePath(uri, false);
+    return this.readResolved().some(
+      (resolved) =>
+        resolved.filePath === filePath &&
+        resolved.code.trim() === code.trim() &&
+        normalize(resolved.message) === normalize(message)
+    );
+  }
+
+  private readResolved(): ResolvedFinding[] {
+    return this.state.get<ResolvedFinding[]>(RESOLVED_STATE_KEY, []);
+  }
+
+  private createComment(text: string, author: vscode.CommentAuthorInformation, label?: string): vscode.Comment {
+    return { body: new vscode.MarkdownString(text), mode: vscode.CommentMode.Preview, author, label };
+  }
+}
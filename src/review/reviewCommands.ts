@@ -0,0 +1,104 @@
+import * as vscode from 'vscode';
+import type { AgentLoop } from '../AgentLoop';
+import type { PromptTemplate } from '../plugins/IPlugin';
+import type { ReviewThreads } from './ReviewThreads';
+
+// Lines shown on each side of the thread's line
+const CONTEXT_RADIUS = 6;
+
+const THREAD_REPLY_TEMPLATE: PromptTemplate = {
+  id: 'review.threadReply',
+  description: 'Reply in a review comment thread',
+  variables: {
+    filePath: 'Workspace-relative path of the file',
+    language: 'VS Code language id of the file',
+    line: 'Line the thread is on (1-based)',
+    code: 'The lines around the thread',
+    severity: 'Severity of the finding: error, warning or info',
+    finding: 'The finding that started the thread',
+    conversation: 'Earlier replies in the thread, one per line',
+    message: 'What the user just wrote',
+  },
+  defaultTemplate: [
+    'File: {{filePath}}  |  Language: {{language}}  |  Line: {{line}}',
+    '```{{language}}',
+    '{{code}}',
+    '```',
+    'You left this review comment ({{severity}}) on line {{line}}: {{finding}}',
+    '{{#if conversation}}Replies so far:',
+    '{{conversation}}',
+    '{{/if}}The user replied in the thread: {{message}}',
+    '',
+    'Answer them about this finding. Keep it short.',
+  ].join('\n'),
+};
+
+/**
+ * Templates behind review thread replies, listed by "Ani: Customize Prompt Template"
+ */
+export const REVIEW_PROMPT_TEMPLATES: PromptTemplate[] = [THREAD_REPLY_TEMPLATE];
+
+/**
+ * Register the commands behind the Reply and Resolve buttons of review threads
+ * `openAgentLoop` shows the panel, creating it if needed, and returns its agent loop
+ */
+export function registerReviewCommands(
+  reviewThreads: ReviewThreads,
+  openAgentLoop: () => Promise<AgentLoop | undefined>
+): vscode.Disposable {
+  return vscode.Disposable.from(
+    vscode.commands.registerCommand('ani-vscode.review.reply', async (reply: vscode.CommentReply) => {
+      const message = reply.text.trim();
+      if (!message) {
+        return;
+      }
+      const agentLoop = await openAgentLoop();
+      if (!agentLoop) {
+        return;
+      }
+      if (agentLoop.isExcluded(reply.thread.uri)) {
+        const filePath = vscode.workspace.asRelativePath(reply.thread.uri, false);
+        vscode.window.showWarningMessage(`Ani: ${filePath} is excluded by the privacy settings.`);
+        return;
+      }
+      const context = reviewThreads.addUserReply(reply.thread, message);
+      if (!context) {
+        return;
+      }
+
+      const doc = await vscode.workspace.openTextDocument(context.uri);
+      const start = Math.max(0, context.line - CONTEXT_RADIUS);
+      const end = Math.min(doc.lineCount - 1, context.line + CONTEXT_RADIUS);
+      const code: string[] = [];
+      for (let line = start; line <= end; line++) {
+        code.push(doc.lineAt(line).text);
+      }
+
+      const prompt = agentLoop.renderPrompt(THREAD_REPLY_TEMPLATE, {
+        filePath: context.filePath,
+        language: doc.languageId,
+        line: context.line + 1,
+        code: code.join('\n'),
+        severity: context.finding.severity,
+        finding: context.finding.message,
+        conversation: context.comments
+          .slice(1)
+          .map((comment) => `${comment.author}: ${comment.text}`)
+          .join('\n'),
+        message,
+      });
+
+      agentLoop.cancelCurrentTurn('userMessage');
+      agentLoop.enqueueUserMessage(prompt, {
+        priority: true,
+        displayText: message,
+        onReply: (answer) => reviewThreads.addAniReply(reply.thread, answer),
+        uri: context.uri,
+      });
+      agentLoop.trigger();
+    }),
+    vscode.commands.registerCommand('ani-vscode.review.resolve', async (thread: vscode.CommentThread) => {
+      await reviewThreads.resolve(thread);
+    })
+  );
+}
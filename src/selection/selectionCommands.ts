@@ -0,0 +1,206 @@
+import * as vscode from 'vscode';
+import type { AgentLoop } from '../AgentLoop';
+import type { PromptTemplate } from '../plugins/IPlugin';
+import type { ReviewThreads } from '../review/ReviewThreads';
+import { REPORT_FINDING_TOOL_NAME } from '../tools/review/ReportFindingTool';
+
+// Longer files are cut so a single request stays within a small model's context
+const MAX_LINES = 400;
+const MAX_CHARS = 24000;
+
+const TARGET_VARIABLES: Record<string, string> = {
+  filePath: 'Workspace-relative path of the file',
+  language: 'VS Code language id of the file',
+  subject: '"selected code" or "file", depending on what is sent',
+  startLine: 'First line sent (1-based)',
+  endLine: 'Last line sent (1-based)',
+  code: 'The selected code, or the whole file when nothing is selected',
+  numberedCode: 'The same code with each line prefixed by its line number (e.g. "12: return total;")',
+  omittedLines: 'Number of lines left out because the file or selection is too long',
+};
+
+const CODE_BLOCK = [
+  'File: {{filePath}}  |  Language: {{language}}  |  Lines: {{startLine}}-{{endLine}}',
+  '```{{language}}',
+  '{{code}}',
+  '```',
+  '{{#if omittedLines}}({{omittedLines}} more lines not shown)',
+  '{{/if}}',
+].join('\n');
+
+// Models can't count lines, so prompts that ask for line numbers show them on every line
+const NUMBERED_CODE_BLOCK = CODE_BLOCK.replace('{{code}}', '{{numberedCode}}');
+
+const EXPLAIN_TEMPLATE: PromptTemplate = {
+  id: 'selection.explain',
+  description: 'Explain the selection or file ("Ani: Explain Selection")',
+  variables: TARGET_VARIABLES,
+  defaultTemplate: `${CODE_BLOCK}Explain what the {{subject}} above does and how it works, as if to a teammate seeing it for the first time. Mention anything surprising. Keep it short.`,
+};
+
+const ROAST_TEMPLATE: PromptTemplate = {
+  id: 'selection.roast',
+  description: 'Roast the selection or file ("Ani: Roast Selection")',
+  variables: TARGET_VARIABLES,
+  defaultTemplate: `${CODE_BLOCK}Roast the {{subject}} above. Be concise, witty, and constructive.`,
+};
+
+const REVIEW_FILE_TEMPLATE: PromptTemplate = {
+  id: 'selection.reviewFile',
+  description: 'Review the whole file ("Ani: Review File")',
+  variables: TARGET_VARIABLES,
+  defaultTemplate: `${NUMBERED_CODE_BLOCK}Review the file above; each line starts with its line number. Point out bugs, risky patterns and readability problems, most important first, with the line numbers they are on. Skip style nitpicks. Keep it brief.`,
+};
+
+const REVIEW_FILE_COMMENTS_TEMPLATE: PromptTemplate = {
+  id: 'selection.reviewFileComments',
+  description: 'Review the whole file as comment threads ("Ani: Review File" with `reviewFile.mode` set to "comments")',
+  variables: {
+    ...TARGET_VARIABLES,
+    resolvedFindings: 'Findings the user resolved in earlier reviews of the file, one per line',
+  },
+  defaultTemplate: [
+    `${NUMBERED_CODE_BLOCK}Review the file above; each line starts with its line number. Call report_review_finding once for each bug, risky pattern or readability problem, on the line it is on, most important first. Skip style nitpicks.`,
+    '{{#if resolvedFindings}}The user already resolved these findings, so do not raise them again:',
+    '{{resolvedFindings}}',
+    '{{/if}}When you are done, sum up the review in one or two sentences.',
+  ].join('\n'),
+};
+
+const SUGGEST_TESTS_TEMPLATE: PromptTemplate = {
+  id: 'selection.suggestTests',
+  description: 'Suggest tests for the selection or file ("Ani: Suggest Tests")',
+  variables: TARGET_VARIABLES,
+  defaultTemplate: `${CODE_BLOCK}Suggest tests for the {{subject}} above: list the cases worth covering, including edge cases and failures, then sketch the most valuable one in the test framework this project most likely uses.`,
+};
+
+/**
+ * Templates behind the selection commands, listed by "Ani: Customize Prompt Template"
+ */
+export const SELECTION_PROMPT_TEMPLATES: PromptTemplate[] = [
+  EXPLAIN_TEMPLATE,
+  ROAST_TEMPLATE,
+  REVIEW_FILE_TEMPLATE,
+  REVIEW_FILE_COMMENTS_TEMPLATE,
+  SUGGEST_TESTS_TEMPLATE,
+];
+
+interface SelectionCommand {
+  command: string;
+  /** Shown in the transcript in place of the full prompt */
+  label: string;
+  template: PromptTemplate;
+  /** Send the whole file even when text is selected */
+  wholeDocument?: boolean;
+  /** Used instead of `template` when `reviewFile.mode` is "comments" */
+  commentsTemplate?: PromptTemplate;
+}
+
+const SELECTION_COMMANDS: SelectionCommand[] = [
+  { command: 'ani-vscode.explainSelection', label: 'Explain', template: EXPLAIN_TEMPLATE },
+  { command: 'ani-vscode.roastSelection', label: 'Roast', template: ROAST_TEMPLATE },
+  { command: 'ani-vscode.reviewFile', label: 'Review', template: REVIEW_FILE_TEMPLATE, wholeDocument: true, commentsTemplate: REVIEW_FILE_COMMENTS_TEMPLATE },
+  { command: 'ani-vscode.suggestTests', label: 'Suggest tests for', template: SUGGEST_TESTS_TEMPLATE },
+];
+
+/**
+ * The selected lines, or the whole document when nothing is selected, cut to `MAX_LINES` and `MAX_CHARS`
+ */
+function readCommandTarget(
+  editor: vscode.TextEditor,
+  wholeDocument: boolean
+): {
+  subject: 'selected code' | 'file';
+  startLine: number;
+  endLine: number;
+  code: string;
+  numberedCode: string;
+  omittedLines: number;
+} {
+  const doc = editor.document;
+  const selection = editor.selection;
+  const useSelection = !wholeDocument && !selection.isEmpty;
+  const startLine = useSelection ? selection.start.line : 0;
+  let endLine = useSelection ? selection.end.line : doc.lineCount - 1;
+  // A selection ending at the start of a line doesn't include that line
+  if (useSelection && endLine > startLine && selection.end.character === 0) {
+    endLine--;
+  }
+
+  const lines: string[] = [];
+  let chars = 0;
+  for (let line = startLine; line <= endLine && lines.length < MAX_LINES; line++) {
+    const text = doc.lineAt(line).text;
+    if (lines.length > 0 && chars + text.length > MAX_CHARS) {
+      break;
+    }
+    lines.push(text);
+    chars += text.length + 1;
+  }
+
+  const lastSent = startLine + lines.length - 1;
+  return {
+    subject: useSelection ? 'selected code' : 'file',
+    startLine: startLine + 1,
+    endLine: lastSent + 1,
+    code: lines.join('\n'),
+    numberedCode: lines.map((text, index) => `${startLine + index + 1}: ${text}`).join('\n'),
+    omittedLines: endLine - lastSent,
+  };
+}
+
+/**
+ * Register the commands that point Ani at the current selection or file
+ * `openAgentLoop` shows the panel, creating it if needed, and returns its agent loop
+ */
+export function registerSelectionCommands(
+  openAgentLoop: () => Promise<AgentLoop | undefined>,
+  reviewThreads: ReviewThreads
+): vscode.Disposable {
+  return vscode.Disposable.from(
+    ...SELECTION_COMMANDS.map((spec) =>
+      vscode.commands.registerCommand(spec.command, async () => {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) {
+          vscode.window.showInformationMessage('Ani: open a file first.');
+          return;
+        }
+
+        const agentLoop = await openAgentLoop();
+        if (!agentLoop) {
+          return;
+        }
+        const filePath = vscode.workspace.asRelativePath(editor.document.uri, false);
+        if (agentLoop.isExcluded(editor.document.uri)) {
+          vscode.window.showWarningMessage(`Ani: ${filePath} is excluded by the privacy settings.`);
+          return;
+        }
+
+        const target = readCommandTarget(editor, Boolean(spec.wholeDocument));
+        const commentsTemplate =
+          vscode.workspace.getConfiguration('ani-vscode').get<string>('reviewFile.mode', 'speech') === 'comments'
+            ? spec.commentsTemplate
+            : undefined;
+        if (commentsTemplate) {
+          reviewThreads.startReview(editor.document.uri);
+        }
+        const prompt = agentLoop.renderPrompt(commentsTemplate ?? spec.template, {
+          ...target,
+          filePath,
+          language: editor.document.languageId,
+          ...(commentsTemplate ? { resolvedFindings: reviewThreads.describeResolved(editor.document.uri) } : {}),
+        });
+        const where = target.subject === 'file' ? filePath : `${filePath}:${target.startLine}-${target.endLine}`;
+
+        agentLoop.cancelCurrentTurn('userMessage');
+        agentLoop.enqueueUserMessage(prompt, {
+          priority: true,
+          displayText: `${spec.label} ${where}`,
+          uri: editor.document.uri,
+          tools: commentsTemplate ? [REPORT_FINDING_TOOL_NAME] : undefined,
+        });
+        agentLoop.trigger();
+      })
+    )
+  );
+}
@@ -0,0 +1,127 @@
+import * as vscode from 'vscode';
+import type { AgentLoop, AgentStatus } from '../AgentLoop';
+
+// Commands linked from the hover; they must be listed to run from a trusted tooltip
+const TOOLTIP_COMMANDS = ['ani-vscode.toggleMute', 'ani-vscode.triggerPlugin', 'ani-vscode.reconnect'];
+
+function describeStatus(status: AgentStatus, muted: boolean, now: number): { icon: string; detail: string; suffix?: string } {
+  switch (status.state) {
+    case 'thinking':
+      return { icon: 'loading~spin', detail: 'Ani is thinking…' };
+    case 'cooldown': {
+      const seconds = Math.ceil((status.until - now) / 1000);
+      if (seconds > 0) {
+        return { icon: muted ? 'mute' : 'watch', detail: `Ani can speak again in ${seconds}s.`, suffix: `${seconds}s` };
+      }
+      break;
+    }
+    case 'offline':
+      return { icon: 'debug-disconnect', detail: `Ani can't reach the LLM server: ${status.message}` };
+    case 'error':
+      return { icon: 'error', detail: `Ani's last reply failed: ${status.message}` };
+  }
+  return muted
+    ? { icon: 'mute', detail: 'Ani is muted and only answers your messages.' }
+    : { icon: 'smiley', detail: 'Ani is idle.' };
+}
+
+/**
+ * Status bar item showing what the open panel's agent loop is doing, so it is visible while the panel is in the background
+ */
+export class AniStatusBar implements vscode.Disposable {
+  private readonly item = vscode.window.createStatusBarItem('ani-vscode.status', vscode.StatusBarAlignment.Right, 100);
+  private agentLoop: AgentLoop | undefined;
+  private subscription: vscode.Disposable | undefined;
+  private countdownTimer: NodeJS.Timeout | undefined;
+  private configListener: vscode.Disposable;
+
+  constructor() {
+    this.item.name = 'Ani';
+    this.item.command = 'ani-vscode.focusPanel';
+    this.configListener = vscode.workspace.onDidChangeConfiguration((event) => {
+      if (event.affectsConfiguration('ani-vscode.statusBar.enabled')) {
+        this.render();
+      }
+    });
+    this.render();
+  }
+
+  /**
+   * Follow the status of a newly opened panel's agent loop
+   */
+  attach(agentLoop: AgentLoop): void {
+    this.subscription?.dispose();
+    this.agentLoop = agentLoop;
+    this.subscription = agentLoop.onDidChangeStatus(() => this.render());
+    this.render();
+  }
+
+  /**
+   * Stop following an agent loop whose panel was closed
+   */
+  detach(agentLoop: AgentLoop): void {
+    if (this.agentLoop !== agentLoop) {
+      return;
+    }
+    this.subscription?.dispose();
+    this.subscription = undefined;
+    this.agentLoop = undefined;
+    this.render();
+  }
+
+  dispose(): void {
+    this.stopCountdown();
+    this.subscription?.dispose();
+    this.configListener.dispose();
+    this.item.dispose();
+  }
+
+  private render(): void {
+    this.stopCountdown();
+    if (!vscode.workspace.getConfiguration('ani-vscode').get<boolean>('statusBar.enabled', true)) {
+      this.item.hide();
+      return;
+    }
+
+    if (!this.agentLoop) {
+      this.item.text = '$(smiley) Ani';
+      this.item.tooltip = 'Ani is closed. Click to open the panel.';
+      this.item.backgroundColor = undefined;
+      this.item.show();
+      return;
+    }
+
+    const status = this.agentLoop.getStatus();
+    const muted = this.agentLoop.isMuted();
+    const { icon, detail, suffix } = describeStatus(status, muted, Date.now());
+    this.item.text = `$(${icon}) Ani${suffix ? ` ${suffix}` : ''}`;
+    this.item.backgroundColor =
+      status.state === 'error' || status.state === 'offline' ? new vscode.ThemeColor('statusBarItem.errorBackground') : undefined;
+
+    const tooltip = new vscode.MarkdownString(undefined, true);
+    tooltip.isTrusted = { enabledCommands: TOOLTIP_COMMANDS };
+    tooltip.appendText(detail);
+    tooltip.appendMarkdown(
+      [
+        '\n\n',
+        muted ? '[$(unmute) Unmute](command:ani-vscode.toggleMute)' : '[$(mute) Mute](command:ani-vscode.toggleMute)',
+        ' · [$(play) Trigger a plugin](command:ani-vscode.triggerPlugin)',
+        ' · [$(refresh) Reconnect](command:ani-vscode.reconnect)',
+      ].join('')
+    );
+    this.item.tooltip = tooltip;
+    this.item.show();
+
+    // Tick the countdown once a second until the cooldown is over
+    if (status.state === 'cooldown' && suffix) {
+      this.countdownTimer = setTimeout(() => this.render(), 1000);
+    }
+  }
+
+  private stopCountdown(): void {
+    if (this.countdownTimer) {
+      clearTimeout(this.countdownTimer);
+      this.countdownTimer = undefined;
+    }
+  }
+}
@@ -0,0 +1,40 @@
+import * as vscode from 'vscode';
+import type { AgentLoop } from '../AgentLoop';
+
+/**
+ * Register the commands behind the status bar item and its hover
+ * `openAgentLoop` shows the panel, creating it if needed, and returns its agent loop
+ */
+export function registerStatusCommands(openAgentLoop: () => Promise<AgentLoop | undefined>): vscode.Disposable {
+  return vscode.Disposable.from(
+    vscode.commands.registerCommand('ani-vscode.focusPanel', async () => {
+      await openAgentLoop();
+    }),
+    vscode.commands.registerCommand('ani-vscode.toggleMute', async () => {
+      const agentLoop = await openAgentLoop();
+      agentLoop?.setMuted(!agentLoop.isMuted());
+    }),
+    vscode.commands.registerCommand('ani-vscode.triggerPlugin', async () => {
+      const agentLoop = await openAgentLoop();
+      if (!agentLoop) {
+        return;
+      }
+      const plugins = agentLoop.getEnabledPlugins();
+      if (plugins.length === 0) {
+        vscode.window.showInformationMessage('Ani: no plugins are enabled.');
+        return;
+      }
+      const picked = await vscode.window.showQuickPick(
+        plugins.map((plugin) => ({ label: plugin.name, description: plugin.id, plugin })),
+        { placeHolder: 'What should Ani talk about?' }
+      );
+      if (picked) {
+        await agentLoop.triggerPlugin(picked.plugin.id, 'manual');
+      }
+    }),
+    vscode.commands.registerCommand('ani-vscode.reconnect', async () => {
+      const agentLoop = await openAgentLoop();
+      await agentLoop?.checkConnection();
+    })
+  );
+}
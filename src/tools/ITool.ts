@@ -0,0 +1,49 @@
+import * as vscode from 'vscode';
+import type { PluginContext } from '../plugins/IPlugin';
+
+/**
+ * JSON schema describing a tool's arguments
+ */
+export type ToolParameters = {
+  type: 'object';
+  properties: Record<string, unknown>;
+  required?: string[];
+  [key: string]: unknown;
+};
+
+/**
+ * A function the LLM can call during a reply
+ */
+export interface ITool {
+  /**
+   * Unique name the model uses to call the tool (snake_case)
+   */
+  readonly name: string;
+
+  /**
+   * Description shown to the model explaining when to use the tool
+   */
+  readonly description: string;
+
+  /**
+   * JSON schema for the tool arguments
+   */
+  readonly parameters: ToolParameters;
+
+  /**
+   * Only offer the tool on turns whose message asks for it (see `EnqueueMessageOptions.tools`)
+   */
+  readonly onRequest?: boolean;
+
+  /**
+   * Whether this tool is currently available
+   * Returns true by default if not implemented
+   */
+  isEnabled?(config: vscode.WorkspaceConfiguration): boolean;
+
+  /**
+   * Run the tool and return the text sent back to the model
+   * Throwing marks the tool call as failed and reports the error message to the model
+   */
+  execute(args: Record<string, unknown>, context: PluginContext): Promise<string>;
+}
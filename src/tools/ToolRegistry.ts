@@ -0,0 +1,93 @@
+import * as vscode from 'vscode';
+import type { IPlugin } from '../plugins/IPlugin';
+import { ITool } from './ITool';
+
+interface RegisteredTool {
+  tool: ITool;
+  owner?: IPlugin;
+}
+
+/**
+ * OpenAI-style function definition accepted by `bindTools`
+ */
+export interface ToolFunctionDefinition {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: Record<string, unknown>;
+  };
+}
+
+/**
+ * Holds the tools the LLM may call, including tools contributed by plugins
+ */
+export class ToolRegistry {
+  private tools = new Map<string, RegisteredTool>();
+
+  /**
+   * Register a tool, optionally owned by a plugin
+   * Tools owned by a plugin are only available while that plugin is enabled
+   */
+  register(tool: ITool, owner?: IPlugin): void {
+    this.tools.set(tool.name, { tool, owner });
+  }
+
+  /**
+   * Register every tool a plugin declares
+   */
+  registerPluginTools(plugin: IPlugin): void {
+    for (const tool of plugin.getTools?.() ?? []) {
+      this.register(tool, plugin);
+    }
+  }
+
+  /**
+   * Get a tool by name
+   */
+  getTool(name: string): ITool | undefined {
+    return this.tools.get(name)?.tool;
+  }
+
+  /**
+   * Get the plugin that contributed a tool, if any
+   */
+  getOwner(name: string): IPlugin | undefined {
+    return this.tools.get(name)?.owner;
+  }
+
+  /**
+   * Get all enabled tools based on current configuration
+   * Tools offered on request are only included when named in `requested`
+   */
+  getEnabledTools(config: vscode.WorkspaceConfiguration, requested: readonly string[] = []): ITool[] {
+    const enabled: ITool[] = [];
+    for (const { tool, owner } of this.tools.values()) {
+      if (owner && !owner.isEnabled(config)) {
+        continue;
+      }
+      if (tool.onRequest && !requested.includes(tool.name)) {
+        continue;
+      }
+      if (tool.isEnabled && !tool.isEnabled(config)) {
+        continue;
+      }
+      enabled.push(tool);
+    }
+    return enabled;
+  }
+
+  /**
+   * Convert tools to the function definitions passed to `bindTools`
+   */
+  toFunctionDefinitions(tools: ITool[]): ToolFunctionDefinition[] {
+    return tools.map((tool) => ({
+      type: 'function',
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters,
+      },
+    }));
+  }
+}
@@ -0,0 +1,95 @@
+import * as vscode from 'vscode';
+import { ITool, ToolParameters } from '../ITool';
+import type { PluginContext } from '../../plugins/IPlugin';
+import { EditProposals, locateLines } from '../../edits/EditProposals';
+import { openDocumentArg, readIntArg } from '../workspace/workspaceSandbox';
+
+const MAX_REPLACED_LINES = 80;
+
+/**
+ * Suggest a fix as a line-range replacement that the user can apply with one click
+ */
+export class ProposeEditTool implements ITool {
+  readonly name = 'propose_edit';
+  readonly description =
+    `Offer the user a concrete code fix they can apply with one click. Replace up to ${MAX_REPLACED_LINES} whole lines of a file. Only propose small, clearly correct changes, and still explain the fix in your reply.`;
+  readonly parameters: ToolParameters = {
+    type: 'object',
+    properties: {
+      path: {
+        type: 'string',
+        description: 'File path relative to the workspace root. Defaults to the file the user is looking at.',
+      },
+      startLine: {
+        type: 'integer',
+        minimum: 1,
+        description: 'First line to replace (1-based).',
+      },
+      original: {
+        type: 'string',
+        description: 'The exact current text of the lines being replaced, starting at startLine.',
+      },
+      replacement: {
+        type: 'string',
+        description: 'New text for those lines, with the same indentation style. Use an empty string to delete them.',
+      },
+      description: {
+        type: 'string',
+        description: 'A few words on what the edit does, shown above the diff.',
+      },
+    },
+    required: ['startLine', 'original', 'replacement'],
+  };
+
+  constructor(private readonly proposals: EditProposals) {}
+
+  isEnabled(config: vscode.WorkspaceConfiguration): boolean {
+    return config.get<boolean>('tools.edits.enabled', true);
+  }
+
+  async execute(args: Record<string, unknown>, context: PluginContext): Promise<string> {
+    if (typeof args.original !== 'string' || !args.original.trim()) {
+      throw new Error('"original" must contain the lines to replace.');
+    }
+    if (typeof args.replacement !== 'string') {
+      throw new Error('"replacement" must be a string.');
+    }
+
+    const doc = await openDocumentArg(args.path, context);
+    const displayPath = context.getRelativePath(doc.uri.fsPath);
+    if (context.isExcluded(doc.uri)) {
+      throw new Error(`${displayPath} is excluded by the privacy settings.`);
+    }
+
+    const originalLines = args.original.replace(/\r\n/g, '\n').replace(/\n$/, '').split('\n');
+    if (originalLines.length > MAX_REPLACED_LINES) {
+      throw new Error(`Edits may replace at most ${MAX_REPLACED_LINES} lines.`);
+    }
+    const requestedStart = Math.max(1, readIntArg(args.startLine, 1));
+    const start = locateLines(doc, originalLines, requestedStart - 1);
+    if (start === undefined) {
+      throw new Error(`The original text was not found in ${displayPath}. Read the file again and copy the lines exactly.`);
+    }
+
+    const startLine = start + 1;
+    const endLine = start + originalLines.length;
+    const range = new vscode.Range(start, 0, endLine - 1, doc.lineAt(endLine - 1).text.length);
+    const replacement = args.replacement.replace(/\r\n/g, '\n').replace(/\n$/, '');
+    const original = doc.getText(range);
+    if (original.replace(/\r\n/g, '\n') === replacement) {
+      throw new Error('The replacement is identical to the original text.');
+    }
+
+    this.proposals.add({
+      uri: doc.uri,
+      filePath: displayPath,
+      startLine,
+      endLine,
+      original,
+      replacement,
+      description: typeof args.description === 'string' && args.description.trim() ? args.description.trim() : undefined,
+      documentVersion: doc.version,
+    });
+    return `The edit to ${displayPath} lines ${startLine}-${endLine} is shown to the user with Apply and Reject buttons. It has not been applied yet.`;
+  }
+}
@@ -0,0 +1,73 @@
+import * as vscode from 'vscode';
+import { ITool, ToolParameters } from '../ITool';
+import type { PluginContext } from '../../plugins/IPlugin';
+import { FINDING_SEVERITIES, FindingSeverity, ReviewThreads } from '../../review/ReviewThreads';
+import { openDocumentArg, readIntArg } from '../workspace/workspaceSandbox';
+
+export const REPORT_FINDING_TOOL_NAME = 'report_review_finding';
+
+/**
+ * Leave a review finding as a comment thread on the line it is about
+ * Only offered to "Ani: Review File" turns in comments mode, which ask for it by name
+ */
+export class ReportFindingTool implements ITool {
+  readonly name = REPORT_FINDING_TOOL_NAME;
+  readonly description =
+    'Record one code review finding as a comment on the line it is about. Call it once per finding when reviewing a file.';
+  readonly parameters: ToolParameters = {
+    type: 'object',
+    properties: {
+      path: {
+        type: 'string',
+        description: 'File path relative to the workspace root. Defaults to the file the user is looking at.',
+      },
+      line: {
+        type: 'integer',
+        minimum: 1,
+        description: 'Line the finding is on (1-based).',
+      },
+      severity: {
+        type: 'string',
+        enum: FINDING_SEVERITIES,
+        description: '"error" for bugs, "warning" for risky code, "info" for readability.',
+      },
+      message: {
+        type: 'string',
+        description: 'The problem and how to fix it, in one or two sentences.',
+      },
+    },
+    required: ['line', 'severity', 'message'],
+  };
+  readonly onRequest = true;
+
+  constructor(private readonly reviewThreads: ReviewThreads) {}
+
+  isEnabled(config: vscode.WorkspaceConfiguration): boolean {
+    return config.get<string>('reviewFile.mode', 'speech') === 'comments';
+  }
+
+  async execute(args: Record<string, unknown>, context: PluginContext): Promise<string> {
+    if (typeof args.message !== 'string' || !args.message.trim()) {
+      throw new Error('"message" must describe the finding.');
+    }
+    const severity: FindingSeverity = FINDING_SEVERITIES.includes(args.severity as FindingSeverity)
+      ? (args.severity as FindingSeverity)
+      : 'warning';
+
+    const doc = await openDocumentArg(args.path, context);
+    const displayPath = context.getRelativePath(doc.uri.fsPath);
+    if (context.isExcluded(doc.uri)) {
+      throw new Error(`${displayPath} is excluded by the privacy settings.`);
+    }
+    const line = readIntArg(args.line, 0);
+    if (line < 1 || line > doc.lineCount) {
+      throw new Error(`"line" must be between 1 and ${doc.lineCount}.`);
+    }
+
+    const thread = this.reviewThreads.addFinding(doc, { line: line - 1, severity, message: args.message.trim() });
+    if (!thread) {
+      return 'The user already resolved this finding; do not raise it again.';
+    }
+    return `Added a ${severity} comment on ${displayPath} line ${line}.`;
+  }
+}
@@ -0,0 +1,70 @@
+import * as vscode from 'vscode';
+import { ITool, ToolParameters } from '../ITool';
+import type { PluginContext } from '../../plugins/IPlugin';
+import { resolveWorkspacePath, truncateOutput } from './workspaceSandbox';
+
+const MAX_DIAGNOSTICS = 50;
+
+const SEVERITY_LABELS: Record<vscode.DiagnosticSeverity, string> = {
+  [vscode.DiagnosticSeverity.Error]: 'error',
+  [vscode.DiagnosticSeverity.Warning]: 'warning',
+  [vscode.DiagnosticSeverity.Information]: 'info',
+  [vscode.DiagnosticSeverity.Hint]: 'hint',
+};
+
+/**
+ * Report compiler/linter diagnostics for a file or the whole workspace
+ */
+export class GetDiagnosticsTool implements ITool {
+  readonly name = 'get_diagnostics';
+  readonly description =
+    `List errors and warnings reported by the editor's language services. Pass a path for one file or omit it for the whole workspace. Returns up to ${MAX_DIAGNOSTICS} entries, most severe first.`;
+  readonly parameters: ToolParameters = {
+    type: 'object',
+    properties: {
+      path: {
+        type: 'string',
+        description: 'Optional file path relative to the workspace root.',
+      },
+    },
+  };
+
+  isEnabled(config: vscode.WorkspaceConfiguration): boolean {
+    return config.get<boolean>('tools.workspace.enabled', true);
+  }
+
+  async execute(args: Record<string, unknown>, context: PluginContext): Promise<string> {
+    let entries: Array<[vscode.Uri, vscode.Diagnostic[]]>;
+    if (typeof args.path === 'string' && args.path.trim()) {
+      const uri = await resolveWorkspacePath(args.path);
+      if (context.isExcluded(uri)) {
+        throw new Error(`${context.getRelativePath(uri.fsPath)} is excluded by the privacy settings.`);
+      }
+      entries = [[uri, vscode.languages.getDiagnostics(uri)]];
+    } else {
+      // Only report files that belong to the workspace
+      entries = vscode.languages
+        .getDiagnostics()
+        .filter(([uri]) => vscode.workspace.getWorkspaceFolder(uri) !== undefined && !context.isExcluded(uri));
+    }
+
+    const flattened = entries
+      .flatMap(([uri, diagnostics]) => diagnostics.map((diagnostic) => ({ uri, diagnostic })))
+      .sort((a, b) => a.diagnostic.severity - b.diagnostic.severity);
+
+    if (flattened.length === 0) {
+      return 'No diagnostics reported.';
+    }
+
+    const lines = flattened.slice(0, MAX_DIAGNOSTICS).map(({ uri, diagnostic }) => {
+      const { line, character } = diagnostic.range.start;
+      const source = diagnostic.source ? ` (${diagnostic.source})` : '';
+      const message = diagnostic.message.replace(/\s+/g, ' ');
+      return `${context.getRelativePath(uri.fsPath)}:${line + 1}:${character + 1} ${SEVERITY_LABELS[diagnostic.severity]}: ${message}${source}`;
+    });
+    if (flattened.length > MAX_DIAGNOSTICS) {
+      lines.push(`(${flattened.length - MAX_DIAGNOSTICS} more not shown)`);
+    }
+    return truncateOutput(lines.join('\n'));
+  }
+}
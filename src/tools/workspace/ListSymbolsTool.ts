@@ -0,0 +1,64 @@
+import * as vscode from 'vscode';
+import { ITool, ToolParameters } from '../ITool';
+import type { PluginContext } from '../../plugins/IPlugin';
+import { resolveWorkspacePath, truncateOutput } from './workspaceSandbox';
+
+const MAX_SYMBOLS = 200;
+
+/**
+ * Outline the classes, functions and other symbols declared in a file
+ */
+export class ListSymbolsTool implements ITool {
+  readonly name = 'list_symbols';
+  readonly description =
+    'List the symbols (classes, functions, methods, variables) declared in a workspace file with their line ranges. Use this to find what to read with read_file.';
+  readonly parameters: ToolParameters = {
+    type: 'object',
+    properties: {
+      path: {
+        type: 'string',
+        description: 'File path relative to the workspace root.',
+      },
+    },
+    required: ['path'],
+  };
+
+  isEnabled(config: vscode.WorkspaceConfiguration): boolean {
+    return config.get<boolean>('tools.workspace.enabled', true);
+  }
+
+  async execute(args: Record<string, unknown>, context: PluginContext): Promise<string> {
+    const uri = await resolveWorkspacePath(args.path);
+    if (context.isExcluded(uri)) {
+      throw new Error(`${context.getRelativePath(uri.fsPath)} is excluded by the privacy settings.`);
+    }
+    const symbols = await vscode.commands.executeCommand<Array<vscode.DocumentSymbol | vscode.SymbolInformation>>(
+      'vscode.executeDocumentSymbolProvider',
+      uri
+    );
+    const displayPath = context.getRelativePath(uri.fsPath);
+    if (!symbols || symbols.length === 0) {
+      return `No symbols found in ${displayPath}.`;
+    }
+
+    const lines: string[] = [];
+    const visit = (symbol: vscode.DocumentSymbol | vscode.SymbolInformation, depth: number) => {
+      if (lines.length >= MAX_SYMBOLS) {
+        return;
+      }
+      const range = 'range' in symbol ? symbol.range : symbol.location.range;
+      const kind = vscode.SymbolKind[symbol.kind] ?? 'Symbol';
+      lines.push(`${'  '.repeat(depth)}${kind} ${symbol.name} (lines ${range.start.line + 1}-${range.end.line + 1})`);
+      if ('children' in symbol) {
+        for (const child of symbol.children) {
+          visit(child, depth + 1);
+        }
+      }
+    };
+    for (const symbol of symbols) {
+      visit(symbol, 0);
+    }
+
+    return truncateOutput(`${displayPath}\n${lines.join('\n')}`);
+  }
+}
@@ -0,0 +1,63 @@
+import * as vscode from 'vscode';
+import { ITool, ToolParameters } from '../ITool';
+import type { PluginContext } from '../../plugins/IPlugin';
+import { readIntArg, resolveWorkspacePath, truncateOutput } from './workspaceSandbox';
+
+const MAX_LINES = 200;
+
+/**
+ * Read a range of lines from a workspace file
+ */
+export class ReadFileTool implements ITool {
+  readonly name = 'read_file';
+  readonly description =
+    `Read lines from a file in the workspace. Use this to look up types, callers or definitions that are not in the snippet you were given. Returns at most ${MAX_LINES} lines, prefixed with line numbers.`;
+  readonly parameters: ToolParameters = {
+    type: 'object',
+    properties: {
+      path: {
+        type: 'string',
+        description: 'File path relative to the workspace root.',
+      },
+      startLine: {
+        type: 'integer',
+        minimum: 1,
+        description: 'First line to read (1-based). Defaults to 1.',
+      },
+      endLine: {
+        type: 'integer',
+        minimum: 1,
+        description: `Last line to read (inclusive). Defaults to startLine + ${MAX_LINES - 1}.`,
+      },
+    },
+    required: ['path'],
+  };
+
+  isEnabled(config: vscode.WorkspaceConfiguration): boolean {
+    return config.get<boolean>('tools.workspace.enabled', true);
+  }
+
+  async execute(args: Record<string, unknown>, context: PluginContext): Promise<string> {
+    const uri = await resolveWorkspacePath(args.path);
+    if (context.isExcluded(uri)) {
+      throw new Error(`${context.getRelativePath(uri.fsPath)} is excluded by the privacy settings.`);
+    }
+    const doc = await vscode.workspace.openTextDocument(uri);
+    const displayPath = context.getRelativePath(uri.fsPath);
+
+    const startLine = Math.max(1, readIntArg(args.startLine, 1));
+    if (startLine > doc.lineCount) {
+      return `${displayPath} has only ${doc.lineCount} lines.`;
+    }
+    const requestedEnd = readIntArg(args.endLine, startLine + MAX_LINES - 1);
+    const endLine = Math.min(doc.lineCount, Math.max(startLine, requestedEnd), startLine + MAX_LINES - 1);
+
+    const lines: string[] = [];
+    for (let i = startLine; i <= endLine; i++) {
+      lines.push(`${i}: ${doc.lineAt(i - 1).text}`);
+    }
+
+    const header = `${displayPath} (lines ${startLine}-${endLine} of ${doc.lineCount})`;
+    return truncateOutput(`${header}\n${lines.join('\n')}`);
+  }
+}
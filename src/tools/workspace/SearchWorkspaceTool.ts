@@ -0,0 +1,90 @@
+import * as vscode from 'vscode';
+import { ITool, ToolParameters } from '../ITool';
+import type { PluginContext } from '../../plugins/IPlugin';
+import { EXCLUDED_GLOB, truncateOutput } from './workspaceSandbox';
+
+const MAX_FILES = 500;
+const MAX_FILE_BYTES = 512 * 1024;
+const MAX_MATCHES = 50;
+const MAX_LINE_CHARS = 200;
+
+/**
+ * Case-insensitive text search across workspace files
+ */
+export class SearchWorkspaceTool implements ITool {
+  readonly name = 'search_workspace';
+  readonly description =
+    `Search workspace files for text (case-insensitive). Use this to find where a symbol is defined or used. Returns up to ${MAX_MATCHES} matching lines.`;
+  readonly parameters: ToolParameters = {
+    type: 'object',
+    properties: {
+      query: {
+        type: 'string',
+        description: 'Text to search for.',
+      },
+      include: {
+        type: 'string',
+        description: 'Optional glob limiting which files are searched, e.g. "src/**/*.ts".',
+      },
+    },
+    required: ['query'],
+  };
+
+  isEnabled(config: vscode.WorkspaceConfiguration): boolean {
+    return config.get<boolean>('tools.workspace.enabled', true);
+  }
+
+  async execute(args: Record<string, unknown>, context: PluginContext): Promise<string> {
+    const query = typeof args.query === 'string' ? args.query.trim() : '';
+    if (!query) {
+      throw new Error('A search query is required.');
+    }
+    if (!vscode.workspace.workspaceFolders?.length) {
+      throw new Error('No workspace folder is open.');
+    }
+
+    // findFiles only returns files inside the workspace folders, which keeps the search sandboxed
+    const include = typeof args.include === 'string' && args.include.trim() ? args.include.trim() : '**/*';
+    const files = await vscode.workspace.findFiles(include, EXCLUDED_GLOB, MAX_FILES);
+    const needle = query.toLowerCase();
+    const decoder = new TextDecoder('utf-8');
+    const matches: string[] = [];
+
+    for (const file of files) {
+      if (matches.length >= MAX_MATCHES) {
+        break;
+      }
+      if (context.isExcluded(file)) {
+        continue;
+      }
+      let bytes: Uint8Array;
+      try {
+        const stat = await vscode.workspace.fs.stat(file);
+        if (stat.size > MAX_FILE_BYTES) {
+          continue;
+        }
+        bytes = await vscode.workspace.fs.readFile(file);
+      } catch {
+        continue;
+      }
+      // Skip binary files
+      if (bytes.includes(0)) {
+        continue;
+      }
+
+      const lines = decoder.decode(bytes).split(/\r?\n/);
+      for (let i = 0; i < lines.length && matches.length < MAX_MATCHES; i++) {
+        if (lines[i].toLowerCase().includes(needle)) {
+          const text = lines[i].trim().slice(0, MAX_LINE_CHARS);
+          matches.push(`${context.getRelativePath(file.fsPath)}:${i + 1}: ${text}`);
+        }
+      }
+    }
+
+    if (matches.length === 0) {
+      return `No matches for "${query}".`;
+    }
+    const suffix = matches.length >= MAX_MATCHES ? `\n(stopped after ${MAX_MATCHES} matches)` : '';
+    return truncateOutput(`${matches.join('\n')}${suffix}`);
+  }
+}
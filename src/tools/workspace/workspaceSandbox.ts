@@ -0,0 +1,108 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { PluginContext } from '../../plugins/IPlugin';
+
+/**
+ * Maximum characters a workspace tool may return to the model
+ */
+export const MAX_TOOL_OUTPUT_CHARS = 8000;
+
+/**
+ * Globs never searched or read by workspace tools
+ */
+export const EXCLUDED_GLOB = '{**/node_modules/**,**/.git/**,**/dist/**,**/out/**}';
+
+function isInside(parent: string, child: string): boolean {
+  const rel = path.relative(parent, child);
+  return rel === '' || (!rel.startsWith('..') && !path.isAbsolute(rel));
+}
+
+async function realpathOrSelf(fsPath: string): Promise<string> {
+  try {
+    return await fs.promises.realpath(fsPath);
+  } catch {
+    return fsPath;
+  }
+}
+
+/**
+ * Resolve a model-supplied path to a file inside one of the workspace folders.
+ * Relative paths are tried against every folder; anything that escapes the
+ * workspace (via "..", absolute paths or symlinks) is rejected, and symlinks
+ * inside it resolve to the file they point at.
+ */
+export async function resolveWorkspacePath(input: unknown): Promise<vscode.Uri> {
+  if (typeof input !== 'string' || !input.trim()) {
+    throw new Error('A file path is required.');
+  }
+  const folders = vscode.workspace.workspaceFolders;
+  if (!folders || folders.length === 0) {
+    throw new Error('No workspace folder is open.');
+  }
+
+  const requested = input.trim();
+  const candidates = path.isAbsolute(requested)
+    ? [path.normalize(requested)]
+    : folders.map((folder) => path.resolve(folder.uri.fsPath, requested));
+
+  for (const candidate of candidates) {
+    const folder = folders.find((f) => isInside(f.uri.fsPath, candidate));
+    if (!folder) {
+      continue;
+    }
+    if (!fs.existsSync(candidate)) {
+      continue;
+    }
+    // Follow symlinks so a link inside the workspace cannot expose files outside it
+    const [realCandidate, realFolder] = await Promise.all([
+      realpathOrSelf(candidate),
+      realpathOrSelf(folder.uri.fsPath),
+    ]);
+    if (!isInside(realFolder, realCandidate)) {
+      continue;
+    }
+    // Return the link's target, so privacy exclusions apply to the file that is actually read
+    return vscode.Uri.file(path.join(folder.uri.fsPath, path.relative(realFolder, realCandidate)));
+  }
+
+  const escapes = candidates.every((candidate) => !folders.some((f) => isInside(f.uri.fsPath, candidate)));
+  throw new Error(escapes ? `Path "${requested}" is outside the workspace.` : `File "${requested}" was not found.`);
+}
+
+/**
+ * Open the document a tool call is about: the file the user is looking at when `input` is empty,
+ * otherwise a workspace file resolved with `resolveWorkspacePath`
+ */
+export async function openDocumentArg(input: unknown, context: PluginContext): Promise<vscode.TextDocument> {
+  const editorDoc = context.editor?.document;
+  if (input === undefined || input === null || (typeof input === 'string' && !input.trim())) {
+    if (!editorDoc) {
+      throw new Error('No file is open; pass "path".');
+    }
+    return editorDoc;
+  }
+  // The active file may live outside the workspace folders, so match it by its displayed path first
+  if (editorDoc && typeof input === 'string' && context.getRelativePath(editorDoc.uri.fsPath) === input.trim()) {
+    return editorDoc;
+  }
+  return vscode.workspace.openTextDocument(await resolveWorkspacePath(input));
+}
+
+/**
+ * Cut `text` down to `maxChars`, noting how much was dropped
+ */
+export function truncateOutput(text: string, maxChars: number = MAX_TOOL_OUTPUT_CHARS): string {
+  if (text.length <= maxChars) {
+    return text;
+  }
+  return `${text.slice(0, maxChars)}\n… [truncated ${text.length - maxChars} characters]`;
+}
+
+/**
+ * Read an integer argument, falling back when missing or invalid
+ */
+export function readIntArg(value: unknown, fallback: number): number {
+  const n = typeof value === 'string' ? Number(value) : value;
+  return typeof n === 'number' && Number.isFinite(n) ? Math.floor(n) : fallback;
+}
@@ -0,0 +1,575 @@
+import { after, afterEach, before, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import type * as vscode from 'vscode';
+import { MockOpenAiServer } from './mock/MockOpenAiServer';
+import { AgentLoopHarness, createAgentLoopHarness, TEST_SYSTEM_PROMPT } from './harness/agentLoopHarness';
+import { addTextDocument, stubState, Uri } from './harness/vscodeStub';
+import { PluginManager } from '../src/plugins/PluginManager';
+import { UsageLedger } from '../src/UsageLedger';
+import { REPORT_FINDING_TOOL_NAME, ReportFindingTool } from '../src/tools/review/ReportFindingTool';
+import type { ReviewThreads } from '../src/review/ReviewThreads';
+
+describe('AgentLoop.run', () => {
+  const server = new MockOpenAiServer();
+  let baseUrl = '';
+  let harness: AgentLoopHarness | undefined;
+
+  const setup = (settings?: Record<string, unknown>) => {
+    harness = createAgentLoopHarness(baseUrl, settings);
+    return harness;
+  };
+
+  before(async () => {
+    baseUrl = await server.start();
+  });
+
+  after(async () => {
+    await server.stop();
+  });
+
+  afterEach(() => {
+    harness?.dispose();
+    harness = undefined;
+    server.reset();
+  });
+
+  it('answers a queued user message and posts the reply', async () => {
+    const { loop, panel, runTurn } = setup();
+    server.enqueueChat({ content: 'Hi there, coder!' });
+
+    loop.enqueueUserMessage('Hello Ani');
+    await runTurn();
+
+    assert.deepEqual(panel.types, [
+      'historyUpdated',
+      'thinking',
+      'ttsError',
+      'speech',
+      'connectionSuccess',
+      'historyUpdated',
+      'thinking',
+    ]);
+    const [speech] = panel.ofType('speech');
+    assert.equal(speech.text, 'Hi there, coder!');
+    assert.deepEqual(speech.llm, { provider: 'openai', model: 'mock-model', fallback: false });
+
+    const [request] = server.chatRequests;
+    assert.equal(request.model, 'mock-model');
+    assert.deepEqual(
+      request.messages.map((message: any) => [message.role, message.content]),
+      [
+        ['system', TEST_SYSTEM_PROMPT],
+        ['user', 'Hello Ani'],
+      ]
+    );
+    assert.equal(server.requests[0].headers.authorization, 'Bearer test-key');
+  });
+
+  it('keeps the conversation history between turns', async () => {
+    const { loop, runTurn } = setup();
+    server.enqueueChat({ content: 'First answer.' }, { content: 'Second answer.' });
+
+    loop.enqueueUserMessage('First question');
+    await runTurn();
+    // The cooldown never drops below 10 seconds, so pretend the last turn ended long ago
+    (loop as unknown as { lastLlmEndedAt: number | null }).lastLlmEndedAt = null;
+    loop.enqueueUserMessage('Second question');
+    await runTurn();
+
+    const roles = server.chatRequests[1].messages.map((message: any) => `${message.role}:${message.content}`);
+    assert.deepEqual(roles, [
+      `system:${TEST_SYSTEM_PROMPT}`,
+      'user:First question',
+      'assistant:First answer.',
+      'user:Second question',
+    ]);
+  });
+
+  it('continues the thread of the file a message is about', async () => {
+    const { loop, runTurn } = setup();
+    const first = addTextDocument('/workspace/src/first.ts', 'export const a = 1;\n');
+    const second = addTextDocument('/workspace/src/second.ts', 'export const b = 2;\n');
+    stubState.activeTextEditor = { document: first };
+    server.enqueueChat({ content: 'About the first file.' }, { content: 'About the second file.' }, { content: 'Back to the first.' });
+    const skipCooldown = () => ((loop as unknown as { lastLlmEndedAt: number | null }).lastLlmEndedAt = null);
+
+    loop.enqueueUserMessage('Explain first.ts', { uri: first.uri as unknown as vscode.Uri });
+    await runTurn();
+    skipCooldown();
+    loop.enqueueUserMessage('Explain second.ts', { uri: second.uri as unknown as vscode.Uri });
+    await runTurn();
+    skipCooldown();
+    loop.enqueueUserMessage('Roast first.ts', { uri: first.uri as unknown as vscode.Uri });
+    await runTurn();
+
+    const contents = server.chatRequests.map((request) =>
+      request.messages.filter((message: any) => message.role !== 'system').map((message: any) => message.content)
+    );
+    assert.deepEqual(contents[1], ['Explain second.ts']);
+    assert.deepEqual(contents[2], ['Explain first.ts', 'About the first file.', 'Roast first.ts']);
+  });
+
+  it('logs typed messages and replies in the transcript', async () => {
+    const { loop, panel, runTurn } = setup();
+    server.enqueueChat({ content: 'Here is **my** answer.' });
+
+    loop.enqueueUserMessage('Typed question');
+    loop.enqueueUserMessage('Plugin prompt', { source: 'codeReview' });
+    await runTurn();
+
+    const entries = panel.ofType('historyUpdated').at(-1).entries;
+    assert.deepEqual(
+      entries.map((entry: any) => [entry.role, entry.text]),
+      [
+        ['user', 'Typed question'],
+        ['assistant', 'Here is **my** answer.'],
+      ]
+    );
+    assert.ok(entries.every((entry: any) => typeof entry.id === 'string' && typeof entry.timestamp === 'number'));
+  });
+
+  it('hands the reply to the message it answers', async () => {
+    const { loop, runTurn } = setup();
+    const replies: string[] = [];
+    server.enqueueChat({ content: 'Good point, *fixed*.' });
+
+    loop.enqueueUserMessage('Thread reply prompt', { displayText: 'Is this safe?', onReply: (reply) => replies.push(reply) });
+    await runTurn();
+
+    assert.deepEqual(replies, ['Good point, *fixed*.']);
+  });
+
+  it('replays a reply from its cached speech', async () => {
+    const { loop, panel, runTurn } = setup({ 'tts.enabled': true, 'tts.chunked': false });
+    loop.setAudioCapability(true);
+    server.enqueueChat({ content: 'Say it again.' });
+
+    loop.enqueueUserMessage('Talk to me');
+    await runTurn();
+    const reply = panel.ofType('historyUpdated').at(-1).entries.at(-1);
+    await loop.replayTranscriptAudio(reply.id);
+
+    const [replay] = panel.ofType('replayAudio');
+    assert.equal(replay.entryId, reply.id);
+    assert.equal(replay.audio.data, panel.ofType('speech')[0].audio.data);
+    assert.equal(server.speechRequests.length, 1);
+  });
+
+  it('streams partial replies into the bubble', async () => {
+    const { loop, panel, runTurn } = setup({ 'llm.streaming': true });
+    server.enqueueChat({ content: 'Streaming works just fine.' });
+
+    loop.enqueueUserMessage('Stream please');
+    await runTurn();
+
+    assert.equal(server.chatRequests[0].stream, true);
+    const deltas = panel.ofType('speechDelta');
+    assert.ok(deltas.length > 1, 'expected several deltas');
+    assert.equal(deltas.map((delta) => delta.text).join(''), 'Streaming works just fine.');
+    const [speech] = panel.ofType('speech');
+    assert.equal(speech.text, 'Streaming works just fine.');
+    assert.equal(speech.streamId, deltas[0].streamId);
+  });
+
+  it('streams the same text as the final reply when it starts with a code fence', async () => {
+    const { loop, panel, runTurn } = setup({ 'llm.streaming': true });
+    server.enqueueChat(
+      { content: '```ts\nconst total = a + b;\n```\nThat adds them up.' },
+      { content: '```\nJust some words.\n```' }
+    );
+
+    loop.enqueueUserMessage('Show me');
+    await runTurn();
+    (loop as unknown as { lastLlmEndedAt: number | null }).lastLlmEndedAt = null;
+    loop.enqueueUserMessage('Again');
+    await runTurn();
+
+    const speeches = panel.ofType('speech');
+    const streamed = speeches.map((speech) =>
+      panel
+        .ofType('speechDelta')
+        .filter((delta) => delta.streamId === speech.streamId)
+        .map((delta) => delta.text)
+        .join('')
+    );
+    assert.deepEqual(streamed, ['```ts\nconst total = a + b;\n```\nThat adds them up.', 'Just some words.']);
+    assert.deepEqual(
+      speeches.map((speech) => speech.text),
+      streamed
+    );
+  });
+
+  it('streams the real values behind redaction placeholders but keeps them out of TTS', async () => {
+    const { loop, panel, runTurn } = setup({
+      'llm.streaming': true,
+      'privacy.redaction.enabled': true,
+      'tts.enabled': true,
+      // Tools turn off speaking while streaming
+      'tools.edits.enabled': false,
+    });
+    loop.setAudioCapability(true);
+    server.enqueueChat({ content: 'I will write to [REDACTED_EMAIL_1] today.' });
+
+    loop.enqueueUserMessage('Remind me to email ana@example.com');
+    await runTurn();
+
+    const streamed = panel.ofType('speechDelta').map((delta) => delta.text).join('');
+    assert.equal(streamed, 'I will write to ana@example.com today.');
+    assert.equal(panel.ofType('speech')[0].text, streamed);
+    const spoken = server.speechRequests.map((request) => request.input).join(' ');
+    assert.match(spoken, /\[REDACTED_EMAIL_1\]/);
+    assert.doesNotMatch(spoken, /ana@example\.com/);
+  });
+
+  it('streams text held back as a possible placeholder once the reply ends', async () => {
+    const { loop, panel, runTurn } = setup({ 'llm.streaming': true, 'privacy.redaction.enabled': true });
+    server.enqueueChat({ content: 'Pick one of these [' });
+
+    loop.enqueueUserMessage('Give me options');
+    await runTurn();
+
+    const streamed = panel.ofType('speechDelta').map((delta) => delta.text).join('');
+    assert.equal(streamed, 'Pick one of these [');
+    assert.equal(panel.ofType('speech')[0].text, streamed);
+  });
+
+  it('runs tool calls and sends their results back to the model', async () => {
+    const { loop, panel, runTurn } = setup();
+    const calls: Array<Record<string, unknown>> = [];
+    loop.getToolRegistry().register({
+      name: 'lookup_answer',
+      description: 'Look up the answer to a question.',
+      parameters: { type: 'object', properties: { question: { type: 'string' } }, required: ['question'] },
+      execute: async (args) => {
+        calls.push(args);
+        return 'The answer is 42.';
+      },
+    });
+    server.enqueueChat(
+      { toolCalls: [{ id: 'call_1', name: 'lookup_answer', arguments: { question: 'life' } }] },
+      { content: 'It is 42, obviously.' }
+    );
+
+    loop.enqueueUserMessage('What is the answer?');
+    await runTurn();
+
+    assert.deepEqual(calls, [{ question: 'life' }]);
+    const [first, second] = server.chatRequests;
+    assert.ok(first.tools.some((tool: any) => tool.function.name === 'lookup_answer'));
+    const toolMessage = second.messages.find((message: any) => message.role === 'tool');
+    assert.equal(toolMessage.tool_call_id, 'call_1');
+    assert.equal(toolMessage.content, 'The answer is 42.');
+    assert.equal(panel.ofType('speech')[0].text, 'It is 42, obviously.');
+  });
+
+  it('offers the review finding tool only to messages that ask for it', async () => {
+    const { loop, runTurn } = setup({ 'reviewFile.mode': 'comments' });
+    loop.getToolRegistry().register(new ReportFindingTool({} as ReviewThreads));
+    server.enqueueChat({ content: 'Hi there.' }, { content: 'Reviewed.' });
+    const offered = (request: any) => (request.tools ?? []).map((tool: any) => tool.function.name);
+
+    loop.enqueueUserMessage('Hello');
+    await runTurn();
+    (loop as unknown as { lastLlmEndedAt: number | null }).lastLlmEndedAt = null;
+    loop.enqueueUserMessage('Review this file', { tools: [REPORT_FINDING_TOOL_NAME] });
+    await runTurn();
+
+    assert.ok(!offered(server.chatRequests[0]).includes(REPORT_FINDING_TOOL_NAME));
+    assert.ok(offered(server.chatRequests[1]).includes(REPORT_FINDING_TOOL_NAME));
+  });
+
+  it('gives tools the real values behind redaction placeholders', async () => {
+    const { loop, runTurn } = setup({ 'privacy.redaction.enabled': true });
+    const calls: Array<Record<string, unknown>> = [];
+    loop.getToolRegistry().register({
+      name: 'send_mail',
+      description: 'Send an email.',
+      parameters: { type: 'object', properties: { to: { type: 'array', items: { type: 'string' } } }, required: ['to'] },
+      execute: async (args) => {
+        calls.push(args);
+        return 'Sent to ana@example.com.';
+      },
+    });
+    server.enqueueChat(
+      { toolCalls: [{ id: 'call_1', name: 'send_mail', arguments: { to: ['[REDACTED_EMAIL_1]'] } }] },
+      { content: 'Done.' }
+    );
+
+    loop.enqueueUserMessage('Mail ana@example.com the answer');
+    await runTurn();
+
+    const [first, second] = server.chatRequests;
+    assert.ok(JSON.stringify(first.messages).includes('[REDACTED_EMAIL_1]'));
+    assert.deepEqual(calls, [{ to: ['ana@example.com'] }]);
+    const toolMessage = second.messages.find((message: any) => message.role === 'tool');
+    assert.equal(toolMessage.content, 'Sent to [REDACTED_EMAIL_1].');
+  });
+
+  it('offers proposed edits and refuses to apply one the file has moved past', async () => {
+    const { loop, panel, runTurn } = setup();
+    stubState.workspaceFolders = [{ uri: Uri.file('/workspace'), name: 'workspace', index: 0 }];
+    const document = addTextDocument('/workspace/src/math.ts', 'export function add(a, b) {\n  return a - b;\n}\nconst ZERO = 1;\n');
+    stubState.activeTextEditor = { document };
+    server.enqueueChat(
+      {
+        toolCalls: [
+          {
+            id: 'call_1',
+            name: 'propose_edit',
+            arguments: { startLine: 2, original: 'return a - b;', replacement: '  return a + b;', description: 'Add, not subtract' },
+          },
+          { id: 'call_2', name: 'propose_edit', arguments: { path: 'src/math.ts', startLine: 4, original: 'const ZERO = 1;', replacement: '' } },
+        ],
+      },
+      { content: 'Two fixes for you.' }
+    );
+
+    loop.enqueueUserMessage('Fix my math');
+    await runTurn();
+
+    const [speech] = panel.ofType('speech');
+    assert.deepEqual(speech.edits, [
+      {
+        id: 'edit-1',
+        filePath: 'src/math.ts',
+        startLine: 2,
+        endLine: 2,
+        original: '  return a - b;',
+        replacement: '  return a + b;',
+        description: 'Add, not subtract',
+      },
+      { id: 'edit-2', filePath: 'src/math.ts', startLine: 4, endLine: 4, original: 'const ZERO = 1;', replacement: '', description: undefined },
+    ]);
+
+    await loop.applyEditProposal('edit-1');
+    await loop.applyEditProposal('edit-2');
+
+    assert.equal(document.getText(), 'export function add(a, b) {\n  return a + b;\n}\nconst ZERO = 1;\n');
+    assert.deepEqual(
+      panel.ofType('editResult').map(({ id, status }) => ({ id, status })),
+      [
+        { id: 'edit-1', status: 'applied' },
+        { id: 'edit-2', status: 'stale' },
+      ]
+    );
+  });
+
+  it('synthesizes speech for the reply when audio is available', async () => {
+    const { loop, panel, runTurn } = setup({ 'tts.enabled': true, 'tts.chunked': false, 'tts.voice': 'nova' });
+    loop.setAudioCapability(true);
+    server.enqueueChat({ content: 'Listen to me.' });
+
+    loop.enqueueUserMessage('Say something');
+    await runTurn();
+
+    const [speechRequest] = server.speechRequests;
+    assert.equal(speechRequest.input, 'Listen to me.');
+    assert.equal(speechRequest.voice, 'nova');
+    const [speech] = panel.ofType('speech');
+    assert.equal(speech.audio.mimeType, 'audio/wav');
+    assert.ok(speech.audio.data.length > 0);
+    assert.deepEqual(panel.ofType('ttsError'), [{ type: 'ttsError', clear: true }]);
+  });
+
+  it('stops speaking a streamed reply that fails halfway', async () => {
+    // Tools turn off speaking while streaming
+    const { loop, panel, runTurn } = setup({ 'llm.streaming': true, 'tts.enabled': true, 'tools.edits.enabled': false });
+    loop.setAudioCapability(true);
+    server.setSpeechDelay(150);
+    server.enqueueChat({ content: 'This first sentence is long enough to speak. And then', disconnect: true });
+
+    loop.enqueueUserMessage('Say something');
+    await runTurn();
+    // Give the synthesis request that was already sent time to come back
+    await new Promise((resolve) => setTimeout(resolve, 300));
+
+    assert.ok(panel.ofType('speechDelta').length > 0);
+    assert.equal(server.speechRequests.length, 1);
+    assert.equal(panel.ofType('speechAudioChunk').length, 0);
+  });
+
+  it('reports TTS failures without failing the turn', async () => {
+    const { loop, panel, runTurn } = setup({ 'tts.enabled': true, 'tts.chunked': false });
+    loop.setAudioCapability(true);
+    server.setSpeechStatus(500);
+    server.enqueueChat({ content: 'Silent reply.' });
+
+    loop.enqueueUserMessage('Say something');
+    await runTurn();
+
+    assert.match(panel.ofType('ttsError')[0].message, /500/);
+    assert.equal(panel.ofType('speech')[0].text, 'Silent reply.');
+  });
+
+  it('shows the setup guide with recovery actions when the API key is rejected', async () => {
+    const { loop, panel, runTurn } = setup();
+    server.enqueueChat({ status: 401, error: { message: 'Incorrect API key provided', code: 'invalid_api_key' } });
+
+    loop.enqueueUserMessage('Hello?');
+    await runTurn();
+
+    const [setupError] = panel.ofType('setupError');
+    assert.equal(setupError.error.kind, 'auth');
+    assert.ok(setupError.error.actions.some((action: any) => action.type === 'openSettings'));
+    assert.equal(panel.ofType('speech').length, 0);
+  });
+
+  it('runs a failed message again when Retry is chosen', async () => {
+    const { loop, panel, runTurn } = setup();
+    server.enqueueChat({ status: 429, error: { message: 'Rate limit reached' } }, { content: 'Sorry for the wait.' });
+
+    loop.enqueueUserMessage('Are you there?');
+    await runTurn();
+    assert.equal(panel.ofType('setupError')[0].error.kind, 'rateLimit');
+
+    assert.equal(loop.retryFailedTurn(), true);
+    (loop as unknown as { lastLlmEndedAt: number | null }).lastLlmEndedAt = null;
+    await runTurn();
+
+    assert.equal(server.chatRequests.length, 2);
+    assert.ok(JSON.stringify(server.chatRequests[1].messages).includes('Are you there?'));
+    assert.equal(panel.ofType('speech')[0].text, 'Sorry for the wait.');
+    assert.equal(loop.retryFailedTurn(), false);
+  });
+
+  it('reports thinking, then the cooldown, then errors in its status', async () => {
+    const { loop, runTurn } = setup({ 'llm.minIntervalSeconds': 30 });
+    const states: string[] = [];
+    loop.onDidChangeStatus((status) => states.push(status.state));
+    server.enqueueChat({ content: 'All good.' }, { status: 401, error: { message: 'Incorrect API key provided' } });
+
+    loop.enqueueUserMessage('First');
+    await runTurn();
+    const status = loop.getStatus();
+    assert.equal(status.state, 'cooldown');
+    assert.ok(status.state === 'cooldown' && status.until - Date.now() > 25000);
+
+    (loop as unknown as { lastLlmEndedAt: number | null }).lastLlmEndedAt = null;
+    loop.enqueueUserMessage('Second');
+    await runTurn();
+
+    assert.deepEqual(states, ['thinking', 'cooldown', 'thinking', 'error']);
+    assert.match((loop.getStatus() as { message: string }).message, /Incorrect API key/);
+  });
+
+  it('skips automatic plugin comments while muted', async () => {
+    const { loop, runTurn } = setup();
+    const pluginManager = (loop as unknown as { pluginManager: PluginManager }).pluginManager;
+    pluginManager.register({
+      id: 'chatter',
+      name: 'Chatter',
+      isEnabled: () => true,
+      generateMessage: async () => ({ userPrompt: 'Say something', includeContext: false }),
+    });
+    server.enqueueChat({ content: 'You asked for it.' }, { content: 'I heard you.' });
+    loop.setMuted(true);
+
+    await runTurn('chatter');
+    await loop.triggerRandomPlugin();
+    assert.equal(server.chatRequests.length, 0);
+
+    await loop.triggerPlugin('chatter', 'manual');
+    (loop as unknown as { lastLlmEndedAt: number | null }).lastLlmEndedAt = null;
+    loop.enqueueUserMessage('Still there?');
+    await runTurn();
+
+    assert.deepEqual(
+      server.chatRequests.map((request) => request.messages.at(-1).content),
+      ['Say something', 'Still there?']
+    );
+
+    // Messages plugins queue for later stay unanswered too
+    (loop as unknown as { lastLlmEndedAt: number | null }).lastLlmEndedAt = null;
+    loop.enqueueUserMessage('Queued by a plugin', { source: 'chatter' });
+    await runTurn();
+    assert.equal(server.chatRequests.length, 2);
+  });
+
+  it('only answers the user once the monthly budget is spent', async () => {
+    const { loop, panel, runTurn } = setup({
+      'usage.monthlyBudget': 1,
+      'usage.prices': { 'mock-model': { characters: 1_000_000 } },
+    });
+    const state = new Map<string, unknown>();
+    const usageLedger = new UsageLedger({
+      keys: () => [...state.keys()],
+      get: (key: string, fallback?: unknown) => state.get(key) ?? fallback,
+      update: async (key: string, value: unknown) => {
+        state.set(key, value);
+      },
+    } as unknown as ConstructorParameters<typeof UsageLedger>[0]);
+    usageLedger.recordTts('user', 'mock-model', 2);
+    loop.setUsageLedger(usageLedger);
+    const pluginManager = (loop as unknown as { pluginManager: PluginManager }).pluginManager;
+    pluginManager.register({
+      id: 'chatter',
+      name: 'Chatter',
+      isEnabled: () => true,
+      generateMessage: async () => ({ userPrompt: 'Say something', includeContext: false }),
+    });
+    server.enqueueChat({ content: 'Still here for you.' });
+
+    await runTurn('chatter');
+    loop.enqueueUserMessage('Queued by a plugin', { source: 'chatter' });
+    await runTurn();
+    assert.equal(server.chatRequests.length, 0);
+
+    loop.enqueueUserMessage('Are you broke?', { priority: true });
+    await runTurn();
+    assert.equal(server.chatRequests.length, 1);
+    assert.equal(panel.ofType('speech')[0].text, 'Still here for you.');
+  });
+
+  it('falls back to the next model when the primary is rate limited', async () => {
+    const { loop, panel, runTurn } = setup({ 'llm.fallbacks': [{ model: 'backup-model' }] });
+    server.enqueueChat({ status: 429, error: { message: 'Rate limit reached' } }, { content: 'Backup here.' });
+
+    loop.enqueueUserMessage('Anyone there?');
+    await runTurn();
+
+    assert.deepEqual(
+      server.chatRequests.map((request) => request.model),
+      ['mock-model', 'backup-model']
+    );
+    const [speech] = panel.ofType('speech');
+    assert.equal(speech.text, 'Backup here.');
+    assert.deepEqual(speech.llm, { provider: 'openai', model: 'backup-model', fallback: true });
+  });
+});
+
+describe('AgentLoop.testConnectivity', () => {
+  const server = new MockOpenAiServer();
+  let baseUrl = '';
+  let harness: AgentLoopHarness | undefined;
+
+  before(async () => {
+    baseUrl = await server.start();
+  });
+
+  after(async () => {
+    await server.stop();
+  });
+
+  afterEach(() => {
+    harness?.dispose();
+    harness = undefined;
+    server.reset();
+  });
+
+  it('succeeds when the server answers', async () => {
+    harness = createAgentLoopHarness(baseUrl);
+    const result = await harness.loop.testConnectivity();
+    assert.deepEqual(result, { success: true });
+    assert.equal(server.chatRequests[0].messages[0].content, 'Hi');
+  });
+
+  it('describes a missing model', async () => {
+    harness = createAgentLoopHarness(baseUrl);
+    server.enqueueChat({ status: 404, error: { message: 'The model `mock-model` does not exist', code: 'model_not_found' } });
+
+    const result = await harness.loop.testConnectivity();
+
+    assert.equal(result.success, false);
+    assert.equal(result.details?.kind, 'modelMissing');
+  });
+});
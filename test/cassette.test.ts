@@ -0,0 +1,50 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MockOpenAiServer } from './mock/MockOpenAiServer';
+import { resetStub, stubState } from './harness/vscodeStub';
+import { Cassette } from '../src/Cassette';
+
+describe('Cassette', () => {
+  const server = new MockOpenAiServer();
+  let directory = '';
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'ani-cassette-'));
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    server.reset();
+    resetStub();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('replays a recorded exchange without the server', async () => {
+    const baseUrl = await server.start();
+    server.enqueueChat({ content: 'Recorded hello' });
+    const request: RequestInit = {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ model: 'mock-model', messages: [{ role: 'user', content: 'Hello Ani' }] }),
+    };
+
+    stubState.configuration = { 'cassette.mode': 'record', 'cassette.directory': directory };
+    const recorder = new Cassette();
+    const recorded = await recorder.getFetch()!(`${baseUrl}/chat/completions`, request);
+    const recordedBody = await recorded.json();
+    // `writes` is private; wait for it so the cassette is on disk before the server goes away
+    await (recorder as unknown as { writes: Promise<void> }).writes;
+    await server.stop();
+
+    stubState.configuration = { 'cassette.mode': 'replay', 'cassette.directory': directory };
+    const replayed = await new Cassette().getFetch()!(`${baseUrl}/chat/completions`, request);
+
+    assert.equal(replayed.status, 200);
+    assert.deepEqual(await replayed.json(), recordedBody);
+    assert.equal(recordedBody.choices[0].message.content, 'Recorded hello');
+    assert.equal(server.chatRequests.length, 1);
+  });
+});
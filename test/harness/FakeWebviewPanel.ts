@@ -0,0 +1,63 @@
+import type * as vscode from 'vscode';
+import { Disposable, EventEmitter } from './vscodeStub';
+
+/**
+ * Records every message the extension posts to the webview and lets tests post messages back
+ */
+export class FakeWebviewPanel {
+  readonly messages: any[] = [];
+  private readonly received = new EventEmitter<any>();
+  private readonly disposed = new EventEmitter<void>();
+
+  readonly webview = {
+    html: '',
+    options: {},
+    cspSource: 'fake-webview',
+    postMessage: async (message: unknown): Promise<boolean> => {
+      this.messages.push(message);
+      return true;
+    },
+    onDidReceiveMessage: (listener: (message: any) => unknown): Disposable => this.received.event(listener),
+    asWebviewUri: (uri: unknown) => uri,
+  };
+
+  readonly onDidDispose = this.disposed.event;
+  visible = true;
+  active = true;
+
+  /**
+   * This panel typed as the VS Code API expects
+   */
+  get panel(): vscode.WebviewPanel {
+    return this as unknown as vscode.WebviewPanel;
+  }
+
+  /**
+   * Simulate a message sent from the webview to the extension
+   */
+  receive(message: unknown): void {
+    this.received.fire(message);
+  }
+
+  /**
+   * Posted messages of the given `type`, in order
+   */
+  ofType(type: string): any[] {
+    return this.messages.filter((message) => message?.type === type);
+  }
+
+  /**
+   * The message types posted so far, in order
+   */
+  get types(): string[] {
+    return this.messages.map((message) => message?.type);
+  }
+
+  reveal(): void {
+    this.visible = true;
+  }
+
+  dispose(): void {
+    this.disposed.fire();
+  }
+}
@@ -0,0 +1,71 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AgentLoop } from '../../src/AgentLoop';
+import { MessageQueue } from '../../src/MessageQueue';
+import { PluginManager } from '../../src/plugins/PluginManager';
+import { FakeWebviewPanel } from './FakeWebviewPanel';
+import { resetStub, stubState, window, StubOutputChannel } from './vscodeStub';
+
+export const TEST_SYSTEM_PROMPT = 'You are Ani, a test character.';
+
+/**
+ * Settings that keep a test turn to a single, fast request against the mock server
+ */
+export function testConfiguration(baseUrl: string): Record<string, unknown> {
+  return {
+    'llm.provider': 'openai',
+    'llm.baseUrl': baseUrl,
+    'llm.apiKey': 'test-key',
+    'llm.model': 'mock-model',
+    'llm.streaming': false,
+    'llm.retry.maxRetries': 0,
+    'llm.timeoutSeconds': 10,
+    'tts.enabled': false,
+    'memory.enabled': false,
+    'tools.workspace.enabled': false,
+    'privacy.redaction.enabled': false,
+  };
+}
+
+export interface AgentLoopHarness {
+  loop: AgentLoop;
+  panel: FakeWebviewPanel;
+  logs: StubOutputChannel;
+  /** Run one turn of the agent loop and wait until it has finished */
+  runTurn(pluginId?: string): Promise<void>;
+  dispose(): void;
+}
+
+/**
+ * An agent loop wired to a fake panel, with `settings` applied on top of `testConfiguration`
+ * The character card is a temporary file so the system prompt is predictable
+ */
+export function createAgentLoopHarness(baseUrl: string, settings: Record<string, unknown> = {}): AgentLoopHarness {
+  resetStub();
+  Object.assign(stubState.configuration, testConfiguration(baseUrl), settings);
+
+  const extensionPath = fs.mkdtempSync(path.join(os.tmpdir(), 'ani-test-'));
+  const charactersDir = path.join(extensionPath, 'out', 'characters');
+  fs.mkdirSync(charactersDir, { recursive: true });
+  fs.writeFileSync(path.join(charactersDir, 'Mao.mdx'), `---\nname: Mao\n---\n${TEST_SYSTEM_PROMPT}\n`);
+
+  const logs = window.createOutputChannel('Ani Test');
+  const panel = new FakeWebviewPanel();
+  const loop = new AgentLoop(new MessageQueue(), new PluginManager(), logs as any);
+  loop.setPanel(panel.panel);
+  loop.setExtensionPath(extensionPath);
+  loop.setCharacter('Mao');
+
+  return {
+    loop,
+    panel,
+    logs,
+    // `run` is private; tests call it directly to skip the trigger debounce and await the whole turn
+    runTurn: (pluginId?: string) => (loop as unknown as { run(pluginId?: string): Promise<void> }).run(pluginId),
+    dispose: () => {
+      loop.dispose();
+      fs.rmSync(extensionPath, { recursive: true, force: true });
+    },
+  };
+}
@@ -0,0 +1,370 @@
+/**
+ * Minimal stand-in for the `vscode` module, aliased in by scripts/run-tests.mjs
+ * Covers what the agent loop, providers and tools touch; tests drive it through `stubState`
+ */
+import * as path from 'path';
+
+type Listener<T> = (event: T) => unknown;
+
+export class Disposable {
+  static from(...disposables: Array<{ dispose(): unknown }>): Disposable {
+    return new Disposable(() => disposables.forEach((disposable) => disposable.dispose()));
+  }
+
+  constructor(private readonly callOnDispose: () => unknown) {}
+
+  dispose(): void {
+    this.callOnDispose();
+  }
+}
+
+export class EventEmitter<T> {
+  private listeners = new Set<Listener<T>>();
+
+  readonly event = (listener: Listener<T>): Disposable => {
+    this.listeners.add(listener);
+    return new Disposable(() => this.listeners.delete(listener));
+  };
+
+  fire(event: T): void {
+    for (const listener of [...this.listeners]) {
+      listener(event);
+    }
+  }
+
+  dispose(): void {
+    this.listeners.clear();
+  }
+}
+
+export class Uri {
+  private constructor(
+    readonly scheme: string,
+    readonly path: string
+  ) {}
+
+  static file(fsPath: string): Uri {
+    return new Uri('file', path.resolve(fsPath));
+  }
+
+  static parse(value: string): Uri {
+    const match = /^([a-z][\w+.-]*):(?:\/\/)?(.*)$/i.exec(value);
+    return match ? new Uri(match[1], match[1] === 'file' ? decodeURIComponent(match[2]) : match[2]) : Uri.file(value);
+  }
+
+  static joinPath(base: Uri, ...segments: string[]): Uri {
+    return new Uri(base.scheme, path.join(base.path, ...segments));
+  }
+
+  get fsPath(): string {
+    return this.path;
+  }
+
+  toString(): string {
+    return this.scheme === 'file' ? `file://${encodeURI(this.path)}` : `${this.scheme}:${this.path}`;
+  }
+}
+
+export class FileSystemError extends Error {}
+
+export class Position {
+  constructor(
+    readonly line: number,
+    readonly character: number
+  ) {}
+}
+
+export class Range {
+  readonly start: Position;
+  readonly end: Position;
+
+  constructor(startLine: number, startCharacter: number, endLine: number, endCharacter: number) {
+    this.start = new Position(startLine, startCharacter);
+    this.end = new Position(endLine, endCharacter);
+  }
+}
+
+/**
+ * In-memory text document with `\n` line endings; its version goes up with every edit
+ */
+export class StubTextDocument {
+  version = 1;
+
+  constructor(
+    readonly uri: Uri,
+    private text: string,
+    readonly languageId = 'plaintext'
+  ) {}
+
+  get lineCount(): number {
+    return this.text.split('\n').length;
+  }
+
+  lineAt(line: number): { lineNumber: number; text: string } {
+    const text = this.text.split('\n')[line];
+    if (text === undefined) {
+      throw new Error(`Illegal line ${line}`);
+    }
+    return { lineNumber: line, text };
+  }
+
+  offsetAt(position: Position): number {
+    const lines = this.text.split('\n').slice(0, position.line);
+    return lines.reduce((offset, line) => offset + line.length + 1, 0) + position.character;
+  }
+
+  getText(range?: Range): string {
+    return range ? this.text.slice(this.offsetAt(range.start), this.offsetAt(range.end)) : this.text;
+  }
+
+  /** Used by `workspace.applyEdit`, and by tests to simulate typing */
+  replace(range: Range, newText: string): void {
+    this.text = this.text.slice(0, this.offsetAt(range.start)) + newText + this.text.slice(this.offsetAt(range.end));
+    this.version++;
+  }
+}
+
+export class WorkspaceEdit {
+  readonly edits: Array<{ uri: Uri; range: Range; newText: string }> = [];
+
+  replace(uri: Uri, range: Range, newText: string): void {
+    this.edits.push({ uri, range, newText });
+  }
+}
+
+export enum DiagnosticSeverity {
+  Error = 0,
+  Warning = 1,
+  Information = 2,
+  Hint = 3,
+}
+
+export enum SymbolKind {
+  File = 0,
+  Module = 1,
+  Namespace = 2,
+  Package = 3,
+  Class = 4,
+  Method = 5,
+  Property = 6,
+  Field = 7,
+  Constructor = 8,
+  Enum = 9,
+  Interface = 10,
+  Function = 11,
+  Variable = 12,
+  Constant = 13,
+}
+
+export enum ViewColumn {
+  Active = -1,
+  Beside = -2,
+  One = 1,
+  Two = 2,
+}
+
+export interface StubWorkspaceFolder {
+  uri: Uri;
+  name: string;
+  index: number;
+}
+
+export interface StubOutputChannel {
+  name: string;
+  lines: string[];
+  appendLine(value: string): void;
+  append(value: string): void;
+  clear(): void;
+  show(): void;
+  hide(): void;
+  dispose(): void;
+}
+
+/**
+ * Mutable state behind the stub; reset it between tests with `resetStub`
+ */
+export const stubState = {
+  /** `ani-vscode.*` settings, keyed without the section prefix (e.g. `llm.model`) */
+  configuration: {} as Record<string, unknown>,
+  workspaceFolders: [] as StubWorkspaceFolder[],
+  activeTextEditor: undefined as unknown,
+  visibleTextEditors: [] as unknown[],
+  executedCommands: [] as Array<{ command: string; args: unknown[] }>,
+  shownMessages: [] as Array<{ level: 'info' | 'warning' | 'error'; message: string }>,
+  /** Documents `workspace.openTextDocument` can open; add them with `addTextDocument` */
+  textDocuments: [] as StubTextDocument[],
+};
+
+const onDidChangeConfigurationEmitter = new EventEmitter<{ affectsConfiguration(section: string): boolean }>();
+
+export function resetStub(): void {
+  stubState.configuration = {};
+  stubState.workspaceFolders = [];
+  stubState.activeTextEditor = undefined;
+  stubState.visibleTextEditors = [];
+  stubState.executedCommands = [];
+  stubState.shownMessages = [];
+  stubState.textDocuments = [];
+}
+
+export function addTextDocument(fsPath: string, text: string, languageId?: string): StubTextDocument {
+  const document = new StubTextDocument(Uri.file(fsPath), text, languageId);
+  stubState.textDocuments.push(document);
+  return document;
+}
+
+function findTextDocument(uri: Uri): StubTextDocument | undefined {
+  return stubState.textDocuments.find((document) => document.uri.fsPath === uri.fsPath);
+}
+
+/**
+ * Replace some settings and notify configuration listeners
+ */
+export function updateConfiguration(values: Record<string, unknown>): void {
+  Object.assign(stubState.configuration, values);
+  onDidChangeConfigurationEmitter.fire({
+    affectsConfiguration: (section) =>
+      Object.keys(values).some((key) => `ani-vscode.${key}`.startsWith(section) || section.startsWith(`ani-vscode.${key}`)),
+  });
+}
+
+function createConfiguration(section?: string) {
+  const prefix = section && section !== 'ani-vscode' ? `${section.replace(/^ani-vscode\./, '')}.` : '';
+  const read = (key: string) => stubState.configuration[`${prefix}${key}`];
+  return {
+    get<T>(key: string, defaultValue?: T): T | undefined {
+      const value = read(key);
+      return value === undefined ? defaultValue : (value as T);
+    },
+    has(key: string): boolean {
+      return read(key) !== undefined;
+    },
+    inspect(key: string) {
+      return { key, globalValue: read(key) };
+    },
+    async update(key: string, value: unknown): Promise<void> {
+      updateConfiguration({ [`${prefix}${key}`]: value });
+    },
+  };
+}
+
+const noopEvent = (): Disposable => new Disposable(() => undefined);
+
+export const workspace = {
+  get workspaceFolders(): StubWorkspaceFolder[] | undefined {
+    return stubState.workspaceFolders.length > 0 ? stubState.workspaceFolders : undefined;
+  },
+  getConfiguration: createConfiguration,
+  getWorkspaceFolder(uri: Uri): StubWorkspaceFolder | undefined {
+    return stubState.workspaceFolders.find((folder) => {
+      const relative = path.relative(folder.uri.fsPath, uri.fsPath);
+      return !relative.startsWith('..') && !path.isAbsolute(relative);
+    });
+  },
+  createFileSystemWatcher() {
+    return {
+      onDidCreate: noopEvent,
+      onDidChange: noopEvent,
+      onDidDelete: noopEvent,
+      dispose: () => undefined,
+    };
+  },
+  onDidChangeConfiguration: onDidChangeConfigurationEmitter.event,
+  onDidChangeWorkspaceFolders: noopEvent,
+  onDidChangeTextDocument: noopEvent,
+  onDidSaveTextDocument: noopEvent,
+  async findFiles(): Promise<Uri[]> {
+    return [];
+  },
+  async openTextDocument(uri: Uri): Promise<StubTextDocument> {
+    const document = findTextDocument(uri);
+    if (!document) {
+      throw new Error(`${uri.fsPath} was not added with addTextDocument`);
+    }
+    return document;
+  },
+  async applyEdit(edit: WorkspaceEdit): Promise<boolean> {
+    const targets = edit.edits.map((change) => findTextDocument(change.uri));
+    if (targets.some((document) => !document)) {
+      return false;
+    }
+    // Apply from the end of each document so earlier ranges stay valid
+    const changes = edit.edits
+      .map((change, index) => ({ ...change, document: targets[index]! }))
+      .sort((a, b) => b.document.offsetAt(b.range.start) - a.document.offsetAt(a.range.start));
+    changes.forEach((change) => change.document.replace(change.range, change.newText));
+    return true;
+  },
+  fs: {
+    async stat(): Promise<never> {
+      throw new FileSystemError('File system access is not available in tests');
+    },
+    async readFile(): Promise<never> {
+      throw new FileSystemError('File system access is not available in tests');
+    },
+    async writeFile(): Promise<void> {
+      // Writes are discarded
+    },
+  },
+};
+
+export const window = {
+  get activeTextEditor(): unknown {
+    return stubState.activeTextEditor;
+  },
+  get visibleTextEditors(): unknown[] {
+    return stubState.visibleTextEditors;
+  },
+  createOutputChannel(name: string): StubOutputChannel {
+    const lines: string[] = [];
+    return {
+      name,
+      lines,
+      appendLine: (value) => lines.push(value),
+      append: (value) => lines.push(value),
+      clear: () => (lines.length = 0),
+      show: () => undefined,
+      hide: () => undefined,
+      dispose: () => undefined,
+    };
+  },
+  async showInformationMessage(message: string): Promise<undefined> {
+    stubState.shownMessages.push({ level: 'info', message });
+    return undefined;
+  },
+  async showWarningMessage(message: string): Promise<undefined> {
+    stubState.shownMessages.push({ level: 'warning', message });
+    return undefined;
+  },
+  async showErrorMessage(message: string): Promise<undefined> {
+    stubState.shownMessages.push({ level: 'error', message });
+    return undefined;
+  },
+  async showTextDocument(document: StubTextDocument): Promise<{ document: StubTextDocument }> {
+    return { document };
+  },
+  onDidChangeActiveTextEditor: noopEvent,
+  onDidChangeTextEditorSelection: noopEvent,
+};
+
+export const languages = {
+  getDiagnostics(): [] {
+    return [];
+  },
+};
+
+export const commands = {
+  async executeCommand(command: string, ...args: unknown[]): Promise<undefined> {
+    stubState.executedCommands.push({ command, args });
+    return undefined;
+  },
+  registerCommand(): Disposable {
+    return new Disposable(() => undefined);
+  },
+};
+
+export const extensions = {
+  getExtension(): undefined {
+    return undefined;
+  },
+};
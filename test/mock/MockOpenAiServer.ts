@@ -0,0 +1,285 @@
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+
+/**
+ * A tool call the mock model makes; `arguments` objects are serialized to JSON
+ */
+export interface MockToolCall {
+  name: string;
+  arguments?: Record<string, unknown> | string;
+  id?: string;
+}
+
+/**
+ * One scripted chat completion: a reply, tool calls, or an API error when `status` is set
+ */
+export interface MockChatReply {
+  content?: string;
+  toolCalls?: MockToolCall[];
+  status?: number;
+  error?: { message: string; type?: string; code?: string };
+  headers?: Record<string, string>;
+  /** Delay before responding, e.g. to test timeouts and cancellation */
+  delayMs?: number;
+  /** Drop the connection after streaming the content, e.g. to test replies that fail halfway */
+  disconnect?: boolean;
+}
+
+/**
+ * A reply, or a function computing one from the request body
+ */
+export type MockChatScript = MockChatReply | ((body: any) => MockChatReply);
+
+/**
+ * A request received by the mock server
+ */
+export interface MockRequest {
+  method: string;
+  path: string;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+const DEFAULT_REPLY: MockChatReply = { content: 'Hello from the mock model.' };
+const SAMPLE_RATE = 8000;
+
+/**
+ * A 16-bit mono WAV containing `samples` samples of silence
+ */
+export function createSilentWav(samples = 800): Buffer {
+  const dataBytes = samples * 2;
+  const wav = Buffer.alloc(44 + dataBytes);
+  wav.write('RIFF', 0, 'ascii');
+  wav.writeUInt32LE(36 + dataBytes, 4);
+  wav.write('WAVE', 8, 'ascii');
+  wav.write('fmt ', 12, 'ascii');
+  wav.writeUInt32LE(16, 16);
+  wav.writeUInt16LE(1, 20);
+  wav.writeUInt16LE(1, 22);
+  wav.writeUInt32LE(SAMPLE_RATE, 24);
+  wav.writeUInt32LE(SAMPLE_RATE * 2, 28);
+  wav.writeUInt16LE(2, 32);
+  wav.writeUInt16LE(16, 34);
+  wav.write('data', 36, 'ascii');
+  wav.writeUInt32LE(dataBytes, 40);
+  return wav;
+}
+
+/**
+ * A scriptable OpenAI-compatible server implementing `/chat/completions` (plain and streamed,
+ * with tool calls), `/audio/speech` and `/models`
+ * Chat replies are served from a queue; once it is empty every request gets the default reply
+ */
+export class MockOpenAiServer {
+  readonly requests: MockRequest[] = [];
+  private server: http.Server | null = null;
+  private chatQueue: MockChatScript[] = [];
+  private defaultReply: MockChatScript = DEFAULT_REPLY;
+  private speechStatus = 200;
+  private speechDelayMs = 0;
+  private nextId = 1;
+
+  /**
+   * Start listening on a random local port and return the base URL (ending in /v1)
+   */
+  async start(): Promise<string> {
+    const server = http.createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        res.statusCode = 500;
+        res.end(JSON.stringify({ error: { message: String(error) } }));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    this.server = server;
+    return this.baseUrl;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    if (server) {
+      server.closeAllConnections();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+
+  get baseUrl(): string {
+    if (!this.server) {
+      throw new Error('Mock server is not running');
+    }
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}/v1`;
+  }
+
+  /**
+   * Queue replies for the next chat completions, in order
+   */
+  enqueueChat(...replies: MockChatScript[]): void {
+    this.chatQueue.push(...replies);
+  }
+
+  /**
+   * Reply used once the queue is empty
+   */
+  setDefaultChatReply(reply: MockChatScript): void {
+    this.defaultReply = reply;
+  }
+
+  /**
+   * Make `/audio/speech` fail with `status` (200 restores normal behavior)
+   */
+  setSpeechStatus(status: number): void {
+    this.speechStatus = status;
+  }
+
+  /**
+   * Delay every `/audio/speech` response by `delayMs`
+   */
+  setSpeechDelay(delayMs: number): void {
+    this.speechDelayMs = delayMs;
+  }
+
+  /**
+   * Bodies of the chat completion requests received so far
+   */
+  get chatRequests(): any[] {
+    return this.requests.filter((request) => request.path.endsWith('/chat/completions')).map((request) => request.body);
+  }
+
+  /**
+   * Bodies of the speech requests received so far
+   */
+  get speechRequests(): any[] {
+    return this.requests.filter((request) => request.path.endsWith('/audio/speech')).map((request) => request.body);
+  }
+
+  reset(): void {
+    this.requests.length = 0;
+    this.chatQueue = [];
+    this.defaultReply = DEFAULT_REPLY;
+    this.speechStatus = 200;
+    this.speechDelayMs = 0;
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+    const raw = Buffer.concat(chunks).toString('utf8');
+    let body: any = raw;
+    try {
+      body = raw ? JSON.parse(raw) : null;
+    } catch {
+      // Keep the raw text
+    }
+    const path = (req.url ?? '/').split('?')[0];
+    this.requests.push({ method: req.method ?? 'GET', path, headers: req.headers, body });
+
+    if (req.method === 'POST' && path.endsWith('/chat/completions')) {
+      await this.handleChat(body, res);
+    } else if (req.method === 'POST' && path.endsWith('/audio/speech')) {
+      await this.handleSpeech(res);
+    } else if (req.method === 'GET' && path.endsWith('/models')) {
+      this.sendJson(res, 200, { object: 'list', data: [{ id: 'mock-model', object: 'model', owned_by: 'mock' }] });
+    } else {
+      this.sendJson(res, 404, { error: { message: `No mock route for ${req.method} ${path}`, type: 'invalid_request_error' } });
+    }
+  }
+
+  private async handleChat(body: any, res: http.ServerResponse): Promise<void> {
+    const script = this.chatQueue.shift() ?? this.defaultReply;
+    const reply = typeof script === 'function' ? script(body) : script;
+    if (reply.delayMs) {
+      await new Promise((resolve) => setTimeout(resolve, reply.delayMs));
+    }
+    for (const [name, value] of Object.entries(reply.headers ?? {})) {
+      res.setHeader(name, value);
+    }
+    if (reply.status && reply.status >= 400) {
+      this.sendJson(res, reply.status, {
+        error: { message: reply.error?.message ?? 'Mock error', type: reply.error?.type ?? 'api_error', code: reply.error?.code ?? null },
+      });
+      return;
+    }
+
+    const id = `chatcmpl-mock-${this.nextId++}`;
+    const model = typeof body?.model === 'string' ? body.model : 'mock-model';
+    const toolCalls = (reply.toolCalls ?? []).map((call, index) => ({
+      id: call.id ?? `call_mock_${this.nextId++}`,
+      type: 'function' as const,
+      function: {
+        name: call.name,
+        arguments: typeof call.arguments === 'string' ? call.arguments : JSON.stringify(call.arguments ?? {}),
+      },
+      index,
+    }));
+    const content = reply.content ?? (toolCalls.length ? null : '');
+    const finishReason = toolCalls.length ? 'tool_calls' : 'stop';
+    const usage = { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 };
+    const created = Math.floor(Date.now() / 1000);
+
+    if (!body?.stream) {
+      this.sendJson(res, 200, {
+        id,
+        object: 'chat.completion',
+        created,
+        model,
+        choices: [
+          {
+            index: 0,
+            message: {
+              role: 'assistant',
+              content,
+              ...(toolCalls.length ? { tool_calls: toolCalls.map(({ index: _index, ...call }) => call) } : {}),
+            },
+            finish_reason: finishReason,
+          },
+        ],
+        usage,
+      });
+      return;
+    }
+
+    res.writeHead(200, { 'content-type': 'text/event-stream', 'cache-control': 'no-cache' });
+    const send = (delta: Record<string, unknown>, finish: string | null = null) => {
+      const chunk = { id, object: 'chat.completion.chunk', created, model, choices: [{ index: 0, delta, finish_reason: finish }] };
+      res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+    };
+    send({ role: 'assistant', content: '' });
+    // Stream word by word so clients see several deltas
+    for (const piece of (content ?? '').match(/\S+\s*|\s+/g) ?? []) {
+      send({ content: piece });
+    }
+    if (reply.disconnect) {
+      // Let the content reach the client first
+      setTimeout(() => res.destroy(), 50);
+      return;
+    }
+    for (const call of toolCalls) {
+      send({ tool_calls: [{ index: call.index, id: call.id, type: 'function', function: { name: call.function.name, arguments: '' } }] });
+      send({ tool_calls: [{ index: call.index, function: { arguments: call.function.arguments } }] });
+    }
+    send({}, finishReason);
+    if (body.stream_options?.include_usage) {
+      res.write(`data: ${JSON.stringify({ id, object: 'chat.completion.chunk', created, model, choices: [], usage })}\n\n`);
+    }
+    res.end('data: [DONE]\n\n');
+  }
+
+  private async handleSpeech(res: http.ServerResponse): Promise<void> {
+    if (this.speechDelayMs) {
+      await new Promise((resolve) => setTimeout(resolve, this.speechDelayMs));
+    }
+    if (this.speechStatus !== 200) {
+      this.sendJson(res, this.speechStatus, { error: { message: 'Mock speech error', type: 'api_error' } });
+      return;
+    }
+    res.writeHead(200, { 'content-type': 'audio/wav' });
+    res.end(createSilentWav());
+  }
+
+  private sendJson(res: http.ServerResponse, status: number, payload: unknown): void {
+    res.writeHead(status, { 'content-type': 'application/json' });
+    res.end(JSON.stringify(payload));
+  }
+}
@@ -0,0 +1,23 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { Redactor, RedactionSettings } from '../src/privacy/Redactor';
+
+describe('Redactor', () => {
+  const settings: RedactionSettings = { enabled: true, detectors: ['secretAssignment'], customPatterns: [] };
+
+  it('redacts values assigned to secret-looking names', () => {
+    const redactor = new Redactor();
+    const { text, count } = redactor.redact('AUTH_TOKEN=abc123def456\nauthorization: "s3cr3t-value"', settings);
+
+    assert.equal(text, 'AUTH_TOKEN=[REDACTED_SECRET_1]\nauthorization: "[REDACTED_SECRET_2]"');
+    assert.equal(count, 2);
+    assert.equal(redactor.restore(text), 'AUTH_TOKEN=abc123def456\nauthorization: "s3cr3t-value"');
+  });
+
+  it('leaves names that merely start with "auth" alone', () => {
+    const redactor = new Redactor();
+    const input = 'author: "Jane Doe"\nauthority = "login.example.com"\nOAuthProvider=GoogleProvider';
+
+    assert.deepEqual(redactor.redact(input, settings), { text: input, count: 0 });
+  });
+});
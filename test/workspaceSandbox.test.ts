@@ -0,0 +1,47 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { resetStub, stubState, Uri } from './harness/vscodeStub';
+import { resolveWorkspacePath } from '../src/tools/workspace/workspaceSandbox';
+import { PrivacyFilter } from '../src/privacy/PrivacyFilter';
+
+describe('resolveWorkspacePath', () => {
+  let root = '';
+
+  beforeEach(() => {
+    root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'ani-sandbox-')));
+    stubState.workspaceFolders = [{ uri: Uri.file(root), name: 'workspace', index: 0 }];
+  });
+
+  afterEach(() => {
+    resetStub();
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('resolves a symlink to the file it points at, so exclusions still apply', async () => {
+    fs.writeFileSync(path.join(root, '.env'), 'API_TOKEN=secret\n');
+    fs.writeFileSync(path.join(root, '.aniignore'), '.env\n');
+    fs.symlinkSync('.env', path.join(root, 'notes.txt'));
+    const privacyFilter = new PrivacyFilter();
+
+    const uri = await resolveWorkspacePath('notes.txt');
+
+    assert.equal(uri.fsPath, path.join(root, '.env'));
+    assert.equal(privacyFilter.isExcluded(uri), true);
+    privacyFilter.dispose();
+  });
+
+  it('rejects a symlink pointing outside the workspace', async () => {
+    const outside = fs.mkdtempSync(path.join(os.tmpdir(), 'ani-outside-'));
+    fs.writeFileSync(path.join(outside, 'secret.txt'), 'hidden\n');
+    fs.symlinkSync(path.join(outside, 'secret.txt'), path.join(root, 'link.txt'));
+
+    try {
+      await assert.rejects(resolveWorkspacePath('link.txt'), /not found/);
+    } finally {
+      fs.rmSync(outside, { recursive: true, force: true });
+    }
+  });
+});
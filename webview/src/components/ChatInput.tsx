@@ -0,0 +1,190 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { FloatingControlButton } from './FloatingControlButton';
+
+const MAX_HISTORY = 50;
+const MAX_ROWS = 4;
+
+interface ChatToggleButtonProps {
+  open: boolean;
+  onToggle: () => void;
+}
+
+export function ChatToggleButton({ open, onToggle }: ChatToggleButtonProps) {
+  const label = open ? 'Hide chat input' : 'Talk to Ani';
+  return (
+    <FloatingControlButton onClick={onToggle} ariaLabel={label} title={label} aria-expanded={open} style={{ fontSize: 16 }}>
+      💬
+    </FloatingControlButton>
+  );
+}
+
+interface ChatInputProps {
+  open: boolean;
+  onSubmit: (text: string) => void;
+  onClose: () => void;
+  /** Called with the rendered height (0 when closed) so the speech bubble can sit above the box */
+  onHeightChange?: (height: number) => void;
+}
+
+/**
+ * Message box shown while chat is open: Enter sends, Shift+Enter adds a line, Up/Down recall earlier messages
+ * Stays mounted while closed so the history survives for as long as the panel lives
+ */
+export function ChatInput({ open, onSubmit, onClose, onHeightChange }: ChatInputProps) {
+  const [value, setValue] = useState('');
+  const containerRef = useRef<HTMLDivElement>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const historyRef = useRef<string[]>([]);
+  // Position while browsing history; equal to the history length when editing a fresh draft
+  const historyIndexRef = useRef(0);
+  const draftRef = useRef('');
+
+  useEffect(() => {
+    if (open) {
+      textareaRef.current?.focus();
+    }
+  }, [open]);
+
+  const rows = Math.min(MAX_ROWS, value.split('\n').length);
+
+  useLayoutEffect(() => {
+    onHeightChange?.(open ? containerRef.current?.offsetHeight ?? 0 : 0);
+  }, [open, rows, onHeightChange]);
+
+  const recall = (index: number) => {
+    const history = historyRef.current;
+    if (index < 0 || index > history.length) {
+      return;
+    }
+    if (historyIndexRef.current === history.length) {
+      draftRef.current = value;
+    }
+    historyIndexRef.current = index;
+    const next = index === history.length ? draftRef.current : history[index];
+    setValue(next);
+    // Put the caret at the end once React has applied the new value
+    window.requestAnimationFrame(() => {
+      const textarea = textareaRef.current;
+      textarea?.setSelectionRange(next.length, next.length);
+    });
+  };
+
+  const submit = () => {
+    const trimmed = value.trim();
+    if (!trimmed) {
+      return;
+    }
+    const history = historyRef.current;
+    if (history[history.length - 1] !== trimmed) {
+      history.push(trimmed);
+      if (history.length > MAX_HISTORY) {
+        history.shift();
+      }
+    }
+    historyIndexRef.current = history.length;
+    draftRef.current = '';
+    setValue('');
+    onSubmit(trimmed);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.nativeEvent.isComposing) {
+      return;
+    }
+    const textarea = event.currentTarget;
+    const caret = textarea.selectionStart;
+    const hasSelection = textarea.selectionStart !== textarea.selectionEnd;
+    if (event.key === 'Enter' && !event.shiftKey) {
+      event.preventDefault();
+      submit();
+    } else if (event.key === 'ArrowUp' && !hasSelection && !value.slice(0, caret).includes('\n')) {
+      // Only from the first line, so the arrow still moves between lines of a long message
+      if (historyIndexRef.current > 0) {
+        event.preventDefault();
+        recall(historyIndexRef.current - 1);
+      }
+    } else if (event.key === 'ArrowDown' && !hasSelection && !value.slice(caret).includes('\n')) {
+      if (historyIndexRef.current < historyRef.current.length) {
+        event.preventDefault();
+        recall(historyIndexRef.current + 1);
+      }
+    } else if (event.key === 'Escape') {
+      event.preventDefault();
+      onClose();
+    }
+  };
+
+  if (!open) {
+    return null;
+  }
+
+  const canSend = value.trim().length > 0;
+
+  return (
+    <div
+      ref={containerRef}
+      style={{
+        position: 'absolute',
+        left: 16,
+        right: 16,
+        bottom: 16,
+        display: 'flex',
+        alignItems: 'flex-end',
+        gap: 6,
+        padding: '6px 6px 6px 12px',
+        borderRadius: 17,
+        background: 'rgba(0, 0, 0, 0.55)',
+        boxShadow: '0 8px 20px rgba(0,0,0,0.35)',
+        backdropFilter: 'blur(2px)',
+        WebkitBackdropFilter: 'blur(2px)',
+        zIndex: 16,
+      }}
+    >
+      <textarea
+        ref={textareaRef}
+        value={value}
+        rows={rows}
+        maxLength={4000}
+        placeholder="Message Ani (Enter to send, Shift+Enter for a new line)"
+        aria-label="Message Ani"
+        onChange={(event) => {
+          setValue(event.target.value);
+          historyIndexRef.current = historyRef.current.length;
+        }}
+        onKeyDown={handleKeyDown}
+        style={{
+          flex: 1,
+          resize: 'none',
+          border: 'none',
+          outline: 'none',
+          background: 'transparent',
+          color: '#fff',
+          fontFamily: 'system-ui, -apple-system, Segoe UI, Roboto, Helvetica, Arial, sans-serif',
+          fontSize: '12px',
+          lineHeight: 1.4,
+          padding: '3px 0',
+        }}
+      />
+      <button
+        type="button"
+        onClick={submit}
+        disabled={!canSend}
+        aria-label="Send message"
+        title="Send message"
+        style={{
+          flexShrink: 0,
+          background: 'rgba(255,255,255,0.15)',
+          color: '#fff',
+          border: 'none',
+          padding: '4px 10px',
+          borderRadius: 999,
+          fontSize: '12px',
+          cursor: canSend ? 'pointer' : 'default',
+          opacity: canSend ? 1 : 0.5,
+        }}
+      >
+        Send
+      </button>
+    </div>
+  );
+}
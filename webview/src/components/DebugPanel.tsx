@@ -16,6 +16,12 @@ interface DebugPanelProps {
   visible: boolean;
 }
 
+interface AnsweringModel {
+  provider: string;
+  model: string;
+  fallback: boolean;
+}
+
 interface ConsoleLog {
   type: 'log' | 'warn' | 'error';
   message: string;
@@ -26,6 +32,7 @@ export function DebugPanel({ visible }: DebugPanelProps) {
   const [motions, setMotions] = useState<Motion[]>([]);
   const [expressions, setExpressions] = useState<Expression[]>([]);
   const [currentModel, setCurrentModel] = useState<string>('');
+  const [answeringModel, setAnsweringModel] = useState<AnsweringModel | null>(null);
   const [consoleLogs, setConsoleLogs] = useState<ConsoleLog[]>([]);
   const [showLogs, setShowLogs] = useState(false);
   const [showOnlyErrors, setShowOnlyErrors] = useState(false);
@@ -86,7 +93,13 @@ export function DebugPanel({ visible }: DebugPanelProps) {
         return;
       }
 
-      if (data.type === 'chatHistoryExport') {
+      if (data.type === 'speech' && data.llm && typeof data.llm.model === 'string') {
+        setAnsweringModel({
+          provider: String(data.llm.provider ?? ''),
+          model: data.llm.model,
+          fallback: Boolean(data.llm.fallback),
+        });
+      } else if (data.type === 'chatHistoryExport') {
         const attemptCopy = async () => {
           try {
             if (!navigator?.clipboard?.writeText) {
@@ -293,6 +306,19 @@ export function DebugPanel({ visible }: DebugPanelProps) {
         </div>
       )}
 
+      {answeringModel && (
+        <div
+          style={{
+            fontSize: '11px',
+            marginBottom: '12px',
+            color: answeringModel.fallback ? '#ff9800' : '#aaa',
+          }}
+        >
+          LLM: {answeringModel.provider}/{answeringModel.model}
+          {answeringModel.fallback ? ' (fallback)' : ''}
+        </div>
+      )}
+
       {Object.keys(groupedMotions).length === 0 ? (
         <div style={{ color: '#888', fontStyle: 'italic' }}>
           No motions available
@@ -0,0 +1,163 @@
+import React, { useMemo } from 'react';
+
+/**
+ * A code edit suggested by Ani, as sent by the extension with a `speech` message
+ */
+export interface EditProposal {
+  id: string;
+  filePath: string;
+  startLine: number;
+  endLine: number;
+  original: string;
+  replacement: string;
+  description?: string;
+}
+
+export type EditProposalStatus = 'pending' | 'applying' | 'stale' | 'failed';
+
+export interface EditProposalItem extends EditProposal {
+  status: EditProposalStatus;
+  message?: string;
+}
+
+interface DiffLine {
+  kind: 'context' | 'removed' | 'added';
+  text: string;
+}
+
+/**
+ * Line diff based on the longest common subsequence; edits are capped at a few dozen lines so this stays cheap
+ */
+function diffLines(before: string[], after: string[]): DiffLine[] {
+  const rows = before.length;
+  const cols = after.length;
+  const lcs: number[][] = Array.from({ length: rows + 1 }, () => new Array<number>(cols + 1).fill(0));
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lcs[i][j] = before[i] === after[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < rows || j < cols) {
+    if (i < rows && j < cols && before[i] === after[j]) {
+      lines.push({ kind: 'context', text: before[i++] });
+      j++;
+    } else if (j < cols && (i >= rows || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      lines.push({ kind: 'added', text: after[j++] });
+    } else {
+      lines.push({ kind: 'removed', text: before[i++] });
+    }
+  }
+  return lines;
+}
+
+function splitLines(text: string): string[] {
+  return text === '' ? [] : text.replace(/\r\n/g, '\n').split('\n');
+}
+
+const DIFF_LINE_STYLES: Record<DiffLine['kind'], React.CSSProperties> = {
+  context: { opacity: 0.7 },
+  removed: { background: 'rgba(200, 60, 60, 0.35)' },
+  added: { background: 'rgba(60, 160, 80, 0.35)' },
+};
+
+const DIFF_MARKERS: Record<DiffLine['kind'], string> = { context: ' ', removed: '-', added: '+' };
+
+const BUTTON_STYLE: React.CSSProperties = {
+  border: 'none',
+  borderRadius: 6,
+  padding: '4px 10px',
+  fontSize: '11px',
+  color: '#fff',
+  cursor: 'pointer',
+};
+
+interface EditProposalCardProps {
+  edit: EditProposalItem;
+  onApply: (id: string) => void;
+  onReject: (id: string) => void;
+}
+
+/**
+ * Diff preview of a suggested edit with Apply and Reject buttons
+ */
+export function EditProposalCard({ edit, onApply, onReject }: EditProposalCardProps) {
+  const lines = useMemo(() => diffLines(splitLines(edit.original), splitLines(edit.replacement)), [edit.original, edit.replacement]);
+  const lineLabel = edit.startLine === edit.endLine ? `line ${edit.startLine}` : `lines ${edit.startLine}-${edit.endLine}`;
+  const settled = edit.status === 'stale' || edit.status === 'failed';
+
+  return (
+    <div
+      role="group"
+      aria-label={`Suggested edit to ${edit.filePath}`}
+      style={{
+        width: '100%',
+        padding: '8px 10px',
+        borderRadius: 10,
+        background: 'rgba(0, 0, 0, 0.55)',
+        color: '#fff',
+        boxShadow: '0 6px 16px rgba(0,0,0,0.3)',
+        backdropFilter: 'blur(4px)',
+        WebkitBackdropFilter: 'blur(4px)',
+        fontFamily: 'system-ui, -apple-system, Segoe UI, Roboto, Helvetica, Arial, sans-serif',
+        fontSize: '11px',
+        lineHeight: 1.3,
+        pointerEvents: 'auto',
+      }}
+    >
+      <div style={{ display: 'flex', gap: 6, alignItems: 'baseline', marginBottom: 4 }}>
+        <span style={{ fontWeight: 600, overflowWrap: 'anywhere' }}>{edit.filePath}</span>
+        <span style={{ opacity: 0.7, whiteSpace: 'nowrap' }}>{lineLabel}</span>
+      </div>
+      {edit.description && <div style={{ marginBottom: 6 }}>{edit.description}</div>}
+      <pre
+        style={{
+          margin: 0,
+          maxHeight: 180,
+          overflow: 'auto',
+          padding: '4px 0',
+          borderRadius: 6,
+          background: 'rgba(0, 0, 0, 0.35)',
+          fontFamily: 'var(--vscode-editor-font-family, Menlo, Consolas, monospace)',
+          fontSize: '11px',
+        }}
+      >
+        {lines.map((line, index) => (
+          <div key={index} style={{ ...DIFF_LINE_STYLES[line.kind], padding: '0 6px', whiteSpace: 'pre' }}>
+            {DIFF_MARKERS[line.kind]} {line.text}
+          </div>
+        ))}
+      </pre>
+      {settled && edit.message && <div style={{ marginTop: 6, color: '#ffb4a8' }}>{edit.message}</div>}
+      <div style={{ display: 'flex', justifyContent: 'flex-end', gap: 6, marginTop: 6 }}>
+        {settled ? (
+          <button type="button" onClick={() => onReject(edit.id)} style={{ ...BUTTON_STYLE, background: 'rgba(255,255,255,0.15)' }}>
+            Dismiss
+          </button>
+        ) : (
+          <>
+            <button
+              type="button"
+              onClick={() => onReject(edit.id)}
+              disabled={edit.status === 'applying'}
+              style={{ ...BUTTON_STYLE, background: 'rgba(255,255,255,0.15)' }}
+            >
+              Reject
+            </button>
+            <button
+              type="button"
+              onClick={() => onApply(edit.id)}
+              disabled={edit.status === 'applying'}
+              style={{ ...BUTTON_STYLE, background: 'rgba(40, 130, 70, 0.9)', opacity: edit.status === 'applying' ? 0.6 : 1 }}
+            >
+              {edit.status === 'applying' ? 'Applying…' : 'Apply'}
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
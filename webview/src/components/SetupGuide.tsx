@@ -1,9 +1,25 @@
 import React from 'react';
 import { getVsCodeApi } from '../vscode';
 
+export type SetupRecoveryAction =
+  | { type: 'openSettings'; label: string; key: string }
+  | { type: 'pullModel'; label: string; model: string }
+  | { type: 'shrinkHistoryAndRetry'; label: string }
+  | { type: 'retryConnection'; label: string };
+
+export interface SetupErrorDetails {
+  kind: string;
+  title: string;
+  hint: string;
+  provider: string;
+  model: string;
+  actions: SetupRecoveryAction[];
+}
+
 interface SetupGuideProps {
   visible: boolean;
   errorMessage?: string;
+  errorDetails?: SetupErrorDetails;
   onRetry?: () => void;
   onDismiss?: () => void;
   isTesting?: boolean;
@@ -156,15 +172,21 @@ const hoverHandlers = (base: string, hover: string) => ({
 });
 
 export function SetupGuide(props: SetupGuideProps) {
-  const { visible, errorMessage, onRetry, onDismiss, isTesting } = props;
+  const { visible, errorMessage, errorDetails, onRetry, onDismiss, isTesting } = props;
 
   if (!visible) return null;
 
   const isChecking = Boolean(isTesting);
   const hasError = Boolean(errorMessage);
+  // Connection problems keep the generic setup instructions; other kinds get a targeted hint
+  const showGeneralHelp = !errorDetails || errorDetails.kind === 'connection';
   const showErrorDetails = hasError && !isChecking;
-  const showRetryButton = Boolean(onRetry) && !isChecking;
+  const showRetryButton =
+    Boolean(onRetry) &&
+    !isChecking &&
+    (!errorDetails || errorDetails.actions.some((action) => action.type === 'retryConnection'));
   const showErrorActions = hasError && !isChecking;
+  const recoveryActions = (errorDetails?.actions ?? []).filter((action) => action.type !== 'retryConnection');
 
   const handleOpenSettings = () => {
     const vscode = getVsCodeApi();
@@ -173,12 +195,27 @@ export function SetupGuide(props: SetupGuideProps) {
     }
   };
 
+  const handleRecoveryAction = (action: SetupRecoveryAction) => {
+    const vscode = getVsCodeApi();
+    if (!vscode) {
+      return;
+    }
+    if (action.type === 'openSettings') {
+      vscode.postMessage({ type: 'openSettings', key: action.key });
+    } else if (action.type === 'pullModel') {
+      vscode.postMessage({ type: 'pullModel', model: action.model });
+    } else if (action.type === 'shrinkHistoryAndRetry') {
+      vscode.postMessage({ type: 'shrinkHistoryAndRetry' });
+      onDismiss?.();
+    }
+  };
+
   return (
     <div style={styles.overlay}>
       <style>{spinnerKeyframes}</style>
       <div style={styles.card}>
         <h2 style={styles.title}>
-          {isChecking ? '🔄 Checking Connectivity...' : '⚠️ Connection Error'}
+          {isChecking ? '🔄 Checking Connectivity...' : `⚠️ ${errorDetails?.title ?? 'Connection Error'}`}
         </h2>
 
         {isChecking && (
@@ -192,7 +229,11 @@ export function SetupGuide(props: SetupGuideProps) {
           <div style={styles.errorBox}>{errorMessage}</div>
         )}
 
-        {showErrorDetails && (
+        {showErrorDetails && !showGeneralHelp && errorDetails && (
+          <p style={styles.description}>{errorDetails.hint}</p>
+        )}
+
+        {showErrorDetails && showGeneralHelp && (
           <>
             <p style={styles.description}>
               Unable to connect to the LLM model. This could be because:
@@ -291,7 +332,19 @@ export function SetupGuide(props: SetupGuideProps) {
             </button>
           )}
 
-          {showErrorActions && (
+          {showErrorActions &&
+            recoveryActions.map((action) => (
+              <button
+                key={`${action.type}-${action.label}`}
+                onClick={() => handleRecoveryAction(action)}
+                style={{ ...styles.button, ...styles.primaryButton }}
+                {...hoverHandlers('rgba(59, 130, 246, 0.8)', 'rgba(59, 130, 246, 1)')}
+              >
+                {action.label}
+              </button>
+            ))}
+
+          {showErrorActions && !errorDetails && (
             <button
               onClick={handleOpenSettings}
               style={{ ...styles.button, ...styles.primaryButton }}
@@ -307,7 +360,7 @@ export function SetupGuide(props: SetupGuideProps) {
               style={{ ...styles.button, ...styles.successButton }}
               {...hoverHandlers('rgba(16, 185, 129, 0.8)', 'rgba(16, 185, 129, 1)')}
             >
-              Retry Connection
+              {errorDetails ? 'Retry' : 'Retry Connection'}
             </button>
           )}
         </div>
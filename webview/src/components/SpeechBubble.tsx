@@ -1,5 +1,5 @@
 import React, { useEffect, useRef, useState, useMemo } from 'react';
-import MarkdownIt from 'markdown-it';
+import { copyTextToClipboard, MARKDOWN_STYLES, renderMarkdown } from './markdown';
 
 type SpeechOptions = { durationMs?: number; speedMsPerChar?: number };
 
@@ -7,23 +7,32 @@ export function SpeechBubble(props: {
   text: string;
   options?: SpeechOptions;
   dismiss?: boolean;
+  speechKey?: string | number;
+  streaming?: boolean;
   onCopied?: (text: string) => void;
   onHidden?: () => void;
   onTypingComplete?: () => void;
   quickReplies?: string[];
   showQuickReplies?: boolean;
   onQuickReplySelected?: (reply: string) => void;
+  onClose?: () => void;
+  /** Distance from the bottom of the panel in pixels, raised while the chat input is open */
+  bottomOffset?: number;
 }) {
   const {
     text,
     options,
     dismiss,
+    speechKey,
+    streaming = false,
     onCopied,
     onHidden,
     onTypingComplete,
     quickReplies: rawQuickReplies,
     showQuickReplies = false,
     onQuickReplySelected,
+    onClose,
+    bottomOffset = 24,
   } = props;
   const [displayText, setDisplayText] = useState('');
   const [isVisible, setIsVisible] = useState(false);
@@ -33,6 +42,9 @@ export function SpeechBubble(props: {
   const fadeTimerRef = useRef<number | null>(null);
   const targetTextRef = useRef('');
   const typingCompletedRef = useRef(false);
+  const speechKeyRef = useRef<string | number | undefined>(undefined);
+  const streamingRef = useRef(streaming);
+  const onTypingCompleteRef = useRef(onTypingComplete);
   const optionsRef = useRef<{ durationMs: number; speedMsPerChar: number }>({
     durationMs: 60000,
     speedMsPerChar: 8,
@@ -41,35 +53,24 @@ export function SpeechBubble(props: {
     return Array.isArray(rawQuickReplies) ? rawQuickReplies.filter((r) => typeof r === 'string' && r.trim().length > 0) : [];
   }, [rawQuickReplies]);
 
-  // Create markdown-it instance
-  const md = useMemo(() => {
-    return new MarkdownIt({
-      html: true,
-      linkify: true,
-      typographer: true,
-      breaks: true,
-    });
-  }, []);
+  streamingRef.current = streaming;
+  onTypingCompleteRef.current = onTypingComplete;
 
   // Render markdown to HTML
-  const renderedHtml = useMemo(() => {
-    return md.render(displayText);
-  }, [displayText, md]);
+  const renderedHtml = useMemo(() => renderMarkdown(displayText), [displayText]);
 
-  useEffect(() => {
+  const clearTimers = () => {
     if (typingTimerRef.current != null) window.clearInterval(typingTimerRef.current);
     if (fadeTimerRef.current != null) window.clearTimeout(fadeTimerRef.current);
+    typingTimerRef.current = null;
+    fadeTimerRef.current = null;
+  };
 
-    const durationMs = Math.max(1000, options?.durationMs ?? optionsRef.current.durationMs);
-    const speedMsPerChar = Math.max(5, options?.speedMsPerChar ?? optionsRef.current.speedMsPerChar);
-    optionsRef.current = { durationMs, speedMsPerChar };
-
-    targetTextRef.current = text;
-    typingIndexRef.current = 0;
-    setDisplayText('');
-    setIsVisible(true);
-    setOpacity(1);
-    typingCompletedRef.current = false;
+  const startTyping = () => {
+    if (typingTimerRef.current != null) {
+      return;
+    }
+    const { durationMs, speedMsPerChar } = optionsRef.current;
 
     // Add multiple characters per update to reduce re-renders and improve performance
     // Update every 16ms (60fps) but add multiple characters based on speedMsPerChar
@@ -84,56 +85,72 @@ export function SpeechBubble(props: {
 
       if (nextIndex >= target.length) {
         if (typingTimerRef.current != null) window.clearInterval(typingTimerRef.current);
+        typingTimerRef.current = null;
+        // While streaming, wait for more text instead of completing
+        if (streamingRef.current) {
+          return;
+        }
         if (!typingCompletedRef.current) {
           typingCompletedRef.current = true;
-          onTypingComplete?.();
+          onTypingCompleteRef.current?.();
         }
         fadeTimerRef.current = window.setTimeout(() => {
           setOpacity(0);
         }, durationMs);
       }
     }, updateIntervalMs);
+  };
+
+  useEffect(() => {
+    const previousTarget = targetTextRef.current;
+    const continuesSpeech =
+      speechKey !== undefined &&
+      speechKey === speechKeyRef.current &&
+      previousTarget.length > 0 &&
+      text.startsWith(previousTarget);
+    speechKeyRef.current = speechKey;
+
+    if (continuesSpeech) {
+      // Same speech grew (streamed delta or final text): keep typing from where we are
+      targetTextRef.current = text;
+      if (fadeTimerRef.current != null) {
+        window.clearTimeout(fadeTimerRef.current);
+        fadeTimerRef.current = null;
+      }
+      setOpacity(1);
+      startTyping();
+      return;
+    }
+
+    clearTimers();
+
+    const durationMs = Math.max(1000, options?.durationMs ?? optionsRef.current.durationMs);
+    const speedMsPerChar = Math.max(5, options?.speedMsPerChar ?? optionsRef.current.speedMsPerChar);
+    optionsRef.current = { durationMs, speedMsPerChar };
+
+    targetTextRef.current = text;
+    typingIndexRef.current = 0;
+    setDisplayText('');
+    setIsVisible(true);
+    setOpacity(1);
+    typingCompletedRef.current = false;
+    startTyping();
+  }, [text, speechKey, streaming, options?.durationMs, options?.speedMsPerChar]);
 
-    return () => {
-      if (typingTimerRef.current != null) window.clearInterval(typingTimerRef.current);
-      if (fadeTimerRef.current != null) window.clearTimeout(fadeTimerRef.current);
-    };
-  }, [text, options?.durationMs, options?.speedMsPerChar]);
+  // Clear timers on unmount
+  useEffect(() => clearTimers, []);
 
   // Handle dismiss prop
   useEffect(() => {
     if (dismiss) {
       // Clear any ongoing timers
-      if (typingTimerRef.current != null) window.clearInterval(typingTimerRef.current);
-      if (fadeTimerRef.current != null) window.clearTimeout(fadeTimerRef.current);
-      
+      clearTimers();
+
       // Immediately fade out
       setOpacity(0);
     }
   }, [dismiss]);
 
-  const copyTextToClipboard = async (value: string) => {
-    try {
-      if (navigator.clipboard && typeof navigator.clipboard.writeText === 'function') {
-        await navigator.clipboard.writeText(value);
-        onCopied?.(value);
-        return;
-      }
-    } catch {}
-    try {
-      const ta = document.createElement('textarea');
-      ta.value = value;
-      ta.setAttribute('readonly', '');
-      ta.style.position = 'fixed';
-      ta.style.left = '-9999px';
-      document.body.appendChild(ta);
-      ta.focus();
-      ta.select();
-      document.execCommand('copy');
-      document.body.removeChild(ta);
-      onCopied?.(value);
-    } catch {}
-  };
 
   if (!isVisible) return null;
 
@@ -141,7 +158,7 @@ export function SpeechBubble(props: {
     <div
       style={{
         position: 'absolute',
-        bottom: '24px',
+        bottom: `${bottomOffset}px`,
         maxWidth: '100%',
         margin: '0 12vw',
         background: 'rgba(0, 0, 0, 0.55)',
@@ -155,13 +172,13 @@ export function SpeechBubble(props: {
         fontSize: '12px',
         lineHeight: 1.2,
         opacity,
-        transition: 'opacity 400ms ease',
+        transition: 'opacity 400ms ease, bottom 150ms ease',
         pointerEvents: 'auto',
         cursor: 'pointer'
       }}
       title="Click to copy"
-      onTransitionEnd={() => {
-        if (opacity === 0) {
+      onTransitionEnd={(event) => {
+        if (event.propertyName === 'opacity' && opacity === 0) {
           setIsVisible(false);
           setDisplayText('');
           onHidden?.();
@@ -169,9 +186,42 @@ export function SpeechBubble(props: {
       }}
       onClick={() => {
         const value = targetTextRef.current || displayText;
-        void copyTextToClipboard(value);
+        void copyTextToClipboard(value).then((copied) => {
+          if (copied) {
+            onCopied?.(value);
+          }
+        });
       }}
     >
+      {onClose && (
+        <button
+          className="speech-close-button"
+          type="button"
+          title="Dismiss"
+          aria-label="Dismiss"
+          onClick={(event) => {
+            event.stopPropagation();
+            onClose();
+          }}
+          style={{
+            position: 'absolute',
+            top: -8,
+            right: -8,
+            width: 18,
+            height: 18,
+            padding: 0,
+            borderRadius: '50%',
+            border: '1px solid rgba(255, 255, 255, 0.25)',
+            background: 'rgba(0, 0, 0, 0.75)',
+            color: '#fff',
+            fontSize: '11px',
+            lineHeight: '16px',
+            cursor: 'pointer',
+          }}
+        >
+          ×
+        </button>
+      )}
       {quickReplies.length > 0 && showQuickReplies && (
         <div
           style={{
@@ -232,73 +282,12 @@ export function SpeechBubble(props: {
         className="markdown-content"
       />
       <style>{`
+        .speech-close-button:hover,
         .quick-reply-button:hover {
           background: rgba(255, 255, 255, 0.16) !important;
           border-color: rgba(255, 255, 255, 0.35) !important;
         }
-        .markdown-content p {
-          margin: 0.5em 0;
-        }
-        .markdown-content p:first-child {
-          margin-top: 0;
-        }
-        .markdown-content p:last-child {
-          margin-bottom: 0;
-        }
-        .markdown-content code {
-          background: rgba(255, 255, 255, 0.1);
-          padding: 2px 4px;
-          border-radius: 3px;
-          font-family: 'Courier New', monospace;
-          font-size: 0.9em;
-        }
-        .markdown-content pre {
-          background: rgba(255, 255, 255, 0.1);
-          padding: 8px;
-          border-radius: 4px;
-          overflow-x: auto;
-          margin: 0.5em 0;
-        }
-        .markdown-content pre code {
-          background: none;
-          padding: 0;
-        }
-        .markdown-content a {
-          color: #6cc6ff;
-          text-decoration: none;
-        }
-        .markdown-content a:hover {
-          text-decoration: underline;
-        }
-        .markdown-content strong {
-          font-weight: bold;
-        }
-        .markdown-content em {
-          font-style: italic;
-        }
-        .markdown-content ul, .markdown-content ol {
-          margin: 0.5em 0;
-          padding-left: 1.5em;
-        }
-        .markdown-content li {
-          margin: 0.25em 0;
-        }
-        .markdown-content blockquote {
-          border-left: 3px solid rgba(255, 255, 255, 0.3);
-          margin: 0.5em 0;
-          padding-left: 0.8em;
-          font-style: italic;
-        }
-        .markdown-content h1, .markdown-content h2, .markdown-content h3,
-        .markdown-content h4, .markdown-content h5, .markdown-content h6 {
-          margin: 0.8em 0 0.4em 0;
-          font-weight: bold;
-        }
-        .markdown-content h1:first-child, .markdown-content h2:first-child,
-        .markdown-content h3:first-child, .markdown-content h4:first-child,
-        .markdown-content h5:first-child, .markdown-content h6:first-child {
-          margin-top: 0;
-        }
+        ${MARKDOWN_STYLES}
       `}</style>
     </div>
   );
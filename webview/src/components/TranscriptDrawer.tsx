@@ -0,0 +1,209 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { FloatingControlButton } from './FloatingControlButton';
+import { copyTextToClipboard, MARKDOWN_STYLES, renderMarkdown } from './markdown';
+
+/**
+ * A transcript line as sent by the extension in `historyUpdated`
+ */
+export interface TranscriptEntry {
+  id: string;
+  role: 'user' | 'assistant';
+  text: string;
+  timestamp: number;
+  source?: { id: string; name: string };
+}
+
+interface TranscriptToggleButtonProps {
+  open: boolean;
+  onToggle: () => void;
+}
+
+export function TranscriptToggleButton({ open, onToggle }: TranscriptToggleButtonProps) {
+  const label = open ? 'Hide conversation log' : 'Show conversation log';
+  return (
+    <FloatingControlButton onClick={onToggle} ariaLabel={label} title={label} aria-expanded={open} style={{ fontSize: 16 }}>
+      📜
+    </FloatingControlButton>
+  );
+}
+
+interface TranscriptDrawerProps {
+  open: boolean;
+  entries: TranscriptEntry[];
+  /** Replay is only offered once audio playback is enabled */
+  canReplay: boolean;
+  onReplay: (entryId: string) => void;
+  onClose: () => void;
+}
+
+const ACTION_BUTTON_STYLE: React.CSSProperties = {
+  background: 'transparent',
+  color: 'rgba(255,255,255,0.75)',
+  border: 'none',
+  padding: '0 4px',
+  fontSize: '12px',
+  lineHeight: 1,
+  cursor: 'pointer',
+};
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+function TranscriptItem({ entry, canReplay, onReplay }: { entry: TranscriptEntry; canReplay: boolean; onReplay: (entryId: string) => void }) {
+  const [copied, setCopied] = useState(false);
+  const isUser = entry.role === 'user';
+  const html = useMemo(() => (isUser ? '' : renderMarkdown(entry.text)), [entry.text, isUser]);
+
+  useEffect(() => {
+    if (!copied) {
+      return;
+    }
+    const timer = window.setTimeout(() => setCopied(false), 1500);
+    return () => window.clearTimeout(timer);
+  }, [copied]);
+
+  const handleCopy = async () => {
+    setCopied(await copyTextToClipboard(entry.text));
+  };
+
+  return (
+    <li
+      style={{
+        alignSelf: isUser ? 'flex-end' : 'stretch',
+        maxWidth: isUser ? '85%' : undefined,
+        padding: '8px 10px',
+        borderRadius: 10,
+        background: isUser ? 'rgba(30, 90, 160, 0.6)' : 'rgba(255, 255, 255, 0.08)',
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', gap: 6, marginBottom: 4, fontSize: '10px', opacity: 0.8 }}>
+        <span style={{ fontWeight: 600 }}>{isUser ? 'You' : 'Ani'}</span>
+        {entry.source && (
+          <span
+            title={`Prompted by the ${entry.source.name} plugin`}
+            style={{
+              padding: '1px 6px',
+              borderRadius: 999,
+              background: 'rgba(255, 255, 255, 0.15)',
+              whiteSpace: 'nowrap',
+            }}
+          >
+            {entry.source.name}
+          </span>
+        )}
+        <span style={{ marginLeft: 'auto' }}>{formatTime(entry.timestamp)}</span>
+        {!isUser && (
+          <button
+            type="button"
+            onClick={() => onReplay(entry.id)}
+            disabled={!canReplay}
+            aria-label="Replay audio"
+            title={canReplay ? 'Replay audio' : 'Enable audio playback to replay'}
+            style={{ ...ACTION_BUTTON_STYLE, opacity: canReplay ? 1 : 0.4, cursor: canReplay ? 'pointer' : 'default' }}
+          >
+            🔈
+          </button>
+        )}
+        <button type="button" onClick={handleCopy} aria-label="Copy message" title="Copy message" style={ACTION_BUTTON_STYLE}>
+          {copied ? '✓' : '⧉'}
+        </button>
+      </div>
+      {isUser ? (
+        <div style={{ whiteSpace: 'pre-wrap', overflowWrap: 'anywhere' }}>{entry.text}</div>
+      ) : (
+        <div className="markdown-content" dangerouslySetInnerHTML={{ __html: html }} style={{ overflowWrap: 'anywhere' }} />
+      )}
+    </li>
+  );
+}
+
+/**
+ * Scrollable log of everything said in this panel, newest at the bottom
+ */
+export function TranscriptDrawer({ open, entries, canReplay, onReplay, onClose }: TranscriptDrawerProps) {
+  const listRef = useRef<HTMLUListElement>(null);
+  // Follow new entries unless the user scrolled up to read older ones
+  const stickToBottomRef = useRef(true);
+
+  useEffect(() => {
+    if (open) {
+      stickToBottomRef.current = true;
+    }
+  }, [open]);
+
+  useEffect(() => {
+    const list = listRef.current;
+    if (open && list && stickToBottomRef.current) {
+      list.scrollTop = list.scrollHeight;
+    }
+  }, [open, entries]);
+
+  if (!open) {
+    return null;
+  }
+
+  return (
+    <div
+      role="dialog"
+      aria-label="Conversation log"
+      style={{
+        position: 'absolute',
+        top: 0,
+        right: 0,
+        bottom: 0,
+        width: 'min(360px, 85vw)',
+        display: 'flex',
+        flexDirection: 'column',
+        background: 'rgba(0, 0, 0, 0.8)',
+        color: '#fff',
+        boxShadow: '-8px 0 20px rgba(0,0,0,0.35)',
+        backdropFilter: 'blur(4px)',
+        WebkitBackdropFilter: 'blur(4px)',
+        fontFamily: 'system-ui, -apple-system, Segoe UI, Roboto, Helvetica, Arial, sans-serif',
+        fontSize: '12px',
+        lineHeight: 1.3,
+        zIndex: 18,
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', padding: '10px 12px', borderBottom: '1px solid rgba(255,255,255,0.15)' }}>
+        <span style={{ fontWeight: 600 }}>Conversation</span>
+        <button
+          type="button"
+          onClick={onClose}
+          aria-label="Close conversation log"
+          title="Close"
+          style={{ ...ACTION_BUTTON_STYLE, marginLeft: 'auto', fontSize: '16px' }}
+        >
+          ×
+        </button>
+      </div>
+      {entries.length === 0 ? (
+        <div style={{ padding: 16, opacity: 0.7 }}>Nothing has been said yet.</div>
+      ) : (
+        <ul
+          ref={listRef}
+          onScroll={(event) => {
+            const list = event.currentTarget;
+            stickToBottomRef.current = list.scrollHeight - list.scrollTop - list.clientHeight < 24;
+          }}
+          style={{
+            flex: 1,
+            overflowY: 'auto',
+            listStyle: 'none',
+            margin: 0,
+            padding: 12,
+            display: 'flex',
+            flexDirection: 'column',
+            gap: 8,
+          }}
+        >
+          {entries.map((entry) => (
+            <TranscriptItem key={entry.id} entry={entry} canReplay={canReplay} onReplay={onReplay} />
+          ))}
+        </ul>
+      )}
+      <style>{MARKDOWN_STYLES}</style>
+    </div>
+  );
+}
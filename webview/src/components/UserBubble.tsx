@@ -0,0 +1,34 @@
+import React from 'react';
+
+interface UserBubbleProps {
+  text: string;
+}
+
+/**
+ * The message the user typed, shown small and right-aligned so it is clear what Ani is answering
+ */
+export function UserBubble({ text }: UserBubbleProps) {
+  return (
+    <div
+      style={{
+        maxWidth: '100%',
+        maxHeight: 72,
+        overflow: 'hidden',
+        padding: '6px 10px',
+        borderRadius: '12px 12px 4px 12px',
+        background: 'rgba(30, 90, 160, 0.75)',
+        color: '#fff',
+        boxShadow: '0 6px 16px rgba(0,0,0,0.3)',
+        fontFamily: 'system-ui, -apple-system, Segoe UI, Roboto, Helvetica, Arial, sans-serif',
+        fontSize: '11px',
+        lineHeight: 1.3,
+        whiteSpace: 'pre-wrap',
+        overflowWrap: 'anywhere',
+        flexShrink: 0,
+      }}
+      aria-label="Your message"
+    >
+      {text}
+    </div>
+  );
+}
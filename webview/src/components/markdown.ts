@@ -0,0 +1,109 @@
+import MarkdownIt from 'markdown-it';
+
+// Shared by the speech bubble and the transcript so replies look the same in both
+const md = new MarkdownIt({
+  html: true,
+  linkify: true,
+  typographer: true,
+  breaks: true,
+});
+
+export function renderMarkdown(text: string): string {
+  return md.render(text);
+}
+
+/**
+ * Styles for rendered markdown; apply them to an element with the `markdown-content` class
+ */
+export const MARKDOWN_STYLES = `
+  .markdown-content p {
+    margin: 0.5em 0;
+  }
+  .markdown-content p:first-child {
+    margin-top: 0;
+  }
+  .markdown-content p:last-child {
+    margin-bottom: 0;
+  }
+  .markdown-content code {
+    background: rgba(255, 255, 255, 0.1);
+    padding: 2px 4px;
+    border-radius: 3px;
+    font-family: 'Courier New', monospace;
+    font-size: 0.9em;
+  }
+  .markdown-content pre {
+    background: rgba(255, 255, 255, 0.1);
+    padding: 8px;
+    border-radius: 4px;
+    overflow-x: auto;
+    margin: 0.5em 0;
+  }
+  .markdown-content pre code {
+    background: none;
+    padding: 0;
+  }
+  .markdown-content a {
+    color: #6cc6ff;
+    text-decoration: none;
+  }
+  .markdown-content a:hover {
+    text-decoration: underline;
+  }
+  .markdown-content strong {
+    font-weight: bold;
+  }
+  .markdown-content em {
+    font-style: italic;
+  }
+  .markdown-content ul, .markdown-content ol {
+    margin: 0.5em 0;
+    padding-left: 1.5em;
+  }
+  .markdown-content li {
+    margin: 0.25em 0;
+  }
+  .markdown-content blockquote {
+    border-left: 3px solid rgba(255, 255, 255, 0.3);
+    margin: 0.5em 0;
+    padding-left: 0.8em;
+    font-style: italic;
+  }
+  .markdown-content h1, .markdown-content h2, .markdown-content h3,
+  .markdown-content h4, .markdown-content h5, .markdown-content h6 {
+    margin: 0.8em 0 0.4em 0;
+    font-weight: bold;
+  }
+  .markdown-content h1:first-child, .markdown-content h2:first-child,
+  .markdown-content h3:first-child, .markdown-content h4:first-child,
+  .markdown-content h5:first-child, .markdown-content h6:first-child {
+    margin-top: 0;
+  }
+`;
+
+/**
+ * Copy text, falling back to a hidden textarea where the async clipboard API is unavailable
+ * Resolves to whether the text was copied
+ */
+export async function copyTextToClipboard(value: string): Promise<boolean> {
+  try {
+    if (navigator.clipboard && typeof navigator.clipboard.writeText === 'function') {
+      await navigator.clipboard.writeText(value);
+      return true;
+    }
+  } catch {}
+  try {
+    const ta = document.createElement('textarea');
+    ta.value = value;
+    ta.setAttribute('readonly', '');
+    ta.style.position = 'fixed';
+    ta.style.left = '-9999px';
+    document.body.appendChild(ta);
+    ta.focus();
+    ta.select();
+    document.execCommand('copy');
+    document.body.removeChild(ta);
+    return true;
+  } catch {}
+  return false;
+}
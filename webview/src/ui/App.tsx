@@ -2,12 +2,16 @@ import React, { useCallback, useEffect, useRef, useState } from 'react';
 import { SpeechBubble } from '../components/SpeechBubble';
 import { ThinkingDots } from '../components/ThinkingDots';
 import { DebugPanel } from '../components/DebugPanel';
-import { SetupGuide } from '../components/SetupGuide';
+import { SetupGuide, SetupErrorDetails } from '../components/SetupGuide';
 import { bootCubism } from '../viewer/boot';
 import { LAppDelegate } from '../viewer/lappdelegate';
 import { ModelSwitchButton } from '../components/ModelSwitchButton';
 import { AudioUnlockButton } from '../components/AudioUnlockButton';
 import { AudioUnlockHint } from '../components/AudioUnlockHint';
+import { ChatInput, ChatToggleButton } from '../components/ChatInput';
+import { UserBubble } from '../components/UserBubble';
+import { EditProposal, EditProposalCard, EditProposalItem } from '../components/EditProposalCard';
+import { TranscriptDrawer, TranscriptEntry, TranscriptToggleButton } from '../components/TranscriptDrawer';
 import { getVsCodeApi } from '../vscode';
 import { prepareAudioForPlayback, type TtsAudioPayload } from '../audio/ttsAudio';
 
@@ -29,9 +33,19 @@ export function App() {
   const containerRef = useRef<HTMLDivElement>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
   const sourceRef = useRef<AudioBufferSourceNode | null>(null);
+  const chunkSourcesRef = useRef<AudioBufferSourceNode[]>([]);
+  const chunkQueueRef = useRef<Promise<void>>(Promise.resolve());
+  const nextChunkStartRef = useRef(0);
+  const lipSyncTimersRef = useRef<number[]>([]);
+  const utteranceIdRef = useRef<string | null>(null);
   const playbackGenerationRef = useRef(0);
   const [speechText, setSpeechText] = useState('');
   const [speechOptions, setSpeechOptions] = useState<{ durationMs?: number; speedMsPerChar?: number } | undefined>(undefined);
+  const [speechKey, setSpeechKey] = useState<string | number>(0);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const streamIdRef = useRef<string | null>(null);
+  const streamTextRef = useRef('');
+  const speechCounterRef = useRef(0);
   const [dismissSpeech, setDismissSpeech] = useState(false);
   const [quickReplies, setQuickReplies] = useState<string[]>([]);
   const [showQuickReplies, setShowQuickReplies] = useState(false);
@@ -39,10 +53,19 @@ export function App() {
   const [showDebugPanel, setShowDebugPanel] = useState(false);
   const [showSetupGuide, setShowSetupGuide] = useState(true); // Show initially while testing
   const [setupErrorMessage, setSetupErrorMessage] = useState<string | undefined>(undefined);
+  const [setupErrorDetails, setSetupErrorDetails] = useState<SetupErrorDetails | undefined>(undefined);
   const [isTestingConnection, setIsTestingConnection] = useState(true); // Start with testing state
   const [ttsError, setTtsError] = useState<string | null>(null);
   const [audioUnlocked, setAudioUnlocked] = useState(false);
   const [hasEverUnlocked, setHasEverUnlocked] = useState(false);
+  const [chatOpen, setChatOpen] = useState(false);
+  const [chatInputHeight, setChatInputHeight] = useState(0);
+  const [userMessageText, setUserMessageText] = useState('');
+  const [transcriptOpen, setTranscriptOpen] = useState(false);
+  const [transcriptEntries, setTranscriptEntries] = useState<TranscriptEntry[]>([]);
+  const [editProposals, setEditProposals] = useState<EditProposalItem[]>([]);
+  // Set once Ani starts replying, so the user bubble goes away together with her answer
+  const userMessageAnsweredRef = useRef(true);
   const vscodeApiRef = useRef(getVsCodeApi());
   const audioUnlockedRef = useRef(audioUnlocked);
 
@@ -78,6 +101,19 @@ export function App() {
     } catch {}
     sourceRef.current?.disconnect();
     sourceRef.current = null;
+
+    for (const source of chunkSourcesRef.current) {
+      try {
+        source.stop();
+      } catch {}
+      source.disconnect();
+    }
+    chunkSourcesRef.current = [];
+    for (const timer of lipSyncTimersRef.current) {
+      window.clearTimeout(timer);
+    }
+    lipSyncTimersRef.current = [];
+    nextChunkStartRef.current = 0;
   }, []);
 
   const cancelAudioPlayback = useCallback(() => {
@@ -85,6 +121,16 @@ export function App() {
     stopAudioPlayback();
   }, [stopAudioPlayback]);
 
+  const dismissCurrentSpeech = useCallback(() => {
+    cancelAudioPlayback();
+    streamIdRef.current = null;
+    utteranceIdRef.current = null;
+    setIsStreaming(false);
+    setDismissSpeech(true);
+    setShowQuickReplies(false);
+    setQuickReplies([]);
+  }, [cancelAudioPlayback]);
+
   const resumeAudioContext = useCallback(async (): Promise<boolean> => {
     const ctx = ensureAudioContext();
     if (!ctx) {
@@ -158,7 +204,10 @@ export function App() {
 
         sourceRef.current = source;
         source.addEventListener('ended', () => {
-          stopAudioPlayback();
+          if (sourceRef.current === source) {
+            source.disconnect();
+            sourceRef.current = null;
+          }
         });
 
         if (!audioUnlockedRef.current || generation !== playbackGenerationRef.current) {
@@ -173,6 +222,59 @@ export function App() {
       }
     };
 
+    // Sentence chunks are decoded in order and scheduled back to back on the audio clock
+    const enqueueAudioChunk = (payload: TtsAudioPayload, generation: number) => {
+      chunkQueueRef.current = chunkQueueRef.current
+        .then(async () => {
+          if (!audioUnlockedRef.current || generation !== playbackGenerationRef.current) {
+            return;
+          }
+          if (!(await resumeAudioContext())) {
+            return;
+          }
+          const ctx = ensureAudioContext();
+          if (!ctx) {
+            return;
+          }
+          const processed = await prepareAudioForPlayback(ctx, payload);
+          if (!audioUnlockedRef.current || generation !== playbackGenerationRef.current) {
+            return;
+          }
+
+          const source = ctx.createBufferSource();
+          source.buffer = processed.playbackBuffer;
+          source.playbackRate.value = 1;
+          source.connect(ctx.destination);
+          source.addEventListener('ended', () => {
+            chunkSourcesRef.current = chunkSourcesRef.current.filter((item) => item !== source);
+            source.disconnect();
+          });
+
+          const startAt = Math.max(ctx.currentTime, nextChunkStartRef.current);
+          nextChunkStartRef.current = startAt + processed.playbackBuffer.duration;
+          chunkSourcesRef.current.push(source);
+          source.start(startAt);
+
+          // Restart lip sync with this chunk's waveform when it begins playing
+          const lipSyncDelayMs = Math.max(0, (startAt - ctx.currentTime) * 1000);
+          const timer = window.setTimeout(() => {
+            lipSyncTimersRef.current = lipSyncTimersRef.current.filter((item) => item !== timer);
+            if (generation !== playbackGenerationRef.current) {
+              return;
+            }
+            if (processed.lipSyncWav) {
+              window.startLipSyncFromArrayBuffer?.(processed.lipSyncWav);
+            } else {
+              window.startLipSyncFromUrl?.(`data:${payload.mimeType ?? 'audio/wav'};base64,${payload.data}`);
+            }
+          }, lipSyncDelayMs);
+          lipSyncTimersRef.current.push(timer);
+        })
+        .catch((error) => {
+          console.error('Failed to play TTS audio chunk', error);
+        });
+    };
+
     // Two-mode gaze control: caret-follow and mouse-follow with auto-switching
     let mode: 'mouse' | 'caret' = 'mouse';
     let caretTimeout: number | null = null;
@@ -182,8 +284,22 @@ export function App() {
     const showSpeech = (
       text: string,
       options?: { durationMs?: number; speedMsPerChar?: number },
-      quickRepliesPayload?: string[]
+      quickRepliesPayload?: string[],
+      stream?: { id: string; streaming: boolean },
+      utteranceId?: string
     ) => {
+      utteranceIdRef.current = typeof utteranceId === 'string' ? utteranceId : null;
+      userMessageAnsweredRef.current = true;
+      if (stream) {
+        streamIdRef.current = stream.id;
+        streamTextRef.current = text;
+      } else {
+        streamIdRef.current = null;
+        streamTextRef.current = '';
+      }
+      speechCounterRef.current += 1;
+      setSpeechKey(stream ? stream.id : speechCounterRef.current);
+      setIsStreaming(Boolean(stream?.streaming));
       setSpeechText(text);
       setSpeechOptions(options);
       setDismissSpeech(false);
@@ -282,22 +398,57 @@ export function App() {
         caretTimeout = window.setTimeout(() => {
           mode = 'mouse';
         }, 1500);
+      } else if (data.type === 'speechDelta' && typeof data.text === 'string' && typeof data.streamId === 'string') {
+        stopThinking();
+        if (data.streamId !== streamIdRef.current) {
+          cancelAudioPlayback();
+          showSpeech(data.text, data.options, undefined, { id: data.streamId, streaming: true }, data.utteranceId);
+        } else {
+          streamTextRef.current += data.text;
+          setSpeechText(streamTextRef.current);
+        }
       } else if (data.type === 'speech' && typeof data.text === 'string') {
-        cancelAudioPlayback();
+        const quickRepliesPayload = Array.isArray(data.quickReplies) ? data.quickReplies : undefined;
+        if (typeof data.streamId === 'string' && data.streamId === streamIdRef.current) {
+          // Final text for a streamed reply: keep the bubble and finish typing
+          streamTextRef.current = data.text;
+          setSpeechText(data.text);
+          setIsStreaming(false);
+          setQuickReplies(Array.isArray(quickRepliesPayload) ? quickRepliesPayload.filter((item: unknown) => typeof item === 'string' && item.trim().length > 0) : []);
+          if (typeof data.utteranceId === 'string') {
+            utteranceIdRef.current = data.utteranceId;
+          }
+        } else {
+          cancelAudioPlayback();
+          showSpeech(data.text, data.options, quickRepliesPayload, undefined, data.utteranceId);
+        }
+        if (Array.isArray(data.edits) && data.edits.length > 0) {
+          const edits = (data.edits as EditProposal[]).map((edit): EditProposalItem => ({ ...edit, status: 'pending' }));
+          setEditProposals((prev) => [...prev, ...edits]);
+        }
         const currentGeneration = playbackGenerationRef.current;
-        showSpeech(
-          data.text,
-          data.options,
-          Array.isArray(data.quickReplies) ? data.quickReplies : undefined
-        );
         if (data.audio && typeof data.audio.data === 'string') {
           void playAudioPayload(data.audio, currentGeneration);
         }
-      } else if (data.type === 'dismissSpeech') {
+      } else if (data.type === 'replayAudio' && data.audio && typeof data.audio.data === 'string') {
         cancelAudioPlayback();
-        setDismissSpeech(true);
-        setShowQuickReplies(false);
-        setQuickReplies([]);
+        void playAudioPayload(data.audio, playbackGenerationRef.current);
+      } else if (data.type === 'editResult' && typeof data.id === 'string') {
+        if (data.status === 'applied') {
+          setEditProposals((prev) => prev.filter((edit) => edit.id !== data.id));
+        } else {
+          const status = data.status === 'stale' ? 'stale' : 'failed';
+          const message = typeof data.message === 'string' ? data.message : undefined;
+          setEditProposals((prev) => prev.map((edit) => (edit.id === data.id ? { ...edit, status, message } : edit)));
+        }
+      } else if (data.type === 'historyUpdated' && Array.isArray(data.entries)) {
+        setTranscriptEntries(data.entries);
+      } else if (data.type === 'speechAudioChunk' && data.audio && typeof data.audio.data === 'string') {
+        if (typeof data.utteranceId === 'string' && data.utteranceId === utteranceIdRef.current) {
+          enqueueAudioChunk(data.audio, playbackGenerationRef.current);
+        }
+      } else if (data.type === 'dismissSpeech') {
+        dismissCurrentSpeech();
       } else if (data.type === 'ttsError') {
         if (data.clear) {
           setTtsError(null);
@@ -327,8 +478,10 @@ export function App() {
           }
         }
       } else if (data.type === 'setupError' && typeof data.message === 'string') {
-        // Show setup guide when there's a connection error
+        // Show setup guide when there's a connection error, silencing any reply that was cut off
+        cancelAudioPlayback();
         setSetupErrorMessage(data.message);
+        setSetupErrorDetails(data.error && Array.isArray(data.error.actions) ? data.error : undefined);
         setShowSetupGuide(true);
         setIsTestingConnection(false);
         // Hide thinking indicator
@@ -337,6 +490,7 @@ export function App() {
         // Hide setup guide on successful connection
         setShowSetupGuide(false);
         setSetupErrorMessage(undefined);
+        setSetupErrorDetails(undefined);
         setIsTestingConnection(false);
       } else if (data.type === 'testingConnection' && typeof data.testing === 'boolean') {
         // Update testing state
@@ -358,6 +512,9 @@ export function App() {
     window.addEventListener('message', onMessage);
     document.addEventListener('pointermove', onPointerMove, { passive: true });
 
+    // The webview is rebuilt whenever the panel is hidden, so ask for the conversation so far
+    getOrAcquireVsCodeApi()?.postMessage({ type: 'requestHistory' });
+
     // Show default message
     // showSpeech('Hello World');
 
@@ -372,7 +529,7 @@ export function App() {
       // Clean up global function
       window.setSpeechBubble = undefined;
     };
-  }, [cancelAudioPlayback, ensureAudioContext, getOrAcquireVsCodeApi, resumeAudioContext, stopAudioPlayback]);
+  }, [cancelAudioPlayback, dismissCurrentSpeech, ensureAudioContext, getOrAcquireVsCodeApi, resumeAudioContext, stopAudioPlayback]);
 
   const handleToggleAudio = useCallback(async () => {
     if (audioUnlocked) {
@@ -421,6 +578,45 @@ export function App() {
     setShowQuickReplies(false);
   }, [getOrAcquireVsCodeApi]);
 
+  const handleUserMessage = useCallback((text: string) => {
+    const vscode = getOrAcquireVsCodeApi();
+    if (!vscode) {
+      return;
+    }
+    vscode.postMessage({ type: 'userMessage', text });
+    userMessageAnsweredRef.current = false;
+    setUserMessageText(text);
+  }, [getOrAcquireVsCodeApi]);
+
+  const handleReplayAudio = useCallback((entryId: string) => {
+    const vscode = getOrAcquireVsCodeApi();
+    if (vscode) {
+      vscode.postMessage({ type: 'replayAudio', entryId });
+    }
+  }, [getOrAcquireVsCodeApi]);
+
+  const handleApplyEdit = useCallback((id: string) => {
+    const vscode = getOrAcquireVsCodeApi();
+    if (vscode) {
+      setEditProposals((prev) => prev.map((edit) => (edit.id === id ? { ...edit, status: 'applying' } : edit)));
+      vscode.postMessage({ type: 'applyEdit', id });
+    }
+  }, [getOrAcquireVsCodeApi]);
+
+  const handleRejectEdit = useCallback((id: string) => {
+    setEditProposals((prev) => prev.filter((edit) => edit.id !== id));
+    getOrAcquireVsCodeApi()?.postMessage({ type: 'rejectEdit', id });
+  }, [getOrAcquireVsCodeApi]);
+
+  const handleSpeechClosed = useCallback(() => {
+    dismissCurrentSpeech();
+    // Let the extension cancel the reply if it is still being generated or spoken
+    const vscode = getOrAcquireVsCodeApi();
+    if (vscode) {
+      vscode.postMessage({ type: 'dismissSpeech' });
+    }
+  }, [dismissCurrentSpeech, getOrAcquireVsCodeApi]);
+
   return (
     <div style={{ position: 'relative', width: '100%', height: '100%' }}>
       <div style={{ width: '100%', height: '100%' }} ref={containerRef} />
@@ -430,10 +626,20 @@ export function App() {
           text={speechText}
           options={speechOptions}
           dismiss={dismissSpeech}
+          speechKey={speechKey}
+          streaming={isStreaming}
           quickReplies={quickReplies}
           showQuickReplies={showQuickReplies}
           onQuickReplySelected={handleQuickReplySelected}
+          onClose={handleSpeechClosed}
+          bottomOffset={chatInputHeight > 0 ? 16 + chatInputHeight + 8 : undefined}
           onHidden={() => {
+            if (userMessageAnsweredRef.current) {
+              setUserMessageText('');
+            }
+            streamIdRef.current = null;
+            streamTextRef.current = '';
+            setIsStreaming(false);
             setSpeechText('');
             setDismissSpeech(false);
             setQuickReplies([]);
@@ -468,11 +674,50 @@ export function App() {
           <AudioUnlockButton enabled={audioUnlocked} onToggle={handleToggleAudio} />
           {!hasEverUnlocked && !audioUnlocked && <AudioUnlockHint />}
         </div>
+        <ChatToggleButton open={chatOpen} onToggle={() => setChatOpen((prev) => !prev)} />
+        <TranscriptToggleButton open={transcriptOpen} onToggle={() => setTranscriptOpen((prev) => !prev)} />
       </div>
+      {!showSetupGuide && (userMessageText || editProposals.length > 0) && (
+        <div
+          style={{
+            position: 'absolute',
+            top: 12,
+            right: 16,
+            width: 'min(420px, 60%)',
+            maxHeight: 'calc(100% - 24px)',
+            overflowY: 'auto',
+            display: 'flex',
+            flexDirection: 'column',
+            alignItems: 'flex-end',
+            gap: 8,
+            zIndex: 14,
+            pointerEvents: 'none',
+          }}
+        >
+          {userMessageText && <UserBubble text={userMessageText} />}
+          {editProposals.map((edit) => (
+            <EditProposalCard key={edit.id} edit={edit} onApply={handleApplyEdit} onReject={handleRejectEdit} />
+          ))}
+        </div>
+      )}
+      <ChatInput
+        open={chatOpen && !showSetupGuide}
+        onSubmit={handleUserMessage}
+        onClose={() => setChatOpen(false)}
+        onHeightChange={setChatInputHeight}
+      />
+      <TranscriptDrawer
+        open={transcriptOpen && !showSetupGuide}
+        entries={transcriptEntries}
+        canReplay={audioUnlocked}
+        onReplay={handleReplayAudio}
+        onClose={() => setTranscriptOpen(false)}
+      />
       <DebugPanel visible={showDebugPanel} />
       <SetupGuide
         visible={showSetupGuide}
         errorMessage={setupErrorMessage}
+        errorDetails={setupErrorDetails}
         onRetry={handleRetryConnection}
         onDismiss={handleDismissSetupGuide}
         isTesting={isTestingConnection}
@@ -482,7 +727,7 @@ export function App() {
           style={{
             position: 'absolute',
             right: 16,
-            bottom: 16,
+            bottom: chatInputHeight > 0 ? 16 + chatInputHeight + 8 : 16,
             maxWidth: 320,
             padding: '12px 16px',
             borderRadius: 8,